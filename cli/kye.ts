@@ -0,0 +1,342 @@
+// Command-line runner for the headless library.
+//
+//   kye run <job.json> [--format json|csv] [--out file]
+//     job.json: { "kind": "market" | "propFirm" | "fees" | "ruin" | ...,
+//                 "args": <the job's config> }
+//   kye analyze <report> [--source csv|mt4|ctrader] [--balance 10000]
+//       [--out file]
+//
+// Results go to stdout unless --out is given; progress goes to stderr.
+import { readFileSync, writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import {
+  COMPUTE_JOB_KINDS,
+  parseTradeReport,
+  runComputeJob,
+  toCsv,
+} from "../src/core";
+import type {
+  ComputeJobArgs,
+  ComputeJobKind,
+  ComputeJobResult,
+  DataFormat,
+  ProgressCallback,
+} from "../src/core";
+
+const USAGE = `Usage:
+  kye run <job.json> [--format json|csv] [--out file]
+  kye analyze <report> [--source csv|mt4|ctrader] [--balance 10000]
+      [--out file]
+
+Job kinds: ${COMPUTE_JOB_KINDS.join(", ")}`;
+
+const SOURCES: Record<string, DataFormat> = {
+  csv: "GENERIC_CSV",
+  mt4: "MT4_MT5",
+  ctrader: "CTRADER",
+};
+
+const SIMULATION_NUMBERS = [
+  "initialCapital",
+  "riskPerTradePercent",
+  "winRatePercent",
+  "rewardToRiskRatio",
+  "numberOfTrades",
+  "simulationCount",
+  "seed",
+];
+const PHASE_NUMBERS = [
+  "profitTargetPercent",
+  "maxTotalDrawdownPercent",
+  "maxDailyDrawdownPercent",
+];
+const under = (parent: string, keys: string[]) =>
+  keys.map((key) => `${parent}.${key}`);
+
+// Numbers each job can't run without, as paths into its args. Optional
+// models are left to the engines' defaults.
+const REQUIRED_NUMBERS: Record<ComputeJobKind, string[]> = {
+  market: SIMULATION_NUMBERS,
+  sizingComparison: under("config", SIMULATION_NUMBERS),
+  circuitBreakerComparison: SIMULATION_NUMBERS,
+  riskOptimizer: [
+    ...under("config", SIMULATION_NUMBERS),
+    ...under("optimizer", ["minRiskPercent", "maxRiskPercent", "steps"]),
+  ],
+  calendar: [
+    ...under("config", SIMULATION_NUMBERS),
+    ...under("calendar", ["months", "tradesPerWeek"]),
+  ],
+  propFirm: [
+    "iterations",
+    ...under("config", [
+      "accountSize",
+      "steps",
+      "winRatePercent",
+      "rewardToRiskRatio",
+      "riskPerTradePercent",
+      "tradesPerWeek",
+      "seed",
+    ]),
+  ],
+  fees: [
+    "lotSize",
+    "winRate",
+    "rewardRisk",
+    "riskPerTrade",
+    "trades",
+    "commissionPerUnit",
+    "spread",
+    "pointValue",
+  ],
+  ruin: ["winRate", "rewardRisk", "riskPerTrade", "seed"],
+  sensitivity: [
+    ...under("base", [
+      "winRatePercent",
+      "rewardToRiskRatio",
+      "riskPerTradePercent",
+      "tradesPerWeek",
+      "accountSize",
+      "horizonWeeks",
+      "simulationsPerCell",
+      "seed",
+    ]),
+    ...under("base.phase", PHASE_NUMBERS),
+    ...under("x", ["min", "max", "steps"]),
+    ...under("y", ["min", "max", "steps"]),
+  ],
+  portfolio: ["initialCapital", "weeks", "simulationCount", "seed"],
+  tradeAnalysis: ["startBalance", "performanceSettings.riskFreeRatePercent"],
+  bootstrap: under("config", [
+    "initialCapital",
+    "numberOfTrades",
+    "simulationCount",
+    "blockSize",
+    "ruinDrawdownPercent",
+    "seed",
+  ]),
+};
+
+// Lists each job can't run without
+const REQUIRED_LISTS: { [K in ComputeJobKind]?: string[] } = {
+  sizingComparison: ["models"],
+  propFirm: ["config.phases"],
+  portfolio: ["legs"],
+  tradeAnalysis: ["trades"],
+  bootstrap: ["trades"],
+};
+
+const valueAt = (args: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        typeof value === "object" && value !== null
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      args
+    );
+
+// The job's args once the values it needs are there, throwing an Error that
+// names the first missing or malformed key
+const readArgs = <K extends ComputeJobKind>(
+  kind: K,
+  args: unknown
+): ComputeJobArgs<K> => {
+  for (const key of REQUIRED_NUMBERS[kind]) {
+    const value = valueAt(args, key);
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new Error(`${kind} args: ${key} must be a number.`);
+    }
+  }
+  for (const key of REQUIRED_LISTS[kind] ?? []) {
+    if (!Array.isArray(valueAt(args, key))) {
+      throw new Error(`${kind} args: ${key} must be a list.`);
+    }
+  }
+  // The engine runs one listed phase per step and would skip missing ones
+  if (kind === "propFirm") {
+    const steps = valueAt(args, "config.steps") as number;
+    const phases = valueAt(args, "config.phases") as unknown[];
+    if (steps < 1 || phases.length < steps) {
+      throw new Error(
+        `${kind} args: config.phases must list one phase per step (config.steps is ${steps}).`
+      );
+    }
+  }
+  return args as ComputeJobArgs<K>;
+};
+
+// Row-per-line view of each result for CSV output
+const CSV_ROWS: {
+  [K in ComputeJobKind]?: (result: ComputeJobResult<K>) => object[];
+} = {
+  market: (result) => result.stats.map((s, i) => ({ run: i + 1, ...s })),
+  propFirm: (result) =>
+    [result.results, ...result.phaseResults].flatMap((counts, i) =>
+      Object.entries(counts).map(([outcome, attempts]) => ({
+        phase: i === 0 ? "all" : i,
+        outcome,
+        attempts,
+      }))
+    ),
+  fees: (result) =>
+    result.data.map((d) => ({
+      ...d,
+      totalCostPerTrade: result.totalCostPerTrade,
+    })),
+  ruin: (result) => [{ ruinPercent: result }],
+  calendar: (result) =>
+    result.monthlyReturns.map((months, i) => ({
+      run: i + 1,
+      ...Object.fromEntries(months.map((r, m) => [`month${m + 1}`, r])),
+    })),
+  portfolio: (result) => result.stats.map((s, i) => ({ run: i + 1, ...s })),
+  sizingComparison: (result) => result,
+  circuitBreakerComparison: (result) => result,
+  riskOptimizer: (result) => result.points,
+  sensitivity: (result) =>
+    result.yValues.flatMap((y, yi) =>
+      result.xValues.map((x, xi) => ({
+        x,
+        y,
+        value: result.values[yi][xi],
+        expectancyR: result.expectancies[yi][xi],
+      }))
+    ),
+};
+
+// Throttled to 1% steps, like the compute worker
+const createProgress = (label: string): ProgressCallback => {
+  let lastReported = 0;
+  return (fraction) => {
+    if (!process.stderr.isTTY) return;
+    if (fraction - lastReported >= 0.01 || fraction >= 1) {
+      lastReported = fraction;
+      process.stderr.write(`\r${label} ${(fraction * 100).toFixed(0)}%`);
+      if (fraction >= 1) process.stderr.write("\n");
+    }
+  };
+};
+
+const format = <K extends ComputeJobKind>(
+  kind: K,
+  result: ComputeJobResult<K>,
+  output: string
+): string => {
+  if (output === "json") return JSON.stringify(result, null, 2);
+  if (output !== "csv") throw new Error(`Unknown format "${output}".`);
+  const toRows = CSV_ROWS[kind];
+  if (!toRows) {
+    throw new Error(`CSV isn't available for ${kind} jobs; use --format json.`);
+  }
+  return toCsv(toRows(result));
+};
+
+const readJson = (path: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new Error(
+      `Could not read ${path}: ${err instanceof Error ? err.message : err}`
+    );
+  }
+};
+
+const runJob = (path: string, output: string) => {
+  const job = readJson(path) as { kind?: string; args?: unknown };
+  const kind = COMPUTE_JOB_KINDS.find((k) => k === job.kind);
+  if (!kind) {
+    throw new Error(
+      `Unknown job kind "${
+        job.kind
+      }". Expected one of: ${COMPUTE_JOB_KINDS.join(", ")}.`
+    );
+  }
+  if (job.args === undefined) throw new Error(`${path} has no "args".`);
+
+  const result = runComputeJob(
+    kind,
+    readArgs(kind, job.args),
+    createProgress(kind)
+  );
+  return format(kind, result, output);
+};
+
+const analyzeReport = (
+  path: string,
+  source: string,
+  balance: number,
+  output: string
+) => {
+  const dataFormat = SOURCES[source];
+  if (!dataFormat) {
+    throw new Error(
+      `Unknown source "${source}". Expected one of: ${Object.keys(SOURCES).join(
+        ", "
+      )}.`
+    );
+  }
+  if (!Number.isFinite(balance)) throw new Error("--balance must be a number.");
+  // The trade rows and the summary statistics don't fit one table
+  if (output === "csv") {
+    throw new Error("analyze writes JSON only; drop --format csv.");
+  }
+
+  const trades = parseTradeReport(
+    readFileSync(path, "utf8"),
+    dataFormat,
+    balance
+  );
+  const result = runComputeJob("tradeAnalysis", {
+    trades,
+    startBalance: balance,
+    performanceSettings: { returnPeriod: "DAILY", riskFreeRatePercent: 0 },
+  });
+  return format("tradeAnalysis", result, output);
+};
+
+const main = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "json" },
+      out: { type: "string" },
+      source: { type: "string", default: "csv" },
+      balance: { type: "string", default: "10000" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+
+  const [command, path] = positionals;
+  if (values.help || !command) {
+    console.log(USAGE);
+    return;
+  }
+  if (!path) throw new Error(`Missing input file.\n\n${USAGE}`);
+
+  let text: string;
+  if (command === "run") {
+    text = runJob(path, values.format);
+  } else if (command === "analyze") {
+    text = analyzeReport(
+      path,
+      values.source,
+      Number(values.balance),
+      values.format
+    );
+  } else {
+    throw new Error(`Unknown command "${command}".\n\n${USAGE}`);
+  }
+
+  if (values.out) writeFileSync(values.out, text + "\n");
+  else process.stdout.write(text + "\n");
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (err) {
+  console.error(`kye: ${err instanceof Error ? err.message : err}`);
+  process.exit(1);
+}
@@ -5,6 +5,8 @@ import PropFirmEstimator from "./components/modules/PropFirmEstimator";
 import FeeAnalyzer from "./components/modules/FeeAnalyzer";
 import RiskRuinRecovery from "./components/modules/RiskRuinRecovery";
 import DataAnalyzer from "./components/modules/DataAnalyzer";
+import SensitivityExplorer from "./components/modules/SensitivityExplorer";
+import PortfolioSimulator from "./components/modules/PortfolioSimulator";
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabId>(TabId.MARKET_SIM);
@@ -15,6 +17,8 @@ const App: React.FC = () => {
     { id: TabId.FEE_ANALYZER, label: "Fee Analyzer" },
     { id: TabId.RISK_RUIN, label: "Risk & Ruin" },
     { id: TabId.ANALYZE_DATA, label: "Analyze Data" },
+    { id: TabId.SENSITIVITY, label: "Sensitivity" },
+    { id: TabId.PORTFOLIO, label: "Portfolio" },
   ];
 
   return (
@@ -100,6 +104,20 @@ const App: React.FC = () => {
         >
           <DataAnalyzer />
         </div>
+        <div
+          style={{
+            display: activeTab === TabId.SENSITIVITY ? "block" : "none",
+          }}
+        >
+          <SensitivityExplorer />
+        </div>
+        <div
+          style={{
+            display: activeTab === TabId.PORTFOLIO ? "block" : "none",
+          }}
+        >
+          <PortfolioSimulator />
+        </div>
       </main>
 
       {/* Footer */}
@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from "react";
+import { Card } from "../ui/Card";
+import { Input } from "../ui/Input";
+import { SimulationCountInput } from "../ui/SimulationCountInput";
+import { SeedInput } from "../ui/SeedInput";
+import { ProgressBar } from "../ui/ProgressBar";
+import { FanChart } from "../ui/FanChart";
+import { Histogram } from "../ui/Histogram";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import { randomSeed } from "../../services/random";
+import type {
+  BootstrapConfig,
+  BootstrapMethod,
+  ParsedTrade,
+} from "../../types";
+
+interface BootstrapPanelProps {
+  trades: ParsedTrade[];
+  startBalance: number;
+  tradesPerWeek: number; // 0 when the history has no timestamps
+}
+
+// Forward-simulates the imported history by resampling its own P&L
+const BootstrapPanel: React.FC<BootstrapPanelProps> = ({
+  trades,
+  startBalance,
+  tradesPerWeek,
+}) => {
+  const [config, setConfig] = useState<
+    Omit<BootstrapConfig, "initialCapital" | "tradesPerWeek">
+  >({
+    numberOfTrades: 200,
+    simulationCount: 1000,
+    method: "IID",
+    blockSize: 5,
+    ruinDrawdownPercent: 50,
+    seed: randomSeed(),
+  });
+
+  const bootstrapJob = useComputeJob("bootstrap");
+  const { run: runBootstrap } = bootstrapJob;
+  useEffect(() => {
+    const t = setTimeout(
+      () =>
+        runBootstrap({
+          trades,
+          config: { ...config, initialCapital: startBalance, tradesPerWeek },
+        }),
+      500
+    );
+    return () => clearTimeout(t);
+  }, [trades, startBalance, tradesPerWeek, config, runBootstrap]);
+
+  const result = bootstrapJob.result;
+  const summary = result?.summary ?? null;
+
+  const handleInput = (key: keyof typeof config, val: string) => {
+    setConfig({ ...config, [key]: Number(val) });
+  };
+
+  const methods: { id: BootstrapMethod; label: string }[] = [
+    { id: "IID", label: "Plain Bootstrap" },
+    { id: "BLOCK", label: "Block Bootstrap" },
+  ];
+
+  return (
+    <Card title="Forward Simulation (Bootstrap)">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 bg-dark-900 p-1 rounded-lg border border-dark-700">
+            {methods.map((m) => (
+              <button
+                key={m.id}
+                onClick={() => setConfig({ ...config, method: m.id })}
+                className={`py-1.5 text-sm font-medium rounded-md transition-all ${
+                  config.method === m.id
+                    ? "bg-primary text-white shadow-lg"
+                    : "text-slate-400 hover:text-white"
+                }`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Trades Ahead"
+              type="number"
+              value={config.numberOfTrades}
+              onChange={(e) => handleInput("numberOfTrades", e.target.value)}
+            />
+            <SimulationCountInput
+              count={config.simulationCount}
+              onCountChange={(simulationCount) =>
+                setConfig({ ...config, simulationCount })
+              }
+            />
+            {config.method === "BLOCK" && (
+              <Input
+                label="Block Size"
+                type="number"
+                min={1}
+                value={config.blockSize}
+                onChange={(e) => handleInput("blockSize", e.target.value)}
+                suffix="trades"
+              />
+            )}
+            <Input
+              label="Ruin at Loss of"
+              type="number"
+              value={config.ruinDrawdownPercent}
+              onChange={(e) =>
+                handleInput("ruinDrawdownPercent", e.target.value)
+              }
+              suffix="%"
+            />
+          </div>
+          <SeedInput
+            seed={config.seed}
+            onSeedChange={(seed) => setConfig({ ...config, seed })}
+          />
+          <ProgressBar
+            progress={bootstrapJob.progress}
+            isRunning={bootstrapJob.isRunning}
+            onCancel={bootstrapJob.cancel}
+          />
+          {bootstrapJob.error && (
+            <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+              {bootstrapJob.error}
+            </div>
+          )}
+          <p className="text-xs text-slate-500 leading-relaxed">
+            Resamples your actual trade P&L in dollars instead of a two-point
+            win/loss model. Block bootstrap keeps runs of consecutive trades
+            together so real streaks and volatility clusters are preserved.
+          </p>
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          <div className="h-[300px]">
+            {result && <FanChart data={result.bands} xKey="tradeNumber" />}
+          </div>
+
+          {result && summary && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Risk of Ruin
+                </div>
+                <div
+                  className={`text-xl font-bold ${
+                    result.ruinProbability < 1
+                      ? "text-emerald-400"
+                      : "text-rose-400"
+                  }`}
+                >
+                  {result.ruinProbability.toFixed(1)}%
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Median Return
+                </div>
+                <div className="text-xl font-bold text-slate-100">
+                  {summary.medianReturnPercent.toFixed(1)}%
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Median Max DD
+                </div>
+                <div className="text-xl font-bold text-accent">
+                  {summary.medianMaxDrawdownPercent.toFixed(2)}%
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  95th Pct. Max DD
+                </div>
+                <div className="text-xl font-bold text-accent">
+                  {summary.p95MaxDrawdownPercent.toFixed(2)}%
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Time Under Water
+                </div>
+                <div className="text-xl font-bold text-amber-400">
+                  {summary.medianLongestDrawdownTrades.toFixed(0)} trades
+                </div>
+                {summary.medianLongestDrawdownDays !== undefined && (
+                  <div className="text-xs text-slate-500">
+                    ≈ {summary.medianLongestDrawdownDays.toFixed(0)} days
+                  </div>
+                )}
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  95th Pct. Under Water
+                </div>
+                <div className="text-xl font-bold text-amber-400">
+                  {summary.p95LongestDrawdownTrades.toFixed(0)} trades
+                </div>
+                {summary.p95LongestDrawdownDays !== undefined && (
+                  <div className="text-xs text-slate-500">
+                    ≈ {summary.p95LongestDrawdownDays.toFixed(0)} days
+                  </div>
+                )}
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Worst DD Recovery
+                </div>
+                <div className="text-xl font-bold text-amber-400">
+                  {summary.medianRecoveryTrades === null
+                    ? "Never"
+                    : `${summary.medianRecoveryTrades.toFixed(0)} trades`}
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Median Ulcer Index
+                </div>
+                <div className="text-xl font-bold text-accent">
+                  {summary.medianUlcerIndex.toFixed(2)}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {summary && (
+            <div className="h-[200px]">
+              <Histogram
+                bins={summary.maxDrawdownHistogram}
+                formatValue={(v) => `${v.toFixed(1)}%`}
+                color="#ef4444"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default BootstrapPanel;
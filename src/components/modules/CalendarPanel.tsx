@@ -0,0 +1,279 @@
+import React, { useState } from "react";
+import { Card } from "../ui/Card";
+import { Input } from "../ui/Input";
+import { Button } from "../ui/Button";
+import { ProgressBar } from "../ui/ProgressBar";
+import { FanChart } from "../ui/FanChart";
+import { Histogram } from "../ui/Histogram";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import type { SimulationConfig } from "../../types";
+
+interface CalendarPanelProps {
+  config: SimulationConfig;
+}
+
+type PathChoice = "MEDIAN" | "BEST" | "WORST" | "RUN";
+
+const PATHS: { id: PathChoice; label: string }[] = [
+  { id: "MEDIAN", label: "Median" },
+  { id: "BEST", label: "Best" },
+  { id: "WORST", label: "Worst" },
+  { id: "RUN", label: "Run #" },
+];
+
+const MONTH_LABELS = Array.from({ length: 12 }, (_, i) => `M${i + 1}`);
+
+const formatReturn = (r: number) => `${r > 0 ? "+" : ""}${r.toFixed(1)}%`;
+
+const returnColor = (r: number) =>
+  r > 0 ? "text-emerald-400" : r < 0 ? "text-rose-400" : "text-slate-400";
+
+// Runs the current strategy over calendar months instead of a fixed trade
+// count and breaks the result down by month
+const CalendarPanel: React.FC<CalendarPanelProps> = ({ config }) => {
+  const [months, setMonths] = useState(24);
+  const [tradesPerWeek, setTradesPerWeek] = useState(
+    config.timeModel?.tradesPerWeek ?? 10
+  );
+  const [pathChoice, setPathChoice] = useState<PathChoice>("MEDIAN");
+  const [runNumber, setRunNumber] = useState(1);
+
+  const calendarJob = useComputeJob("calendar");
+  const result = calendarJob.result;
+
+  const runCalendar = () =>
+    calendarJob.run({ config, calendar: { months, tradesPerWeek } });
+
+  const selectedRun = result
+    ? pathChoice === "MEDIAN"
+      ? result.medianRun
+      : pathChoice === "BEST"
+      ? result.bestRun
+      : pathChoice === "WORST"
+      ? result.worstRun
+      : Math.min(
+          Math.max(1, Math.round(runNumber)),
+          result.monthlyReturns.length
+        ) - 1
+    : 0;
+
+  // The selected run's months laid out as years of twelve
+  const years: number[][] = [];
+  result?.monthlyReturns[selectedRun].forEach((r, m) => {
+    if (m % 12 === 0) years.push([]);
+    years[years.length - 1].push(r);
+  });
+
+  const stats = result
+    ? [
+        {
+          label: "Losing Months",
+          value: `${result.losingMonthPercent.toFixed(1)}%`,
+          color: "text-rose-400",
+        },
+        {
+          label: "Losing Quarters",
+          value:
+            result.monthlyReturns[0].length >= 3
+              ? `${result.losingQuarterPercent.toFixed(1)}%`
+              : "—",
+          color: "text-rose-400",
+        },
+        {
+          label: "Median Worst Month",
+          value: formatReturn(result.medianWorstMonthPercent),
+          color: returnColor(result.medianWorstMonthPercent),
+        },
+        {
+          label: "5th Pct. Worst Month",
+          value: formatReturn(result.p5WorstMonthPercent),
+          color: returnColor(result.p5WorstMonthPercent),
+        },
+        {
+          label: "Median Month",
+          value: formatReturn(result.monthlyPercentiles.p50),
+          color: returnColor(result.monthlyPercentiles.p50),
+        },
+        {
+          label: "Trades / Month",
+          value: result.medianTradesPerMonth.toFixed(0),
+          color: "text-slate-100",
+        },
+      ]
+    : [];
+
+  return (
+    <Card title="Calendar Simulation">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Months"
+              type="number"
+              min={1}
+              value={months}
+              onChange={(e) => setMonths(Number(e.target.value))}
+            />
+            <Input
+              label="Trades Per Week"
+              type="number"
+              min={0.1}
+              step="0.5"
+              value={tradesPerWeek}
+              onChange={(e) => setTradesPerWeek(Number(e.target.value))}
+            />
+          </div>
+          <Button onClick={runCalendar} fullWidth>
+            Run Calendar
+          </Button>
+          <ProgressBar
+            progress={calendarJob.progress}
+            isRunning={calendarJob.isRunning}
+            onCancel={calendarJob.cancel}
+          />
+          {calendarJob.error && (
+            <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+              {calendarJob.error}
+            </div>
+          )}
+
+          {result && (
+            <div className="grid grid-cols-2 gap-2">
+              {stats.map((s) => (
+                <div
+                  key={s.label}
+                  className="p-2 bg-dark-900 rounded-lg border border-dark-700"
+                >
+                  <div className="text-slate-400 text-xs uppercase">
+                    {s.label}
+                  </div>
+                  <div className={`text-lg font-bold ${s.color}`}>
+                    {s.value}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-4">
+          <div className="h-[260px]">
+            {result ? (
+              <FanChart data={result.equityBands} xKey="month" />
+            ) : (
+              <div className="text-sm text-slate-500">
+                Run the calendar to see equity by month.
+              </div>
+            )}
+          </div>
+          {result && (
+            <div className="h-[200px]">
+              <Histogram
+                bins={result.monthlyHistogram}
+                formatValue={(v) => `${v.toFixed(1)}%`}
+                color="#8b5cf6"
+                countLabel="Months"
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {result && (
+        <div className="mt-6 space-y-3">
+          <div className="flex flex-wrap items-end gap-4">
+            <span className="text-sm font-medium text-slate-300">
+              Monthly Returns
+            </span>
+            <div className="grid grid-cols-4 gap-2 bg-dark-900 p-1 rounded-lg border border-dark-700">
+              {PATHS.map((p) => (
+                <button
+                  key={p.id}
+                  onClick={() => setPathChoice(p.id)}
+                  className={`px-3 py-1 text-sm font-medium rounded-md transition-all ${
+                    pathChoice === p.id
+                      ? "bg-primary text-white shadow-lg"
+                      : "text-slate-400 hover:text-white"
+                  }`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+            {pathChoice === "RUN" && (
+              <div className="w-28">
+                <Input
+                  label="Run"
+                  type="number"
+                  min={1}
+                  max={result.monthlyReturns.length}
+                  value={runNumber}
+                  onChange={(e) => setRunNumber(Number(e.target.value))}
+                />
+              </div>
+            )}
+            <span className="text-xs text-slate-500">
+              Run #{selectedRun + 1}
+            </span>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-400 border-b border-dark-700">
+                  <th className="text-left py-2 pr-2">Year</th>
+                  {MONTH_LABELS.map((m) => (
+                    <th key={m} className="text-right py-2 px-1">
+                      {m}
+                    </th>
+                  ))}
+                  <th className="text-right py-2 pl-2">Year</th>
+                </tr>
+              </thead>
+              <tbody>
+                {years.map((returns, y) => {
+                  const total =
+                    (returns.reduce((acc, r) => acc * (1 + r / 100), 1) - 1) *
+                    100;
+                  return (
+                    <tr key={y} className="border-b border-dark-700/50">
+                      <td className="py-1.5 pr-2 text-slate-300">{y + 1}</td>
+                      {MONTH_LABELS.map((m, i) => (
+                        <td
+                          key={m}
+                          className={`text-right py-1.5 px-1 ${
+                            i < returns.length
+                              ? returnColor(returns[i])
+                              : "text-slate-600"
+                          }`}
+                        >
+                          {i < returns.length ? formatReturn(returns[i]) : ""}
+                        </td>
+                      ))}
+                      <td
+                        className={`text-right py-1.5 pl-2 font-semibold ${returnColor(
+                          total
+                        )}`}
+                      >
+                        {formatReturn(total)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500 mt-4">
+        * 21 trading days per month; each day's trade count is drawn around
+        trades per week / 5, so busy and quiet months both occur. Uses the
+        current sizing, outcomes, sequence, costs and win-rate uncertainty;
+        circuit breakers and cash flows are not applied. Quarters are
+        consecutive three-month blocks.
+      </p>
+    </Card>
+  );
+};
+
+export default CalendarPanel;
@@ -0,0 +1,166 @@
+import React from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Card } from "../ui/Card";
+import { Histogram } from "../ui/Histogram";
+import { formatMoney } from "../../services/formatting";
+import type { ChallengeEconomicsSummary } from "../../types";
+
+interface ChallengeEconomicsPanelProps {
+  summary: ChallengeEconomicsSummary;
+  hasFundedStage: boolean; // Without one there are no payouts to net
+  className?: string;
+}
+
+const moneyColor = (val: number) =>
+  val >= 0 ? "text-emerald-400" : "text-rose-400";
+
+// Fees, retries and payouts per trader: is the challenge worth buying?
+const ChallengeEconomicsPanel: React.FC<ChallengeEconomicsPanelProps> = ({
+  summary,
+  hasFundedStage,
+  className = "",
+}) => {
+  const maxAttempts = summary.fundedWithinPercent.length;
+  const attemptsData = summary.fundedWithinPercent.map((percent, i) => ({
+    attempts: i + 1,
+    percent,
+  }));
+
+  const stats = [
+    {
+      label: `Funded Within ${maxAttempts} Attempt${
+        maxAttempts === 1 ? "" : "s"
+      }`,
+      value: `${summary.fundedWithinPercent[maxAttempts - 1].toFixed(1)}%`,
+      color: "text-slate-100",
+    },
+    {
+      label: "Avg. Attempts Bought",
+      value: summary.avgAttempts.toFixed(2),
+      color: "text-slate-100",
+    },
+    {
+      label: "Avg. Fees Paid",
+      value: formatMoney(summary.avgSpend),
+      color: "text-rose-400",
+    },
+    {
+      label: "Avg. Payouts",
+      value: hasFundedStage ? formatMoney(summary.avgPayout) : "—",
+      color: "text-emerald-400",
+    },
+    {
+      label: "Avg. Net Result",
+      value: formatMoney(summary.avgNetProfit),
+      color: moneyColor(summary.avgNetProfit),
+    },
+    {
+      label: "Median Net Result",
+      value: formatMoney(summary.netProfitPercentiles.p50),
+      color: moneyColor(summary.netProfitPercentiles.p50),
+    },
+    {
+      label: "Traders in Profit",
+      value: `${summary.profitablePercent.toFixed(1)}%`,
+      color: "text-slate-100",
+    },
+    {
+      label: "5th Pct. Net Result",
+      value: formatMoney(summary.netProfitPercentiles.p5),
+      color: moneyColor(summary.netProfitPercentiles.p5),
+    },
+  ];
+
+  return (
+    <Card title="Challenge Economics" className={className}>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {stats.map((s) => (
+              <div
+                key={s.label}
+                className="p-2 bg-dark-900 rounded-lg border border-dark-700"
+              >
+                <div className="text-slate-400 text-xs uppercase">
+                  {s.label}
+                </div>
+                <div className={`text-lg font-bold ${s.color}`}>{s.value}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            * Each trader buys attempts until one passes or the attempts run
+            out.{" "}
+            {hasFundedStage
+              ? "The net result is the funded stage's payouts minus every fee paid."
+              : "Turn on the funded stage to net payouts against the fees; until then the net result is the cost of getting funded."}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-slate-400 uppercase">
+            Funded Within N Attempts
+          </div>
+          <div className="h-[240px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={attemptsData}>
+                <XAxis
+                  dataKey="attempts"
+                  stroke="#94a3b8"
+                  fontSize={11}
+                  tickLine={false}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  stroke="#94a3b8"
+                  fontSize={11}
+                  tickLine={false}
+                  unit="%"
+                />
+                <Tooltip
+                  cursor={{ fill: "#334155", opacity: 0.2 }}
+                  contentStyle={{
+                    backgroundColor: "#1e293b",
+                    borderColor: "#334155",
+                    color: "#f8fafc",
+                  }}
+                  labelFormatter={(v: number) =>
+                    `Within ${v} attempt${v === 1 ? "" : "s"}`
+                  }
+                  formatter={(value: number) => [
+                    `${value.toFixed(1)}%`,
+                    "Funded",
+                  ]}
+                />
+                <Bar dataKey="percent" fill="#10b981" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-slate-400 uppercase">
+            Net Result per Trader
+          </div>
+          <div className="h-[240px]">
+            <Histogram
+              bins={summary.netProfitHistogram}
+              formatValue={formatMoney}
+              color="#3b82f6"
+              countLabel="Traders"
+            />
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default ChallengeEconomicsPanel;
@@ -1,7 +1,9 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useEffect } from "react";
 import {
   LineChart,
   Line,
+  AreaChart,
+  Area,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,12 +12,13 @@ import {
 } from "recharts";
 import { Card } from "../ui/Card";
 import { Input } from "../ui/Input";
-import type { DataFormat, ParsedTrade } from "../../types";
-import {
-  parseGenericCSV,
-  parseMT4Report,
-  parseCTrader,
-} from "../../services/mathUtils";
+import { PerformanceSettingsEditor } from "../ui/PerformanceSettingsEditor";
+import { PerformanceSummary } from "../ui/PerformanceSummary";
+import type { DataFormat, ParsedTrade, PerformanceSettings } from "../../types";
+import { parseTradeReport } from "../../services/mathUtils";
+import { readDomTables } from "../../services/domTables";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import BootstrapPanel from "./BootstrapPanel";
 
 const DataAnalyzer: React.FC = () => {
   // rawTrades stores just the parsed PnL and Timestamp data, decoupled from starting balance
@@ -23,75 +26,31 @@ const DataAnalyzer: React.FC = () => {
   const [startBalance, setStartBalance] = useState(10000);
   const [dataFormat, setDataFormat] = useState<DataFormat>("GENERIC_CSV");
   const [error, setError] = useState<string | null>(null);
-
-  // Derived state: Calculates equity curve whenever startBalance or rawTrades changes
-  const chartData = useMemo(() => {
-    if (!rawTrades) return null;
-
-    let runningEquity = startBalance;
-    // Remap the raw trades to calculate the new equity curve
-    return rawTrades.map((t, i) => {
-      if (i === 0) return { ...t, equity: startBalance };
-      runningEquity += t.pnl;
-      return { ...t, equity: runningEquity };
+  const [performanceSettings, setPerformanceSettings] =
+    useState<PerformanceSettings>({
+      returnPeriod: "DAILY",
+      riskFreeRatePercent: 4,
     });
-  }, [rawTrades, startBalance]);
-
-  // Derived state: Statistics
-  const stats = useMemo(() => {
-    if (!chartData) return null;
-
-    let wins = 0;
-    let losses = 0;
-    let totalWinAmt = 0;
-    let totalLossAmt = 0;
-    let maxDrawdown = 0;
-    let peakEquity = startBalance;
-    const timestamps: number[] = [];
-
-    chartData.forEach((t) => {
-      if (t.index === 0) return; // skip start point
-      if (t.timestamp) timestamps.push(t.timestamp);
 
-      if (t.pnl > 0) {
-        wins++;
-        totalWinAmt += t.pnl;
-      } else {
-        losses++;
-        totalLossAmt += Math.abs(t.pnl);
-      }
-
-      if (t.equity > peakEquity) peakEquity = t.equity;
-      const dd = ((peakEquity - t.equity) / peakEquity) * 100;
-      if (dd > maxDrawdown) maxDrawdown = dd;
-    });
-
-    const tradeCount = chartData.length - 1;
-    const winRate = tradeCount > 0 ? (wins / tradeCount) * 100 : 0;
-    const avgWin = wins > 0 ? totalWinAmt / wins : 0;
-    const avgLoss = losses > 0 ? totalLossAmt / losses : 0;
-    const rr = avgLoss > 0 ? avgWin / avgLoss : 0;
-    const netProfit = chartData[chartData.length - 1].equity - startBalance;
-
-    // Calculate Trades Per Week
-    let tradesPerWeek = 0;
-    if (timestamps.length > 1) {
-      const minTime = Math.min(...timestamps);
-      const maxTime = Math.max(...timestamps);
-      const durationMs = maxTime - minTime;
-      const weeks = Math.max(durationMs / (1000 * 60 * 60 * 24 * 7), 1 / 7); // Min duration 1 day
-      tradesPerWeek = tradeCount / weeks;
+  // Derived state: equity curve and statistics are recalculated in the compute
+  // worker whenever startBalance, rawTrades or the return settings change
+  const analysisJob = useComputeJob("tradeAnalysis");
+  const { run: runAnalysis } = analysisJob;
+  useEffect(() => {
+    if (rawTrades) {
+      runAnalysis({ trades: rawTrades, startBalance, performanceSettings });
     }
+  }, [rawTrades, startBalance, performanceSettings, runAnalysis]);
 
-    return {
-      totalTrades: tradeCount,
-      winRate,
-      avgRR: rr,
-      maxDrawdown,
-      netProfit,
-      tradesPerWeek,
-    };
-  }, [chartData, startBalance]);
+  // Only the analysis of the loaded file: the previous file's stays hidden
+  // while the new one is processed
+  const analysis =
+    rawTrades && analysisJob.resultArgs?.trades === rawTrades
+      ? analysisJob.result
+      : null;
+  const chartData = analysis?.chartData ?? null;
+  const stats = analysis?.stats ?? null;
+  const underwater = analysis?.underwater ?? null;
 
   const getAcceptAttribute = () => {
     switch (dataFormat) {
@@ -129,35 +88,9 @@ const DataAnalyzer: React.FC = () => {
   const processFile = (text: string) => {
     try {
       setError(null);
-      let parsedTrades: ParsedTrade[] | null = null;
-
       // Note: We pass 0 as startBalance to parsers because we handle equity calculation
       // dynamically in the useMemo hook above. The parser just needs to return PnLs.
-      if (dataFormat === "GENERIC_CSV") {
-        parsedTrades = parseGenericCSV(text, 0);
-        if (!parsedTrades)
-          throw new Error(
-            "Could not find a 'PnL', 'Profit' or 'Net Profit' column."
-          );
-      } else if (dataFormat === "MT4_MT5") {
-        parsedTrades = parseMT4Report(text, 0);
-        if (!parsedTrades)
-          throw new Error(
-            "Could not parse MT4/5 Report. Ensure it is the standard HTML Export."
-          );
-      } else if (dataFormat === "CTRADER") {
-        parsedTrades = parseCTrader(text, 0);
-        if (!parsedTrades)
-          throw new Error(
-            "Could not parse cTrader file. Ensure it contains a 'Net', 'Net $' or 'Net [Currency]' column."
-          );
-      }
-
-      if (!parsedTrades || parsedTrades.length === 0) {
-        throw new Error("No trades found in the file.");
-      }
-
-      setRawTrades(parsedTrades);
+      setRawTrades(parseTradeReport(text, dataFormat, 0, readDomTables));
     } catch (err: any) {
       setError(err.message || "Error parsing file.");
       setRawTrades(null);
@@ -275,11 +208,14 @@ const DataAnalyzer: React.FC = () => {
               />
             </div>
           </div>
-          {error && (
+          {(error ?? analysisJob.error) && (
             <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
-              {error}
+              {error ?? analysisJob.error}
             </div>
           )}
+          {rawTrades && !analysis && analysisJob.isRunning && (
+            <div className="text-sm text-slate-500">Analyzing trades…</div>
+          )}
         </div>
       </Card>
 
@@ -324,6 +260,50 @@ const DataAnalyzer: React.FC = () => {
                 </LineChart>
               </ResponsiveContainer>
             </Card>
+
+            {underwater && (
+              <Card
+                title="Underwater (Drawdown From Peak)"
+                className="h-[240px] mt-6"
+              >
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={underwater}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                    <XAxis
+                      dataKey="index"
+                      stroke="#94a3b8"
+                      fontSize={12}
+                      tickLine={false}
+                    />
+                    <YAxis
+                      stroke="#94a3b8"
+                      fontSize={12}
+                      tickLine={false}
+                      tickFormatter={(v) => `${v}%`}
+                    />
+                    <Tooltip
+                      contentStyle={{
+                        backgroundColor: "#1e293b",
+                        borderColor: "#334155",
+                        color: "#f8fafc",
+                      }}
+                      formatter={(value: number) => [
+                        `${value.toFixed(2)}%`,
+                        "Drawdown",
+                      ]}
+                    />
+                    <Area
+                      type="stepAfter"
+                      dataKey="drawdownPercent"
+                      stroke="#ef4444"
+                      fill="#ef4444"
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </Card>
+            )}
           </div>
 
           <div className="space-y-4">
@@ -365,6 +345,34 @@ const DataAnalyzer: React.FC = () => {
                     {stats.maxDrawdown.toFixed(2)}%
                   </span>
                 </div>
+                <div className="flex justify-between border-b border-dark-700 pb-2">
+                  <span className="text-slate-400">Longest Under Water</span>
+                  <span className="font-mono text-amber-400">
+                    {stats.longestDrawdownTrades} trades
+                    {stats.longestDrawdownDays !== null &&
+                      ` / ${stats.longestDrawdownDays.toFixed(0)} days`}
+                  </span>
+                </div>
+                <div className="flex justify-between border-b border-dark-700 pb-2">
+                  <span className="text-slate-400">Avg. Drawdown Length</span>
+                  <span className="font-mono text-slate-200">
+                    {stats.avgDrawdownTrades.toFixed(1)} trades
+                  </span>
+                </div>
+                <div className="flex justify-between border-b border-dark-700 pb-2">
+                  <span className="text-slate-400">Worst DD Recovery</span>
+                  <span className="font-mono text-slate-200">
+                    {stats.worstDrawdownRecoveryTrades === null
+                      ? "Not yet"
+                      : `${stats.worstDrawdownRecoveryTrades} trades`}
+                  </span>
+                </div>
+                <div className="flex justify-between border-b border-dark-700 pb-2">
+                  <span className="text-slate-400">Ulcer Index</span>
+                  <span className="font-mono text-slate-200">
+                    {stats.ulcerIndex.toFixed(2)}
+                  </span>
+                </div>
                 <div className="flex justify-between pt-2">
                   <span className="text-slate-400">Net Profit</span>
                   <span
@@ -382,6 +390,33 @@ const DataAnalyzer: React.FC = () => {
           </div>
         </div>
       )}
+
+      {stats && (
+        <Card title="Annualized Performance">
+          <div className="space-y-4">
+            <PerformanceSettingsEditor
+              settings={performanceSettings}
+              onChange={setPerformanceSettings}
+            />
+            {stats.performance ? (
+              <PerformanceSummary stats={stats.performance} />
+            ) : (
+              <div className="text-sm text-slate-500">
+                Annualized metrics need trade timestamps, which this file
+                doesn't include.
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {rawTrades && stats && (
+        <BootstrapPanel
+          trades={rawTrades}
+          startBalance={startBalance}
+          tradesPerWeek={stats.tradesPerWeek}
+        />
+      )}
     </div>
   );
 };
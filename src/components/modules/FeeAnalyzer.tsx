@@ -1,7 +1,9 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useEffect } from "react";
 import {
   AreaChart,
   Area,
+  LineChart,
+  Line,
   XAxis,
   YAxis,
   CartesianGrid,
@@ -10,8 +12,14 @@ import {
 } from "recharts";
 import { Card } from "../ui/Card";
 import { Input } from "../ui/Input";
+import { ScenarioComparison } from "../ui/ScenarioComparison";
+import type { ScenarioParameter } from "../ui/ScenarioComparison";
+import type { TableColumn } from "../ui/SortableTable";
 import type { FeeConfig } from "../../types";
-import { calculateFeeImpact } from "../../services/mathUtils";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import type { ComputeJobResult } from "../../services/computeJobs";
+import { useScenarios } from "../../hooks/useScenarios";
+import { SCENARIO_COLORS, overlaySeries } from "../../services/scenarios";
 
 const ASSET_PRESETS: Record<string, Partial<FeeConfig> & { label: string }> = {
   EURUSD: {
@@ -58,6 +66,63 @@ const ASSET_PRESETS: Record<string, Partial<FeeConfig> & { label: string }> = {
   },
 };
 
+type FeeResult = ComputeJobResult<"fees">;
+
+const formatDollars = (v: number) => `$${v.toFixed(2)}`;
+const finalRow = (r: FeeResult) => r.data[r.data.length - 1];
+
+const SCENARIO_PARAMETERS: ScenarioParameter<FeeConfig>[] = [
+  { key: "assetType", label: "Asset Type", value: (c) => c.assetType },
+  { key: "lotSize", label: "Lots / Contracts", value: (c) => c.lotSize },
+  { key: "pointValue", label: "Point Value", value: (c) => `$${c.pointValue}` },
+  {
+    key: "commissionPerUnit",
+    label: "Commission",
+    value: (c) => `$${c.commissionPerUnit}`,
+  },
+  { key: "spread", label: "Spread", value: (c) => c.spread },
+  { key: "winRate", label: "Win Rate", value: (c) => `${c.winRate}%` },
+  { key: "riskPerTrade", label: "Risk", value: (c) => `$${c.riskPerTrade}` },
+  { key: "rewardRisk", label: "Reward", value: (c) => `${c.rewardRisk}R` },
+  { key: "trades", label: "Trades", value: (c) => c.trades },
+];
+
+const SCENARIO_OUTPUTS: TableColumn<FeeResult>[] = [
+  {
+    key: "costPerTrade",
+    label: "Cost Per Trade",
+    value: (r) => r.totalCostPerTrade,
+    format: formatDollars,
+  },
+  {
+    key: "gross",
+    label: "Gross Profit",
+    value: (r) => finalRow(r).Gross,
+    format: formatDollars,
+  },
+  {
+    key: "fees",
+    label: "Total Fees",
+    value: (r) => finalRow(r).Fees,
+    format: formatDollars,
+  },
+  {
+    key: "net",
+    label: "Net Profit",
+    value: (r) => finalRow(r).Net,
+    format: formatDollars,
+  },
+  {
+    key: "feeShare",
+    label: "Fees / Gross",
+    value: (r) =>
+      finalRow(r).Gross > 0
+        ? (finalRow(r).Fees / finalRow(r).Gross) * 100
+        : NaN,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+];
+
 const FeeAnalyzer: React.FC = () => {
   const [config, setConfig] = useState<FeeConfig>({
     assetType: "FOREX",
@@ -88,11 +153,19 @@ const FeeAnalyzer: React.FC = () => {
     }
   };
 
-  const { data, totalCostPerTrade } = useMemo(
-    () => calculateFeeImpact(config),
-    [config]
+  const feeJob = useComputeJob("fees");
+  const { run: runFeeJob } = feeJob;
+  useEffect(() => runFeeJob(config), [config, runFeeJob]);
+
+  const data = feeJob.result?.data ?? [];
+  const totalCostPerTrade = feeJob.result?.totalCostPerTrade ?? 0;
+  const totalStats = data.length > 0 ? data[data.length - 1] : null;
+
+  const scenarios = useScenarios<FeeConfig, FeeResult>();
+  const pinned = scenarios.scenarios;
+  const overlayData = overlaySeries(
+    pinned.map((sc) => sc.result.data.map((d) => d.Net))
   );
-  const totalStats = data[data.length - 1];
 
   const handleInput = (key: keyof FeeConfig, val: string) => {
     setConfig({ ...config, [key]: Number(val) });
@@ -189,6 +262,11 @@ const FeeAnalyzer: React.FC = () => {
       </Card>
 
       <div className="lg:col-span-2 space-y-6">
+        {feeJob.error && (
+          <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+            {feeJob.error}
+          </div>
+        )}
         <Card title="The Real Cost of Trading">
           <div className="h-[350px] w-full">
             <ResponsiveContainer width="100%" height="100%">
@@ -249,32 +327,92 @@ const FeeAnalyzer: React.FC = () => {
           </div>
         </Card>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-          <div className="p-4 bg-dark-800 rounded-xl border border-dark-700">
-            <div className="text-xs text-slate-400 uppercase">Gross Profit</div>
-            <div className="text-xl font-bold text-blue-400">
-              ${totalStats.Gross.toFixed(2)}
-            </div>
-            <div className="text-xs text-slate-500">Theoretical Edge</div>
-          </div>
-          <div className="p-4 bg-dark-800 rounded-xl border border-dark-700">
-            <div className="text-xs text-slate-400 uppercase">
-              Total Fees Paid
+        {totalStats && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="p-4 bg-dark-800 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">
+                Gross Profit
+              </div>
+              <div className="text-xl font-bold text-blue-400">
+                ${totalStats.Gross.toFixed(2)}
+              </div>
+              <div className="text-xs text-slate-500">Theoretical Edge</div>
             </div>
-            <div className="text-xl font-bold text-rose-500">
-              ${totalStats.Fees.toFixed(2)}
+            <div className="p-4 bg-dark-800 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">
+                Total Fees Paid
+              </div>
+              <div className="text-xl font-bold text-rose-500">
+                ${totalStats.Fees.toFixed(2)}
+              </div>
+              <div className="text-xs text-slate-500">Commissions + Spread</div>
             </div>
-            <div className="text-xs text-slate-500">Commissions + Spread</div>
-          </div>
-          <div className="p-4 bg-dark-800 rounded-xl border border-dark-700">
-            <div className="text-xs text-slate-400 uppercase">Net Profit</div>
-            <div className="text-xl font-bold text-emerald-400">
-              ${totalStats.Net.toFixed(2)}
+            <div className="p-4 bg-dark-800 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">Net Profit</div>
+              <div className="text-xl font-bold text-emerald-400">
+                ${totalStats.Net.toFixed(2)}
+              </div>
+              <div className="text-xs text-slate-500">Actual Bank</div>
             </div>
-            <div className="text-xs text-slate-500">Actual Bank</div>
           </div>
-        </div>
+        )}
       </div>
+
+      <ScenarioComparison
+        className="lg:col-span-3"
+        scenarios={pinned}
+        parameters={SCENARIO_PARAMETERS}
+        outputs={SCENARIO_OUTPUTS}
+        canPin={feeJob.result !== null && feeJob.resultArgs !== null}
+        onPin={(name) =>
+          scenarios.pin(name, feeJob.resultArgs!, feeJob.result!)
+        }
+        onRemove={scenarios.remove}
+        onLoad={(c) => {
+          setSelectedPreset("custom");
+          setConfig(c);
+        }}
+      >
+        <div className="h-[250px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={overlayData}>
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="#334155"
+                vertical={false}
+              />
+              <XAxis
+                dataKey="index"
+                stroke="#94a3b8"
+                fontSize={12}
+                tickLine={false}
+              />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "#1e293b",
+                  borderColor: "#334155",
+                  color: "#f8fafc",
+                }}
+                labelFormatter={(v) => `Trade ${v}`}
+                formatter={(value: number) => [`$${value.toFixed(2)}`]}
+              />
+              {pinned.map((sc, i) => (
+                <Line
+                  key={sc.id}
+                  type="monotone"
+                  dataKey={`s${i}`}
+                  name={`${sc.name} (Net)`}
+                  stroke={SCENARIO_COLORS[i]}
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </ScenarioComparison>
     </div>
   );
 };
@@ -0,0 +1,166 @@
+import React from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Card } from "../ui/Card";
+import { Histogram } from "../ui/Histogram";
+import { formatMoney } from "../../services/formatting";
+import type { FundedConfig, FundedSummary } from "../../types";
+
+interface FundedStagePanelProps {
+  summary: FundedSummary;
+  funded: FundedConfig;
+  passRate: number; // % of attempts that reach the funded stage
+  className?: string;
+}
+
+// What the passed attempts went on to earn on the funded account
+const FundedStagePanel: React.FC<FundedStagePanelProps> = ({
+  summary,
+  funded,
+  passRate,
+  className = "",
+}) => {
+  const stats = [
+    {
+      label: "Avg. Payouts",
+      value: summary.avgPayouts.toFixed(1),
+      color: "text-slate-100",
+    },
+    {
+      label: "Avg. Total Payout",
+      value: formatMoney(summary.avgTotalPayout),
+      color: "text-emerald-400",
+    },
+    {
+      label: "Per Attempt",
+      value: formatMoney((summary.avgTotalPayout * passRate) / 100),
+      color: "text-emerald-400",
+    },
+    {
+      label: "Median Total Payout",
+      value: formatMoney(summary.payoutPercentiles.p50),
+      color: "text-slate-100",
+    },
+    {
+      label: "Never Paid",
+      value: `${summary.noPayoutPercent.toFixed(1)}%`,
+      color: "text-rose-400",
+    },
+    {
+      label: "Lost Within Horizon",
+      value: `${summary.blownPercent.toFixed(1)}%`,
+      color: "text-rose-400",
+    },
+    {
+      label: "Median Time Funded",
+      value:
+        summary.medianDaysFunded !== null
+          ? `${Math.round(summary.medianDaysFunded)} days`
+          : `> ${funded.horizonDays} days`,
+      color: "text-slate-100",
+    },
+    {
+      label: "Avg. Final Account",
+      value: formatMoney(summary.avgFinalAccountSize),
+      color: "text-slate-100",
+    },
+  ];
+
+  return (
+    <Card title="Funded Stage" className={className}>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            {stats.map((s) => (
+              <div
+                key={s.label}
+                className="p-2 bg-dark-900 rounded-lg border border-dark-700"
+              >
+                <div className="text-slate-400 text-xs uppercase">
+                  {s.label}
+                </div>
+                <div className={`text-lg font-bold ${s.color}`}>{s.value}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500">
+            * Over the {summary.accounts.toLocaleString()} attempts that passed,
+            each followed for {funded.horizonDays} days. Payouts are the
+            trader's {funded.profitSplitPercent}% split
+            {funded.isFeeRefunded && ", with the fee refund"}. Per attempt
+            weighs the average by the pass rate.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-slate-400 uppercase">
+            Total Payout per Funded Account
+          </div>
+          <div className="h-[240px]">
+            <Histogram
+              bins={summary.payoutHistogram}
+              formatValue={formatMoney}
+              color="#10b981"
+              countLabel="Accounts"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="text-xs text-slate-400 uppercase">
+            Accounts Still Funded
+          </div>
+          <div className="h-[240px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={summary.survival}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  dataKey="day"
+                  stroke="#94a3b8"
+                  fontSize={11}
+                  tickLine={false}
+                  tickFormatter={(v: number) => `${Math.round(v)}d`}
+                />
+                <YAxis
+                  domain={[0, 100]}
+                  stroke="#94a3b8"
+                  fontSize={11}
+                  tickLine={false}
+                  unit="%"
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "#1e293b",
+                    borderColor: "#334155",
+                    color: "#f8fafc",
+                  }}
+                  labelFormatter={(v: number) => `Day ${Math.round(v)}`}
+                  formatter={(value: number) => [
+                    `${value.toFixed(1)}%`,
+                    "Still funded",
+                  ]}
+                />
+                <Area
+                  type="stepAfter"
+                  dataKey="survivingPercent"
+                  stroke="#3b82f6"
+                  fill="#3b82f6"
+                  fillOpacity={0.2}
+                />
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default FundedStagePanel;
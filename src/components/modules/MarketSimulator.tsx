@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   LineChart,
   Line,
@@ -11,48 +11,397 @@ import {
 import { Card } from "../ui/Card";
 import { Button } from "../ui/Button";
 import { Input } from "../ui/Input";
+import { SimulationCountInput } from "../ui/SimulationCountInput";
 import { Slider } from "../ui/Slider";
-import { runMarketSimulations } from "../../services/mathUtils";
+import { SeedInput } from "../ui/SeedInput";
+import { OutcomeTableEditor } from "../ui/OutcomeTableEditor";
+import { SequenceModelEditor } from "../ui/SequenceModelEditor";
+import { CostModelEditor } from "../ui/CostModelEditor";
+import { CircuitBreakerEditor } from "../ui/CircuitBreakerEditor";
+import { CashFlowEditor } from "../ui/CashFlowEditor";
+import { PerformanceSettingsEditor } from "../ui/PerformanceSettingsEditor";
+import { PerformanceSummary } from "../ui/PerformanceSummary";
+import { WinRateUncertaintyEditor } from "../ui/WinRateUncertaintyEditor";
+import { ProgressBar } from "../ui/ProgressBar";
+import { FanChart } from "../ui/FanChart";
+import { Histogram } from "../ui/Histogram";
+import { SortableTable } from "../ui/SortableTable";
+import type { TableColumn } from "../ui/SortableTable";
+import { ScenarioComparison } from "../ui/ScenarioComparison";
+import type { ScenarioParameter } from "../ui/ScenarioComparison";
+import RiskOptimizerPanel from "./RiskOptimizerPanel";
+import CalendarPanel from "./CalendarPanel";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import { useScenarios } from "../../hooks/useScenarios";
+import { useWinRateUncertainty } from "../../hooks/useWinRateUncertainty";
+import { DEFAULT_WIN_RATE_UNCERTAINTY } from "../../services/uncertainty";
+import { randomSeed } from "../../services/random";
+import {
+  SIZING_MODEL_LABELS,
+  DEFAULT_SIZING_MODELS,
+} from "../../services/sizing";
+import {
+  resolveOutcomes,
+  describeOutcomes,
+  kellyPercent,
+} from "../../services/outcomes";
+import { withIndependentTrades } from "../../services/sequence";
+import { costInR } from "../../services/costs";
+import {
+  SCENARIO_COLORS,
+  describeOutcomeTable,
+  describeSequence,
+  describeUncertainty,
+  overlaySeries,
+} from "../../services/scenarios";
+import { formatMoney } from "../../services/formatting";
 import type {
   SimulationConfig,
-  EquityPoint,
   SimulationStats,
+  SimulationSummary,
+  SizingModel,
+  SizingModelType,
 } from "../../types";
 
+type RunRow = SimulationStats & { run: number };
+
+const RUN_COLUMNS: TableColumn<RunRow>[] = [
+  { key: "run", label: "Run", value: (r) => r.run + 1 },
+  {
+    key: "finalBalance",
+    label: "Final Balance",
+    value: (r) => r.finalBalance,
+    format: formatMoney,
+  },
+  {
+    key: "returnPercent",
+    label: "Return",
+    value: (r) => r.returnPercent,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "maxDrawdownPercent",
+    label: "Max DD",
+    value: (r) => r.maxDrawdownPercent,
+    format: (v) => `${v.toFixed(2)}%`,
+  },
+  {
+    key: "profitFactor",
+    label: "PF",
+    value: (r) => r.profitFactor,
+    format: (v) => v.toFixed(2),
+  },
+  {
+    key: "longestDrawdownTrades",
+    label: "Longest DD",
+    value: (r) => r.longestDrawdownTrades,
+    format: (v) => `${v} tr`,
+  },
+  {
+    key: "longestDrawdownDays",
+    label: "Longest DD Days",
+    // Needs a time model; sorts after every run that has one
+    value: (r) => r.longestDrawdownDays ?? Infinity,
+    format: (v) => (Number.isFinite(v) ? `${v.toFixed(0)} d` : "—"),
+  },
+  {
+    key: "worstDrawdownRecoveryTrades",
+    label: "Recovery",
+    // Unrecovered runs sort after every recovered one
+    value: (r) => r.worstDrawdownRecoveryTrades ?? Infinity,
+    format: (v) => (Number.isFinite(v) ? `${v} tr` : "—"),
+  },
+  {
+    key: "ulcerIndex",
+    label: "Ulcer",
+    value: (r) => r.ulcerIndex,
+    format: (v) => v.toFixed(2),
+  },
+  { key: "tradesTaken", label: "Trades", value: (r) => r.tradesTaken },
+  { key: "maxWinStreak", label: "Win Streak", value: (r) => r.maxWinStreak },
+  { key: "maxLossStreak", label: "Loss Streak", value: (r) => r.maxLossStreak },
+];
+
+// Editable parameters of each sizing model (FIXED_FRACTIONAL has none)
+const SIZING_FIELDS: Record<
+  SizingModelType,
+  { key: string; label: string; suffix?: string; step?: string }[]
+> = {
+  FIXED_FRACTIONAL: [],
+  FIXED_DOLLAR: [{ key: "riskAmount", label: "Risk Amount", suffix: "$" }],
+  KELLY: [
+    {
+      key: "kellyFraction",
+      label: "Kelly Fraction",
+      suffix: "x",
+      step: "0.05",
+    },
+  ],
+  ANTI_MARTINGALE: [
+    { key: "stepUpPercent", label: "Raise Per Win", suffix: "%" },
+    { key: "maxSteps", label: "Max Steps" },
+  ],
+  DRAWDOWN_SCALED: [
+    { key: "cutPercent", label: "Cut Risk By", suffix: "%" },
+    { key: "perDrawdownPercent", label: "Per Drawdown Of", suffix: "%" },
+  ],
+  EQUITY_MILESTONE: [
+    { key: "stepUpPercent", label: "Raise Risk By", suffix: "%" },
+    { key: "milestonePercent", label: "Per New High Of", suffix: "%" },
+    { key: "maxRiskPercent", label: "Risk Ceiling", suffix: "%" },
+  ],
+};
+
+// What a pinned scenario keeps: the full runs are too large to hold on to
+interface MarketScenarioResult {
+  summary: SimulationSummary;
+  medianEquity: number[];
+}
+
+const SCENARIO_PARAMETERS: ScenarioParameter<SimulationConfig>[] = [
+  {
+    key: "initialCapital",
+    label: "Capital",
+    value: (c) => formatMoney(c.initialCapital),
+  },
+  { key: "winRate", label: "Win Rate", value: (c) => `${c.winRatePercent}%` },
+  { key: "rewardToRisk", label: "R:R", value: (c) => c.rewardToRiskRatio },
+  {
+    key: "riskPerTrade",
+    label: "Risk Per Trade",
+    value: (c) => `${c.riskPerTradePercent}%`,
+  },
+  { key: "numberOfTrades", label: "Trades", value: (c) => c.numberOfTrades },
+  {
+    key: "simulationCount",
+    label: "Simulations",
+    value: (c) => c.simulationCount,
+  },
+  {
+    key: "sizing",
+    label: "Sizing",
+    value: (c) => SIZING_MODEL_LABELS[c.sizing?.type ?? "FIXED_FRACTIONAL"],
+  },
+  {
+    key: "outcomes",
+    label: "Outcomes",
+    value: (c) => describeOutcomeTable(c.outcomes),
+  },
+  {
+    key: "sequence",
+    label: "Sequence",
+    value: (c) => describeSequence(c.sequence),
+  },
+  {
+    key: "winRateUncertainty",
+    label: "Win Rate Uncertainty",
+    value: (c) =>
+      describeUncertainty(c.winRateUncertainty ?? DEFAULT_WIN_RATE_UNCERTAINTY),
+  },
+  {
+    key: "costs",
+    label: "Costs",
+    value: (c) =>
+      c.costs
+        ? `$${c.costs.commissionPerTrade} + ${c.costs.slippageR}R + ${c.costs.riskFractionPercent}%`
+        : "None",
+  },
+  {
+    key: "circuitBreakers",
+    label: "Circuit Breakers",
+    value: ({ circuitBreakers: b }) =>
+      b
+        ? `${b.tradesPerDay}/day, ${b.dailyLossLimitPercent}% daily, pause ${
+            b.pauseAfterLosses
+          }×${b.pauseDays}d, stop ${b.equityStopPercent}%${
+            b.stopAfterFirstWin ? ", 1st win" : ""
+          }`
+        : "Off",
+  },
+  {
+    key: "cashFlows",
+    label: "Cash Flows",
+    value: ({ cashFlows: f }) =>
+      f
+        ? `every ${f.everyTrades}: +$${f.depositAmount} / −$${f.withdrawalAmount} / ${f.withdrawProfitPercent}% profit`
+        : "None",
+  },
+  {
+    key: "tradesPerWeek",
+    label: "Trades / Week",
+    value: (c) => c.timeModel?.tradesPerWeek ?? "—",
+  },
+  { key: "seed", label: "Seed", value: (c) => c.seed },
+];
+
+const SCENARIO_OUTPUTS: TableColumn<MarketScenarioResult>[] = [
+  {
+    key: "medianFinalBalance",
+    label: "Median Final Balance",
+    value: (r) => r.summary.medianFinalBalance,
+    format: formatMoney,
+  },
+  {
+    key: "medianReturn",
+    label: "Median Return",
+    value: (r) => r.summary.medianReturnPercent,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "p5Return",
+    label: "5th Pct. Return",
+    value: (r) => r.summary.p5ReturnPercent,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "medianMaxDrawdown",
+    label: "Median Max DD",
+    value: (r) => r.summary.medianMaxDrawdownPercent,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "p95MaxDrawdown",
+    label: "95th Pct. Max DD",
+    value: (r) => r.summary.p95MaxDrawdownPercent,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "ruin",
+    label: "Risk of Ruin",
+    value: (r) => r.summary.ruinProbability,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "profitFactor",
+    label: "Median PF",
+    value: (r) => r.summary.medianProfitFactor,
+  },
+  {
+    key: "longestDrawdown",
+    label: "Median Longest DD",
+    value: (r) => r.summary.medianLongestDrawdownTrades,
+    format: (v) => `${v.toFixed(0)} tr`,
+  },
+  {
+    key: "longestDrawdownDays",
+    label: "Median Longest DD Days",
+    value: (r) => r.summary.medianLongestDrawdownDays ?? NaN,
+    format: (v) => `${v.toFixed(0)} d`,
+  },
+  {
+    key: "withdrawn",
+    label: "Median Withdrawn",
+    value: (r) => r.summary.medianCashFlows?.withdrawn ?? NaN,
+    format: formatMoney,
+  },
+  {
+    key: "cagr",
+    label: "Median CAGR",
+    value: (r) => r.summary.medianPerformance?.cagrPercent ?? NaN,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "sharpe",
+    label: "Median Sharpe",
+    value: (r) => r.summary.medianPerformance?.sharpe ?? NaN,
+  },
+];
+
 const MarketSimulator: React.FC = () => {
-  const [config, setConfig] = useState<SimulationConfig>({
+  const [ownConfig, setConfig] = useState<SimulationConfig>({
     initialCapital: 100000,
     riskPerTradePercent: 1,
     winRatePercent: 50,
     rewardToRiskRatio: 2,
     numberOfTrades: 100,
-    simulationCount: 10,
+    simulationCount: 500,
+    seed: randomSeed(),
+    timeModel: {
+      tradesPerWeek: 10,
+      returnPeriod: "DAILY",
+      riskFreeRatePercent: 4,
+    },
   });
+  const { config, uncertainty, setUncertainty, loadConfig } =
+    useWinRateUncertainty(ownConfig, setConfig);
 
-  const [isNetStats, setIsNetStats] = useState(false);
-  const [data, setData] = useState<EquityPoint[]>([]);
-  const [stats, setStats] = useState<SimulationStats | null>(null);
+  const simJob = useComputeJob("market");
 
+  const summary = simJob.result?.summary ?? null;
+  const grossSummary = simJob.result?.grossSummary ?? null;
+
+  // Percentile bands plus the best / median / worst sample paths
+  const fanData = useMemo(() => {
+    if (!simJob.result || !summary) return [];
+    const { bands, chartData, grossBands } = simJob.result;
+    return bands.map((band, t) => ({
+      ...band,
+      grossP5: grossBands?.[t].p5,
+      grossP50: grossBands?.[t].p50,
+      grossP95: grossBands?.[t].p95,
+      best: chartData[t][`sim_${summary.bestRun}`],
+      median: chartData[t][`sim_${summary.medianRun}`],
+      worst: chartData[t][`sim_${summary.worstRun}`],
+    }));
+  }, [simJob.result, summary]);
+
+  const runRows = useMemo(
+    () => simJob.result?.stats.map((s, run) => ({ ...s, run })) ?? [],
+    [simJob.result]
+  );
+
+  const scenarios = useScenarios<SimulationConfig, MarketScenarioResult>();
+  const pinned = scenarios.scenarios;
+  const pinScenario = (name: string) => {
+    if (!simJob.result || !simJob.resultArgs) return;
+    scenarios.pin(name, simJob.resultArgs, {
+      summary: simJob.result.summary,
+      medianEquity: simJob.result.bands.map((b) => b.p50),
+    });
+  };
+  const scenarioData = useMemo(
+    () => overlaySeries(pinned.map((sc) => sc.result.medianEquity)),
+    [pinned]
+  );
+
+  // With a sequence model, also run independent trades on the same seed so the
+  // effect of clustered wins and losses can be isolated
+  const baselineJob = useComputeJob("market");
+  // With cash flows, also run without them to show what they do to ruin
+  const noCashFlowJob = useComputeJob("market");
   const runSim = () => {
-    const { chartData, stats: allStats } = runMarketSimulations(config);
-    setData(chartData);
-
-    const avgStats: SimulationStats = {
-      finalBalance:
-        allStats.reduce((acc, s) => acc + s.finalBalance, 0) / allStats.length,
-      returnPercent:
-        allStats.reduce((acc, s) => acc + s.returnPercent, 0) / allStats.length,
-      maxDrawdownPercent:
-        allStats.reduce((acc, s) => acc + s.maxDrawdownPercent, 0) /
-        allStats.length,
-      profitFactor:
-        allStats.reduce((acc, s) => acc + s.profitFactor, 0) / allStats.length,
-      maxWinStreak: Math.max(...allStats.map((s) => s.maxWinStreak)),
-      maxLossStreak: Math.max(...allStats.map((s) => s.maxLossStreak)),
-    };
-    setStats(avgStats);
+    simJob.run(config);
+    if (config.sequence) baselineJob.run(withIndependentTrades(config));
+    if (config.cashFlows)
+      noCashFlowJob.run({ ...config, cashFlows: undefined });
+  };
+  const runError = simJob.error ?? baselineJob.error ?? noCashFlowJob.error;
+  const clustered = config.sequence ? summary : null;
+  const independent = config.sequence
+    ? baselineJob.result?.summary ?? null
+    : null;
+
+  // Last-edited parameters of every model, so switching back and forth and
+  // the side-by-side comparison keep the user's values
+  const [sizingModels, setSizingModels] = useState(DEFAULT_SIZING_MODELS);
+  const sizing = config.sizing ?? DEFAULT_SIZING_MODELS.FIXED_FRACTIONAL;
+  const comparisonJob = useComputeJob("sizingComparison");
+
+  const selectSizingModel = (type: SizingModelType) => {
+    setConfig({ ...config, sizing: sizingModels[type] });
+  };
+
+  const updateSizingParam = (key: string, val: string) => {
+    const model = { ...sizing, [key]: Number(val) } as SizingModel;
+    setSizingModels({ ...sizingModels, [model.type]: model });
+    setConfig({ ...config, sizing: model });
   };
 
+  const compareSizing = () =>
+    comparisonJob.run({ config, models: Object.values(sizingModels) });
+
+  const breakerJob = useComputeJob("circuitBreakerComparison");
+
   useEffect(() => {
     const timer = setTimeout(() => runSim(), 500);
     return () => clearTimeout(timer);
@@ -72,13 +421,24 @@ const MarketSimulator: React.FC = () => {
     setConfig({ ...config, [key]: Number(val) });
   };
 
-  const getExpectancyAnalysis = () => {
-    const winRate = config.winRatePercent / 100;
-    const lossRate = 1 - winRate;
-    const rr = config.rewardToRiskRatio;
+  // Long-run outcome table (a sequence model shifts the average win rate)
+  const longRunConfig = withIndependentTrades(config);
+  const tradeOutcomes = resolveOutcomes(
+    longRunConfig.winRatePercent,
+    longRunConfig.rewardToRiskRatio,
+    longRunConfig.outcomes
+  );
 
-    // Base Expectancy Formula
-    const expectancy = winRate * rr - lossRate * 1;
+  // Costs in R at the starting position size
+  const startingRiskAmount =
+    (config.initialCapital * config.riskPerTradePercent) / 100;
+  const costR = config.costs ? costInR(config.costs, startingRiskAmount) : 0;
+  const isNetStats = config.costs !== undefined;
+
+  const getExpectancyAnalysis = () => {
+    // Base Expectancy Formula: sum of probability x R over all outcomes,
+    // minus the per-trade costs when a cost model is set
+    const expectancy = describeOutcomes(tradeOutcomes).expectancy - costR;
 
     // Thresholds change based on if stats are Net (Adjusted) or Gross
     // If Net: Lower the bar slightly because fees are already paid.
@@ -181,32 +541,139 @@ const MarketSimulator: React.FC = () => {
                 value={config.numberOfTrades}
                 onChange={(e) => handleInput("numberOfTrades", e.target.value)}
               />
+              <SimulationCountInput
+                count={config.simulationCount}
+                onCountChange={(simulationCount) =>
+                  setConfig({ ...config, simulationCount })
+                }
+              />
+              {config.timeModel && (
+                <Input
+                  label="Trades Per Week"
+                  type="number"
+                  min={0.1}
+                  step="0.5"
+                  value={config.timeModel.tradesPerWeek}
+                  onChange={(e) =>
+                    setConfig({
+                      ...config,
+                      timeModel: {
+                        ...config.timeModel!,
+                        tradesPerWeek: Math.max(0, Number(e.target.value)),
+                      },
+                    })
+                  }
+                />
+              )}
             </div>
 
-            {/* Checkbox for Fees Adjustment */}
-            <div className="flex items-center gap-2 pt-1">
-              <input
-                type="checkbox"
-                id="netStats"
-                checked={isNetStats}
-                onChange={(e) => setIsNetStats(e.target.checked)}
-                className="w-4 h-4 rounded border-slate-600 bg-dark-900 text-blue-500 focus:ring-blue-500/20"
-              />
-              <label
-                htmlFor="netStats"
-                className="text-sm text-slate-400 cursor-pointer select-none"
-              >
-                Adjusted for Fees & Slippage
+            <SequenceModelEditor
+              sequence={config.sequence}
+              onChange={(sequence) => setConfig({ ...config, sequence })}
+            />
+
+            <OutcomeTableEditor
+              outcomes={config.outcomes}
+              onChange={(outcomes) => setConfig({ ...config, outcomes })}
+            />
+
+            <WinRateUncertaintyEditor
+              uncertainty={uncertainty}
+              onChange={setUncertainty}
+              winRatePercent={describeOutcomes(tradeOutcomes).winRate}
+            />
+
+            <SeedInput
+              seed={config.seed}
+              onSeedChange={(seed) => setConfig({ ...config, seed })}
+            />
+
+            <div className="space-y-3 border-t border-dark-700 pt-4">
+              <label className="text-xs font-medium text-slate-400 uppercase">
+                Position Sizing
               </label>
+              <select
+                className="w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-slate-100"
+                value={sizing.type}
+                onChange={(e) =>
+                  selectSizingModel(e.target.value as SizingModelType)
+                }
+              >
+                {Object.entries(SIZING_MODEL_LABELS).map(([type, label]) => (
+                  <option key={type} value={type}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              {SIZING_FIELDS[sizing.type].length > 0 && (
+                <div className="grid grid-cols-2 gap-4">
+                  {SIZING_FIELDS[sizing.type].map((field) => (
+                    <Input
+                      key={field.key}
+                      label={field.label}
+                      type="number"
+                      step={field.step}
+                      suffix={field.suffix}
+                      value={
+                        (sizing as Record<string, number | string>)[field.key]
+                      }
+                      onChange={(e) =>
+                        updateSizingParam(field.key, e.target.value)
+                      }
+                    />
+                  ))}
+                </div>
+              )}
+              {sizing.type === "KELLY" && (
+                <div className="text-xs text-slate-500">
+                  Full Kelly for this edge:{" "}
+                  {kellyPercent(tradeOutcomes).toFixed(2)}% per trade
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-dark-700 pt-4">
+              <CostModelEditor
+                costs={config.costs}
+                onChange={(costs) => setConfig({ ...config, costs })}
+                startingRiskAmount={startingRiskAmount}
+              />
+            </div>
+
+            <div className="border-t border-dark-700 pt-4">
+              <CashFlowEditor
+                plan={config.cashFlows}
+                onChange={(cashFlows) => setConfig({ ...config, cashFlows })}
+                tradesPerWeek={config.timeModel?.tradesPerWeek}
+              />
+            </div>
+
+            <div className="border-t border-dark-700 pt-4">
+              <CircuitBreakerEditor
+                breakers={config.circuitBreakers}
+                onChange={(circuitBreakers) =>
+                  setConfig({ ...config, circuitBreakers })
+                }
+              />
             </div>
 
             <div className="flex flex-col gap-2 pt-4">
               <Button onClick={runSim} fullWidth>
-                Run Simulation
+                Re-run (Same Seed)
               </Button>
               <Button variant="ghost" onClick={randomize} fullWidth>
                 Randomize Scenario
               </Button>
+              <ProgressBar
+                progress={simJob.progress}
+                isRunning={simJob.isRunning}
+                onCancel={simJob.cancel}
+              />
+              {runError && (
+                <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+                  {runError}
+                </div>
+              )}
             </div>
           </div>
         </Card>
@@ -216,92 +683,154 @@ const MarketSimulator: React.FC = () => {
       <div className="lg:col-span-2 space-y-6">
         {/* 1. Chart */}
         <Card title="Equity Curve (Monte Carlo)" className="h-[400px]">
-          <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={data}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-              <XAxis
-                dataKey="tradeNumber"
-                stroke="#94a3b8"
-                fontSize={12}
-                tickLine={false}
-              />
-              <YAxis
-                stroke="#94a3b8"
-                fontSize={12}
-                tickLine={false}
-                tickFormatter={(val: number) => `$${val / 1000}k`}
-              />
-              <Tooltip
-                contentStyle={{
-                  backgroundColor: "#1e293b",
-                  borderColor: "#334155",
-                  color: "#f8fafc",
-                }}
-                itemStyle={{ color: "#3b82f6" }}
-                labelStyle={{ color: "#94a3b8" }}
-                formatter={(value: number) => [
-                  `$${value.toFixed(2)}`,
-                  "Equity",
-                ]}
-              />
-              {Array.from({ length: config.simulationCount }).map((_, i) => (
-                <Line
-                  key={i}
-                  type="monotone"
-                  dataKey={`sim_${i}`}
-                  stroke={i === 0 ? "#3b82f6" : "#475569"}
-                  strokeWidth={i === 0 ? 2 : 1}
-                  dot={false}
-                  opacity={i === 0 ? 1 : 0.3}
-                />
-              ))}
-            </LineChart>
-          </ResponsiveContainer>
+          <FanChart
+            data={fanData}
+            xKey="tradeNumber"
+            overlayBands={
+              grossSummary
+                ? [
+                    {
+                      lowKey: "grossP5",
+                      highKey: "grossP95",
+                      name: "Gross 5th–95th pct",
+                      color: "#f59e0b",
+                    },
+                  ]
+                : []
+            }
+            lines={[
+              ...(grossSummary
+                ? [
+                    {
+                      dataKey: "grossP50",
+                      name: "Gross Median",
+                      color: "#f59e0b",
+                    },
+                  ]
+                : []),
+              { dataKey: "best", name: "Best Run", color: "#10b981" },
+              { dataKey: "median", name: "Median Run", color: "#94a3b8" },
+              { dataKey: "worst", name: "Worst Run", color: "#ef4444" },
+            ]}
+          />
         </Card>
 
         {/* 2. Stats Grid */}
-        {stats && (
-          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <Card className="bg-dark-800/50 border-dark-700">
               <div className="text-slate-400 text-xs uppercase">
-                Avg. Final Balance
+                Median Final Balance
               </div>
               <div className="text-xl font-bold text-slate-100">
-                $
-                {stats.finalBalance.toLocaleString(undefined, {
-                  maximumFractionDigits: 0,
-                })}
+                {formatMoney(summary.medianFinalBalance)}
               </div>
             </Card>
             <Card className="bg-dark-800/50 border-dark-700">
               <div className="text-slate-400 text-xs uppercase">
-                Avg. Return
+                Median Return
               </div>
               <div
                 className={`text-xl font-bold ${
-                  stats.returnPercent >= 0
+                  summary.medianReturnPercent >= 0
                     ? "text-emerald-500"
                     : "text-rose-500"
                 }`}
               >
-                {stats.returnPercent > 0 ? "+" : ""}
-                {stats.returnPercent.toFixed(1)}%
+                {summary.medianReturnPercent > 0 ? "+" : ""}
+                {summary.medianReturnPercent.toFixed(1)}%
               </div>
+              {grossSummary && (
+                <div className="text-xs text-slate-500">
+                  Gross {grossSummary.medianReturnPercent > 0 ? "+" : ""}
+                  {grossSummary.medianReturnPercent.toFixed(1)}%
+                </div>
+              )}
             </Card>
             <Card className="bg-dark-800/50 border-dark-700">
               <div className="text-slate-400 text-xs uppercase">
-                Avg. Max Drawdown
+                5th Pct. Return
               </div>
-              <div className="text-xl font-bold text-accent">
-                {stats.maxDrawdownPercent.toFixed(2)}%
+              <div
+                className={`text-xl font-bold ${
+                  summary.p5ReturnPercent >= 0
+                    ? "text-emerald-500"
+                    : "text-rose-500"
+                }`}
+              >
+                {summary.p5ReturnPercent > 0 ? "+" : ""}
+                {summary.p5ReturnPercent.toFixed(1)}%
               </div>
             </Card>
             <Card className="bg-dark-800/50 border-dark-700">
               <div className="text-slate-400 text-xs uppercase">
-                Avg. Profit Factor
+                Median Profit Factor
               </div>
               <div className="text-xl font-bold text-secondary">
-                {stats.profitFactor.toFixed(2)}
+                {summary.medianProfitFactor.toFixed(2)}
+              </div>
+            </Card>
+            <Card className="bg-dark-800/50 border-dark-700">
+              <div className="text-slate-400 text-xs uppercase">
+                Median Max Drawdown
+              </div>
+              <div className="text-xl font-bold text-accent">
+                {summary.medianMaxDrawdownPercent.toFixed(2)}%
+              </div>
+            </Card>
+            <Card className="bg-dark-800/50 border-dark-700">
+              <div className="text-slate-400 text-xs uppercase">
+                95th Pct. Max Drawdown
+              </div>
+              <div className="text-xl font-bold text-accent">
+                {summary.p95MaxDrawdownPercent.toFixed(2)}%
+              </div>
+            </Card>
+            <Card className="bg-dark-800/50 border-dark-700">
+              <div className="text-slate-400 text-xs uppercase">
+                Median Time Under Water
+              </div>
+              <div className="text-xl font-bold text-amber-400">
+                {summary.medianLongestDrawdownTrades.toFixed(0)} trades
+              </div>
+              <div className="text-xs text-slate-500">
+                95th pct. {summary.p95LongestDrawdownTrades.toFixed(0)}
+              </div>
+              {summary.medianLongestDrawdownDays !== undefined &&
+                summary.p95LongestDrawdownDays !== undefined && (
+                  <div className="text-xs text-slate-500">
+                    ≈ {summary.medianLongestDrawdownDays.toFixed(0)} days (95th
+                    pct. {summary.p95LongestDrawdownDays.toFixed(0)})
+                  </div>
+                )}
+            </Card>
+            <Card className="bg-dark-800/50 border-dark-700">
+              <div className="text-slate-400 text-xs uppercase">
+                Avg. Drawdown Length
+              </div>
+              <div className="text-xl font-bold text-amber-400">
+                {summary.medianAvgDrawdownTrades.toFixed(1)} trades
+              </div>
+            </Card>
+            <Card className="bg-dark-800/50 border-dark-700">
+              <div className="text-slate-400 text-xs uppercase">
+                Worst DD Recovery
+              </div>
+              <div className="text-xl font-bold text-amber-400">
+                {summary.medianRecoveryTrades === null
+                  ? "Never"
+                  : `${summary.medianRecoveryTrades.toFixed(0)} trades`}
+              </div>
+              <div className="text-xs text-slate-500">
+                {summary.unrecoveredPercent.toFixed(0)}% of runs never recover
+              </div>
+            </Card>
+            <Card className="bg-dark-800/50 border-dark-700">
+              <div className="text-slate-400 text-xs uppercase">
+                Median Ulcer Index
+              </div>
+              <div className="text-xl font-bold text-accent">
+                {summary.medianUlcerIndex.toFixed(2)}
               </div>
             </Card>
             <Card className="bg-dark-800/50 border-dark-700">
@@ -309,7 +838,7 @@ const MarketSimulator: React.FC = () => {
                 Max Win Streak
               </div>
               <div className="text-xl font-bold text-emerald-400">
-                {stats.maxWinStreak}
+                {summary.maxWinStreak}
               </div>
             </Card>
             <Card className="bg-dark-800/50 border-dark-700">
@@ -317,13 +846,382 @@ const MarketSimulator: React.FC = () => {
                 Max Loss Streak
               </div>
               <div className="text-xl font-bold text-rose-400">
-                {stats.maxLossStreak}
+                {summary.maxLossStreak}
               </div>
             </Card>
           </div>
         )}
 
-        {/* 3. Strategy Analysis (Moved here) */}
+        {/* 3. Annualized Performance */}
+        {config.timeModel && (
+          <Card title="Annualized Performance (Median Run)">
+            <div className="space-y-4">
+              <PerformanceSettingsEditor
+                settings={config.timeModel}
+                onChange={(settings) =>
+                  setConfig({
+                    ...config,
+                    timeModel: { ...config.timeModel!, ...settings },
+                  })
+                }
+              />
+              {summary?.medianPerformance && (
+                <PerformanceSummary stats={summary.medianPerformance} />
+              )}
+              <div className="text-xs text-slate-500">
+                {config.timeModel.tradesPerWeek > 0
+                  ? `* ${config.numberOfTrades} trades at ${
+                      config.timeModel.tradesPerWeek
+                    } per week ≈ ${(
+                      config.numberOfTrades / config.timeModel.tradesPerWeek
+                    ).toFixed(1)} weeks. Each figure is the median across runs.`
+                  : "* Set trades per week above 0 to place the trades on the calendar."}
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* 4. Cash Flows */}
+        {config.cashFlows && summary?.medianCashFlows && (
+          <Card title="Deposits & Withdrawals (Median Run)">
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Withdrawn
+                </div>
+                <div className="text-lg font-bold font-mono text-emerald-400">
+                  {formatMoney(summary.medianCashFlows.withdrawn)}
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Deposited
+                </div>
+                <div className="text-lg font-bold font-mono text-slate-100">
+                  {formatMoney(summary.medianCashFlows.deposited)}
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Time-Weighted
+                </div>
+                <div className="text-lg font-bold font-mono text-slate-100">
+                  {summary.medianCashFlows.timeWeightedReturnPercent.toFixed(1)}
+                  %
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Money-Weighted
+                </div>
+                <div className="text-lg font-bold font-mono text-slate-100">
+                  {summary.medianCashFlows.moneyWeightedReturnPercent.toFixed(
+                    1
+                  )}
+                  %
+                </div>
+              </div>
+              <div className="bg-dark-900 p-3 rounded-lg border border-dark-700">
+                <div className="text-xs text-slate-400 uppercase">
+                  Risk of Ruin
+                </div>
+                <div
+                  className={`text-lg font-bold font-mono ${
+                    summary.ruinProbability > 1
+                      ? "text-rose-400"
+                      : "text-emerald-400"
+                  }`}
+                >
+                  {summary.ruinProbability.toFixed(1)}%
+                </div>
+                {noCashFlowJob.result && (
+                  <div className="text-xs text-slate-500">
+                    {noCashFlowJob.result.summary.ruinProbability.toFixed(1)}%
+                    without
+                  </div>
+                )}
+              </div>
+            </div>
+            <div className="text-xs text-slate-500 mt-4 leading-relaxed">
+              * Time-weighted return is the strategy's own growth, ignoring when
+              money moved; drawdowns and annualized metrics use it too.
+              Money-weighted return (IRR) is what the account owner earned on
+              the money actually in the account. The balance chart above shows
+              the balance after deposits and withdrawals.
+            </div>
+          </Card>
+        )}
+
+        {/* 5. Underwater Chart */}
+        {simJob.result && (
+          <Card title="Underwater (Drawdown From Peak)" className="h-[280px]">
+            <FanChart
+              data={simJob.result.underwaterBands}
+              xKey="tradeNumber"
+              yFormatter={(v) => `${v.toFixed(1)}%`}
+            />
+          </Card>
+        )}
+
+        {/* 6. Outcome Distributions */}
+        {summary && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <Card title="Final Balance Distribution" className="h-[280px]">
+              <Histogram
+                bins={summary.finalBalanceHistogram}
+                formatValue={(v) => `$${(v / 1000).toFixed(0)}k`}
+                color="#10b981"
+              />
+            </Card>
+            <Card title="Max Drawdown Distribution" className="h-[280px]">
+              <Histogram
+                bins={summary.maxDrawdownHistogram}
+                formatValue={(v) => `${v.toFixed(1)}%`}
+                color="#ef4444"
+              />
+            </Card>
+          </div>
+        )}
+
+        {/* 7. Per-Run Table */}
+        {summary && (
+          <Card title="Simulation Runs">
+            <SortableTable
+              rows={runRows}
+              columns={RUN_COLUMNS}
+              rowKey={(r) => r.run}
+              rowBadge={(r) =>
+                r.run === summary.bestRun
+                  ? "Best"
+                  : r.run === summary.worstRun
+                  ? "Worst"
+                  : r.run === summary.medianRun
+                  ? "Median"
+                  : null
+              }
+              className="max-h-[320px]"
+            />
+          </Card>
+        )}
+
+        {/* 8. Clustering Impact */}
+        {clustered && independent && (
+          <Card title="Clustering Impact">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-dark-700 text-xs text-slate-400 uppercase">
+                  <th className="text-left py-2 px-2">Metric</th>
+                  <th className="text-right py-2 px-2">Clustered</th>
+                  <th className="text-right py-2 px-2">Independent</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {[
+                  {
+                    label: "Median Return",
+                    a: `${clustered.medianReturnPercent.toFixed(1)}%`,
+                    b: `${independent.medianReturnPercent.toFixed(1)}%`,
+                  },
+                  {
+                    label: "Median Max DD",
+                    a: `${clustered.medianMaxDrawdownPercent.toFixed(2)}%`,
+                    b: `${independent.medianMaxDrawdownPercent.toFixed(2)}%`,
+                  },
+                  {
+                    label: "95th Pct. Max DD",
+                    a: `${clustered.p95MaxDrawdownPercent.toFixed(2)}%`,
+                    b: `${independent.p95MaxDrawdownPercent.toFixed(2)}%`,
+                  },
+                  {
+                    label: "Max Loss Streak",
+                    a: clustered.maxLossStreak,
+                    b: independent.maxLossStreak,
+                  },
+                  {
+                    label: "Risk of Ruin",
+                    a: `${clustered.ruinProbability.toFixed(1)}%`,
+                    b: `${independent.ruinProbability.toFixed(1)}%`,
+                  },
+                ].map((row) => (
+                  <tr key={row.label} className="border-b border-dark-700/50">
+                    <td className="py-1.5 px-2 font-sans text-slate-400">
+                      {row.label}
+                    </td>
+                    <td className="py-1.5 px-2 text-right text-slate-100">
+                      {row.a}
+                    </td>
+                    <td className="py-1.5 px-2 text-right text-slate-300">
+                      {row.b}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-xs text-slate-500 mt-2">
+              * Independent run uses the same seed and the sequence model's
+              long-run win rate, so the gap is the cost of streaky results.
+            </div>
+          </Card>
+        )}
+
+        {/* 9. Sizing Model Comparison */}
+        <Card title="Sizing Model Comparison">
+          <div className="flex items-center gap-4 mb-4">
+            <Button variant="ghost" onClick={compareSizing}>
+              Compare All Models
+            </Button>
+            <div className="flex-1">
+              <ProgressBar
+                progress={comparisonJob.progress}
+                isRunning={comparisonJob.isRunning}
+                onCancel={comparisonJob.cancel}
+              />
+            </div>
+          </div>
+          {comparisonJob.error && (
+            <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+              {comparisonJob.error}
+            </div>
+          )}
+          {comparisonJob.result && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-dark-700 text-xs text-slate-400 uppercase">
+                    <th className="text-left py-2 px-2">Model</th>
+                    <th className="text-right py-2 px-2">Median Return</th>
+                    <th className="text-right py-2 px-2">Median Max DD</th>
+                    <th className="text-right py-2 px-2">95th Pct. DD</th>
+                    <th className="text-right py-2 px-2">Risk of Ruin</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisonJob.result.map(({ model, summary: s }) => (
+                    <tr
+                      key={model.type}
+                      className={`border-b border-dark-700/50 font-mono ${
+                        model.type === sizing.type ? "bg-primary/10" : ""
+                      }`}
+                    >
+                      <td className="py-1.5 px-2 font-sans text-slate-200">
+                        {SIZING_MODEL_LABELS[model.type]}
+                      </td>
+                      <td
+                        className={`py-1.5 px-2 text-right ${
+                          s.medianReturnPercent >= 0
+                            ? "text-emerald-400"
+                            : "text-rose-400"
+                        }`}
+                      >
+                        {s.medianReturnPercent.toFixed(1)}%
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-200">
+                        {s.medianMaxDrawdownPercent.toFixed(2)}%
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-200">
+                        {s.p95MaxDrawdownPercent.toFixed(2)}%
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-200">
+                        {s.ruinProbability.toFixed(1)}%
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="text-xs text-slate-500 mt-2">
+                * All models run on the same seed, so differences come from the
+                sizing rule alone. Ruin = equity falls to 10% of the starting
+                capital.
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {/* 10. Risk Optimizer */}
+        <RiskOptimizerPanel
+          config={config}
+          onApplyRisk={(riskPerTradePercent) =>
+            setConfig({ ...config, riskPerTradePercent })
+          }
+        />
+
+        {/* 11. Calendar Simulation */}
+        <CalendarPanel config={config} />
+
+        {/* 12. Circuit Breaker Impact */}
+        {config.circuitBreakers && (
+          <Card title="Circuit Breaker Impact">
+            <div className="flex items-center gap-4 mb-4">
+              <Button variant="ghost" onClick={() => breakerJob.run(config)}>
+                Compare Rules
+              </Button>
+              <div className="flex-1">
+                <ProgressBar
+                  progress={breakerJob.progress}
+                  isRunning={breakerJob.isRunning}
+                  onCancel={breakerJob.cancel}
+                />
+              </div>
+            </div>
+            {breakerJob.error && (
+              <div className="mb-4 p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+                {breakerJob.error}
+              </div>
+            )}
+            {breakerJob.result && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-dark-700 text-xs text-slate-400 uppercase">
+                      <th className="text-left py-2 px-2">Rules</th>
+                      <th className="text-right py-2 px-2">Median Return</th>
+                      <th className="text-right py-2 px-2">Median Max DD</th>
+                      <th className="text-right py-2 px-2">95th Pct. DD</th>
+                      <th className="text-right py-2 px-2">Trades Taken</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {breakerJob.result.map(({ label, summary: s }) => (
+                      <tr
+                        key={label}
+                        className="border-b border-dark-700/50 font-mono"
+                      >
+                        <td className="py-1.5 px-2 font-sans text-slate-200">
+                          {label}
+                        </td>
+                        <td
+                          className={`py-1.5 px-2 text-right ${
+                            s.medianReturnPercent >= 0
+                              ? "text-emerald-400"
+                              : "text-rose-400"
+                          }`}
+                        >
+                          {s.medianReturnPercent.toFixed(1)}%
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-slate-200">
+                          {s.medianMaxDrawdownPercent.toFixed(2)}%
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-slate-200">
+                          {s.p95MaxDrawdownPercent.toFixed(2)}%
+                        </td>
+                        <td className="py-1.5 px-2 text-right text-slate-200">
+                          {s.medianTradesTaken.toFixed(0)} /{" "}
+                          {config.numberOfTrades}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className="text-xs text-slate-500 mt-2">
+                  * Every rule set shares the seed and the same day schedule, so
+                  differences come from the rules alone.
+                </div>
+              </div>
+            )}
+          </Card>
+        )}
+
+        {/* 13. Strategy Analysis (Moved here) */}
         <Card
           title="Strategy Analysis"
           className={`${edgeAnalysis.borderColor} border`}
@@ -340,6 +1238,7 @@ const MarketSimulator: React.FC = () => {
                 <span className="text-slate-200">
                   {edgeAnalysis.val.toFixed(2)}R
                 </span>
+                {isNetStats && <> (costs {costR.toFixed(3)}R)</>}
               </span>
             </div>
             <p className="text-sm text-slate-300 leading-relaxed">
@@ -348,10 +1247,64 @@ const MarketSimulator: React.FC = () => {
           </div>
 
           <div className="text-xs text-slate-500 mt-2">
-            * Expectancy = (Win% x Reward) - (Loss% x 1). Positive expectancy is
+            * Expectancy = (Win% x Reward) - (Loss% x 1), or the
+            probability-weighted sum of a custom outcome table, less trading
+            costs at the starting risk when enabled. Positive expectancy is
             required for long-term growth.
           </div>
         </Card>
+
+        {/* 14. Scenario Comparison */}
+        <ScenarioComparison
+          scenarios={pinned}
+          parameters={SCENARIO_PARAMETERS}
+          outputs={SCENARIO_OUTPUTS}
+          canPin={simJob.result !== null && simJob.resultArgs !== null}
+          onPin={pinScenario}
+          onRemove={scenarios.remove}
+          onLoad={loadConfig}
+        >
+          <div className="h-[300px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={scenarioData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                <XAxis
+                  dataKey="index"
+                  stroke="#94a3b8"
+                  fontSize={12}
+                  tickLine={false}
+                />
+                <YAxis
+                  stroke="#94a3b8"
+                  fontSize={12}
+                  tickLine={false}
+                  tickFormatter={(v) => `$${(v / 1000).toFixed(0)}k`}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "#1e293b",
+                    borderColor: "#334155",
+                    color: "#f8fafc",
+                  }}
+                  labelFormatter={(v) => `Trade ${v}`}
+                  formatter={(value: number) => formatMoney(value)}
+                />
+                {pinned.map((sc, i) => (
+                  <Line
+                    key={sc.id}
+                    type="monotone"
+                    dataKey={`s${i}`}
+                    name={`${sc.name} (Median)`}
+                    stroke={SCENARIO_COLORS[i]}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </ScenarioComparison>
       </div>
     </div>
   );
@@ -0,0 +1,585 @@
+import React, { useState } from "react";
+import { Card } from "../ui/Card";
+import { Input } from "../ui/Input";
+import { SimulationCountInput } from "../ui/SimulationCountInput";
+import { Button } from "../ui/Button";
+import { SeedInput } from "../ui/SeedInput";
+import { ProgressBar } from "../ui/ProgressBar";
+import { FanChart } from "../ui/FanChart";
+import { OutcomeTableEditor } from "../ui/OutcomeTableEditor";
+import { WinRateUncertaintyEditor } from "../ui/WinRateUncertaintyEditor";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import { useWinRateUncertainty } from "../../hooks/useWinRateUncertainty";
+import { randomSeed } from "../../services/random";
+import {
+  DEFAULT_LEG_DEPENDENCIES,
+  choleskyDecompose,
+  resizeCorrelationMatrix,
+} from "../../services/portfolio";
+import { formatMoney } from "../../services/formatting";
+import type { LegDependence, PortfolioConfig, StrategyLeg } from "../../types";
+
+const MAX_LEGS = 6;
+
+const DEPENDENCE_MODES = [
+  { id: "INDEPENDENT", label: "Independent" },
+  { id: "CORRELATION", label: "Correlation" },
+  { id: "BAD_DAY", label: "Bad Days" },
+] as const;
+
+const newLeg = (n: number): StrategyLeg => ({
+  name: `Strategy ${n}`,
+  winRatePercent: 50,
+  rewardToRiskRatio: 1.5,
+  riskPerTradePercent: 0.5,
+  tradesPerWeek: 5,
+});
+
+// Drops leg i's row and column so the remaining pairs keep their values
+const removeFromMatrix = (matrix: number[][], i: number) =>
+  matrix.filter((_, r) => r !== i).map((row) => row.filter((_, c) => c !== i));
+
+interface DependenceEditorProps {
+  dependence: LegDependence;
+  legs: StrategyLeg[];
+  onChange: (dependence: LegDependence) => void;
+}
+
+const DependenceEditor: React.FC<DependenceEditorProps> = ({
+  dependence,
+  legs,
+  onChange,
+}) => {
+  // Keep edited values per mode while switching between them
+  const [drafts, setDrafts] = useState(() => ({
+    ...DEFAULT_LEG_DEPENDENCIES,
+    [dependence.type]: dependence,
+  }));
+
+  const update = (next: LegDependence) => {
+    setDrafts({ ...drafts, [next.type]: next });
+    onChange(next);
+  };
+
+  const matrix =
+    dependence.type === "CORRELATION"
+      ? resizeCorrelationMatrix(dependence.matrix, legs.length)
+      : [];
+
+  // Editing one cell sets its mirror too
+  const setCorrelation = (i: number, j: number, val: string) => {
+    const value = Math.max(-1, Math.min(1, Number(val)));
+    update({
+      type: "CORRELATION",
+      matrix: matrix.map((row, r) =>
+        row.map((v, c) =>
+          (r === i && c === j) || (r === j && c === i) ? value : v
+        )
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-medium text-slate-400 uppercase">
+        Leg Dependence
+      </label>
+      <div className="grid grid-cols-3 gap-1 bg-dark-900 p-1 rounded-lg">
+        {DEPENDENCE_MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => onChange(drafts[m.id])}
+            className={`py-1.5 text-xs rounded-md transition-colors ${
+              dependence.type === m.id
+                ? "bg-primary text-white shadow"
+                : "text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {dependence.type === "CORRELATION" && legs.length > 1 && (
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {legs.map((leg, j) => (
+                  <th
+                    key={j}
+                    className="px-1 pb-1 font-medium text-slate-400 truncate max-w-[64px]"
+                  >
+                    {leg.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {legs.map((leg, i) => (
+                <tr key={i}>
+                  <td className="pr-2 text-slate-400 truncate max-w-[80px]">
+                    {leg.name}
+                  </td>
+                  {legs.map((_, j) => (
+                    <td key={j} className="p-0.5">
+                      {j > i ? (
+                        <input
+                          type="number"
+                          step="0.1"
+                          min={-1}
+                          max={1}
+                          className="w-16 bg-dark-900 border border-dark-700 rounded px-1.5 py-1 text-slate-100 font-mono"
+                          value={matrix[i][j]}
+                          onChange={(e) => setCorrelation(i, j, e.target.value)}
+                        />
+                      ) : (
+                        <div className="w-16 px-1.5 py-1 text-slate-600 font-mono">
+                          {matrix[i][j]}
+                        </div>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!choleskyDecompose(matrix) && (
+            <div className="mt-2 text-xs text-rose-400">
+              These correlations contradict each other; loosen some pairs.
+            </div>
+          )}
+        </div>
+      )}
+
+      {dependence.type === "BAD_DAY" && (
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Bad Day Chance"
+            type="number"
+            min={0}
+            value={dependence.badDayPercent}
+            onChange={(e) =>
+              update({ ...dependence, badDayPercent: Number(e.target.value) })
+            }
+            suffix="%"
+          />
+          <Input
+            label="Win Rate Drop"
+            type="number"
+            min={0}
+            value={dependence.winRateDropPercent}
+            onChange={(e) =>
+              update({
+                ...dependence,
+                winRateDropPercent: Number(e.target.value),
+              })
+            }
+            suffix="pts"
+          />
+        </div>
+      )}
+
+      <p className="text-xs text-slate-500">
+        {dependence.type === "INDEPENDENT"
+          ? "Each leg wins and loses on its own."
+          : dependence.type === "CORRELATION"
+          ? "Correlation between trades the legs take on the same day."
+          : "On a bad day every leg's win rate drops at once; normal days make up for it, so long-run win rates are unchanged."}
+      </p>
+    </div>
+  );
+};
+
+// Several strategies sharing one account, linked by correlation or a common
+// bad-day factor
+const PortfolioSimulator: React.FC = () => {
+  const [ownConfig, setConfig] = useState<PortfolioConfig>({
+    initialCapital: 100000,
+    legs: [
+      {
+        name: "Trend",
+        winRatePercent: 40,
+        rewardToRiskRatio: 2.5,
+        riskPerTradePercent: 0.5,
+        tradesPerWeek: 5,
+      },
+      {
+        name: "Mean Reversion",
+        winRatePercent: 60,
+        rewardToRiskRatio: 0.9,
+        riskPerTradePercent: 0.5,
+        tradesPerWeek: 10,
+      },
+    ],
+    dependence: {
+      type: "CORRELATION",
+      matrix: [
+        [1, 0.3],
+        [0.3, 1],
+      ],
+    },
+    weeks: 52,
+    simulationCount: 500,
+    seed: randomSeed(),
+  });
+  const { config, uncertainty, setUncertainty } = useWinRateUncertainty(
+    ownConfig,
+    setConfig
+  );
+
+  const portfolioJob = useComputeJob("portfolio");
+  const result = portfolioJob.result;
+  // Leg names of the shown result, which may predate edits to the legs
+  const shownLegs = portfolioJob.resultArgs?.legs ?? [];
+
+  const handleInput = (
+    key: "initialCapital" | "weeks" | "simulationCount",
+    val: string
+  ) => {
+    setConfig({ ...config, [key]: Number(val) });
+  };
+
+  const updateLeg = (i: number, leg: StrategyLeg) => {
+    setConfig({
+      ...config,
+      legs: config.legs.map((l, j) => (j === i ? leg : l)),
+    });
+  };
+
+  const addLeg = () => {
+    setConfig({
+      ...config,
+      legs: [...config.legs, newLeg(config.legs.length + 1)],
+    });
+  };
+
+  const removeLeg = (i: number) => {
+    const { dependence } = config;
+    setConfig({
+      ...config,
+      legs: config.legs.filter((_, j) => j !== i),
+      dependence:
+        dependence.type === "CORRELATION"
+          ? {
+              ...dependence,
+              matrix: removeFromMatrix(
+                resizeCorrelationMatrix(dependence.matrix, config.legs.length),
+                i
+              ),
+            }
+          : dependence,
+    });
+  };
+
+  const summary = result?.summary ?? null;
+  const drawdownReduction =
+    result && result.standaloneP95MaxDrawdownSum > 0
+      ? (1 -
+          result.summary.p95MaxDrawdownPercent /
+            result.standaloneP95MaxDrawdownSum) *
+        100
+      : 0;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <Card title="Portfolio" className="lg:col-span-1 h-fit space-y-5">
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Account Size"
+            type="number"
+            value={config.initialCapital}
+            onChange={(e) => handleInput("initialCapital", e.target.value)}
+            suffix="$"
+          />
+          <Input
+            label="Horizon"
+            type="number"
+            min={1}
+            value={config.weeks}
+            onChange={(e) => handleInput("weeks", e.target.value)}
+            suffix="weeks"
+          />
+          <SimulationCountInput
+            count={config.simulationCount}
+            onCountChange={(simulationCount) =>
+              setConfig({ ...config, simulationCount })
+            }
+          />
+        </div>
+
+        {config.legs.map((leg, i) => (
+          <div
+            key={i}
+            className="border border-dark-700 p-3 rounded-lg bg-dark-800/50 space-y-3"
+          >
+            <div className="flex items-center gap-2">
+              <input
+                className="flex-1 bg-transparent text-xs font-bold text-primary uppercase focus:outline-none"
+                value={leg.name}
+                onChange={(e) => updateLeg(i, { ...leg, name: e.target.value })}
+              />
+              {config.legs.length > 1 && (
+                <button
+                  className="text-slate-500 hover:text-rose-400 text-sm"
+                  onClick={() => removeLeg(i)}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Win Rate"
+                type="number"
+                value={leg.winRatePercent}
+                onChange={(e) =>
+                  updateLeg(i, {
+                    ...leg,
+                    winRatePercent: Number(e.target.value),
+                  })
+                }
+                suffix="%"
+              />
+              <Input
+                label="R:R"
+                type="number"
+                step="0.1"
+                value={leg.rewardToRiskRatio}
+                onChange={(e) =>
+                  updateLeg(i, {
+                    ...leg,
+                    rewardToRiskRatio: Number(e.target.value),
+                  })
+                }
+              />
+              <Input
+                label="Risk Per Trade"
+                type="number"
+                step="0.1"
+                value={leg.riskPerTradePercent}
+                onChange={(e) =>
+                  updateLeg(i, {
+                    ...leg,
+                    riskPerTradePercent: Number(e.target.value),
+                  })
+                }
+                suffix="%"
+              />
+              <Input
+                label="Trades / Week"
+                type="number"
+                min={0}
+                value={leg.tradesPerWeek}
+                onChange={(e) =>
+                  updateLeg(i, {
+                    ...leg,
+                    tradesPerWeek: Number(e.target.value),
+                  })
+                }
+              />
+            </div>
+            <OutcomeTableEditor
+              outcomes={leg.outcomes}
+              onChange={(outcomes) => updateLeg(i, { ...leg, outcomes })}
+            />
+          </div>
+        ))}
+        {config.legs.length < MAX_LEGS && (
+          <Button variant="secondary" onClick={addLeg} fullWidth>
+            Add Strategy
+          </Button>
+        )}
+
+        <div className="border-t border-dark-700 pt-4">
+          <DependenceEditor
+            dependence={config.dependence}
+            legs={config.legs}
+            onChange={(dependence) => setConfig({ ...config, dependence })}
+          />
+        </div>
+
+        <WinRateUncertaintyEditor
+          uncertainty={uncertainty}
+          onChange={setUncertainty}
+        />
+
+        <SeedInput
+          seed={config.seed}
+          onSeedChange={(seed) => setConfig({ ...config, seed })}
+        />
+
+        <div className="flex flex-col gap-2">
+          <Button onClick={() => portfolioJob.run(config)} fullWidth>
+            Run Portfolio
+          </Button>
+          <ProgressBar
+            progress={portfolioJob.progress}
+            isRunning={portfolioJob.isRunning}
+            onCancel={portfolioJob.cancel}
+          />
+          {portfolioJob.error && (
+            <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+              {portfolioJob.error}
+            </div>
+          )}
+        </div>
+      </Card>
+
+      <div className="lg:col-span-2 space-y-6">
+        <Card title="Combined Equity">
+          <div className="h-[350px]">
+            {result ? (
+              <FanChart data={result.bands} xKey="day" />
+            ) : (
+              <div className="text-sm text-slate-500">
+                Set up the strategies and run the portfolio.
+              </div>
+            )}
+          </div>
+          <div className="text-xs text-slate-500 mt-2">
+            * Percentile bands of account equity by trading day (5 per week).
+          </div>
+        </Card>
+
+        {result && summary && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-dark-800 p-4 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">
+                Median Return
+              </div>
+              <div
+                className={`text-xl font-bold ${
+                  summary.medianReturnPercent >= 0
+                    ? "text-emerald-400"
+                    : "text-rose-400"
+                }`}
+              >
+                {summary.medianReturnPercent.toFixed(1)}%
+              </div>
+              <div className="text-xs text-slate-500">
+                5th pct. {summary.p5ReturnPercent.toFixed(1)}%
+              </div>
+            </div>
+            <div className="bg-dark-800 p-4 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">
+                95th Pct. Max DD
+              </div>
+              <div className="text-xl font-bold text-accent">
+                {summary.p95MaxDrawdownPercent.toFixed(1)}%
+              </div>
+              <div className="text-xs text-slate-500">
+                Median {summary.medianMaxDrawdownPercent.toFixed(1)}%
+              </div>
+            </div>
+            <div className="bg-dark-800 p-4 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">
+                Diversification
+              </div>
+              <div
+                className={`text-xl font-bold ${
+                  result.diversificationRatio > 1.1
+                    ? "text-emerald-400"
+                    : "text-amber-400"
+                }`}
+              >
+                {result.diversificationRatio.toFixed(2)}×
+              </div>
+              <div className="text-xs text-slate-500">
+                DD {drawdownReduction.toFixed(0)}% below the legs' sum
+              </div>
+            </div>
+            <div className="bg-dark-800 p-4 rounded-xl border border-dark-700">
+              <div className="text-xs text-slate-400 uppercase">
+                If Independent
+              </div>
+              <div className="text-xl font-bold text-slate-100">
+                {result.independentSummary.p95MaxDrawdownPercent.toFixed(1)}%
+              </div>
+              <div className="text-xs text-slate-500">95th pct. max DD</div>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <Card title="Leg Contribution">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-dark-700 text-xs text-slate-400 uppercase">
+                    <th className="text-left py-2 px-2 font-medium">Leg</th>
+                    <th className="text-right py-2 px-2 font-medium">
+                      Median P&L
+                    </th>
+                    <th className="text-right py-2 px-2 font-medium">
+                      Alone: Return
+                    </th>
+                    <th className="text-right py-2 px-2 font-medium">
+                      Alone: 95th DD
+                    </th>
+                    <th className="text-left py-2 px-2 font-medium w-1/3">
+                      Share of Max DD
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {result.legs.map((leg, i) => (
+                    <tr key={i} className="border-b border-dark-700/50">
+                      <td className="py-1.5 px-2 font-sans text-slate-300">
+                        {shownLegs[i]?.name}
+                      </td>
+                      <td
+                        className={`py-1.5 px-2 text-right ${
+                          leg.medianPnl >= 0
+                            ? "text-emerald-400"
+                            : "text-rose-400"
+                        }`}
+                      >
+                        {formatMoney(leg.medianPnl)}
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-200">
+                        {leg.standaloneMedianReturnPercent.toFixed(1)}%
+                      </td>
+                      <td className="py-1.5 px-2 text-right text-slate-200">
+                        {leg.standaloneP95MaxDrawdownPercent.toFixed(1)}%
+                      </td>
+                      <td className="py-1.5 px-2">
+                        <div className="flex items-center gap-2">
+                          <div className="flex-1 h-2 bg-dark-900 rounded">
+                            <div
+                              className="h-2 bg-rose-500 rounded"
+                              style={{
+                                width: `${Math.max(
+                                  0,
+                                  Math.min(100, leg.drawdownSharePercent)
+                                )}%`,
+                              }}
+                            />
+                          </div>
+                          <span className="text-slate-200 w-14 text-right">
+                            {leg.drawdownSharePercent.toFixed(0)}%
+                          </span>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="text-xs text-slate-500 mt-4 leading-relaxed">
+              * Share of max DD: how much of each run's deepest end-of-day
+              drawdown came from the leg, averaged over runs. "Alone" runs the
+              leg by itself on the same account. Diversification is the sum of
+              the legs' daily volatility over the portfolio's; the drawdown
+              comparison is against the sum of the legs' standalone 95th pct.
+              drawdowns.
+            </div>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioSimulator;
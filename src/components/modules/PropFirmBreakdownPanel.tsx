@@ -0,0 +1,258 @@
+import React from "react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Card } from "../ui/Card";
+import { Histogram } from "../ui/Histogram";
+import { CALENDAR_DAYS_PER_TRADING_DAY } from "../../services/tradingDays";
+import { PROP_FIRM_OUTCOMES } from "../../services/propFirmRules";
+import type { ComputeJobResult } from "../../services/computeJobs";
+import { formatMoney } from "../../services/formatting";
+import type {
+  DaysDistribution,
+  PropFirmOutcomeCounts,
+  PropFirmPath,
+} from "../../types";
+
+interface PropFirmBreakdownPanelProps {
+  result: ComputeJobResult<"propFirm">;
+  iterations: number;
+  className?: string;
+}
+
+const FAILURE_COLUMNS: {
+  key: Exclude<keyof PropFirmOutcomeCounts, "pass">;
+  label: string;
+}[] = [
+  { key: "failMaxDD", label: "Max DD" },
+  { key: "failDailyDD", label: "Daily DD" },
+  { key: "failTimeout", label: "Time Limit" },
+  { key: "failConsistency", label: "Consistency" },
+];
+
+// Trading days to calendar days, as everywhere else in the estimator
+const toCalendarDays = (tradingDays: number) =>
+  Math.round(tradingDays * CALENDAR_DAYS_PER_TRADING_DAY);
+
+const DaysHistogram: React.FC<{
+  title: string;
+  days: DaysDistribution | undefined;
+  color: string;
+}> = ({ title, days, color }) => (
+  <div className="space-y-2">
+    <div className="flex justify-between text-xs uppercase">
+      <span className="text-slate-400">{title}</span>
+      {days && (
+        <span className="text-slate-500 normal-case">
+          Median {toCalendarDays(days.median)}d · 90th pct.{" "}
+          {toCalendarDays(days.p90)}d
+        </span>
+      )}
+    </div>
+    <div className="h-[200px]">
+      {days ? (
+        <Histogram
+          bins={days.histogram}
+          formatValue={(v) => `${toCalendarDays(v)}d`}
+          color={color}
+          countLabel="Attempts"
+          markers={[
+            { value: days.median, label: "Median", color: "#f8fafc" },
+            { value: days.p90, label: "P90", color: "#94a3b8" },
+          ]}
+        />
+      ) : (
+        <div className="text-sm text-slate-500">None in this run.</div>
+      )}
+    </div>
+  </div>
+);
+
+const SamplePathChart: React.FC<{ path: PropFirmPath }> = ({ path }) => {
+  const style = PROP_FIRM_OUTCOMES.find((o) => o.outcome === path.outcome)!;
+  return (
+    <div className="bg-dark-900 border border-dark-700 rounded-lg p-3 space-y-2">
+      <div className="flex justify-between text-xs">
+        <span className="font-semibold" style={{ color: style.color }}>
+          {style.label}
+        </span>
+        <span className="text-slate-500">
+          Phase {path.phase} · {toCalendarDays(path.daysTaken)} days
+        </span>
+      </div>
+      <div className="h-[160px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={path.points}>
+            <XAxis
+              dataKey="trade"
+              stroke="#94a3b8"
+              fontSize={10}
+              tickLine={false}
+            />
+            <YAxis
+              domain={["auto", "auto"]}
+              stroke="#94a3b8"
+              fontSize={10}
+              tickLine={false}
+              width={50}
+              tickFormatter={(v: number) => `${(v / 1000).toFixed(0)}k`}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "#1e293b",
+                borderColor: "#334155",
+                color: "#f8fafc",
+              }}
+              labelFormatter={(v: number) => `Trade ${v}`}
+              formatter={(value: number, name: string) => [
+                formatMoney(value),
+                name,
+              ]}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="target"
+              name="Target"
+              stroke="#10b981"
+              strokeDasharray="4 3"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="totalFloor"
+              name="Max DD Floor"
+              stroke="#ef4444"
+              strokeDasharray="4 3"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="stepAfter"
+              dataKey="dailyFloor"
+              name="Daily Floor"
+              stroke="#f59e0b"
+              strokeDasharray="2 3"
+              dot={false}
+              isAnimationActive={false}
+            />
+            <Line
+              type="linear"
+              dataKey="equity"
+              name="Equity"
+              stroke="#f8fafc"
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+// Where and when attempts end, with a few of them traced trade by trade
+const PropFirmBreakdownPanel: React.FC<PropFirmBreakdownPanelProps> = ({
+  result,
+  iterations,
+  className = "",
+}) => {
+  const pct = (n: number) =>
+    n > 0 ? `${((n / iterations) * 100).toFixed(1)}%` : "—";
+  // Failures first: they're what the paths are here to explain
+  const paths = [...result.samplePaths].sort(
+    (a, b) => Number(a.outcome === "PASS") - Number(b.outcome === "PASS")
+  );
+
+  return (
+    <Card title="Failure Breakdown" className={className}>
+      <div className="space-y-6">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-slate-400 uppercase border-b border-dark-700">
+                <th className="py-2 px-2 text-left font-medium">Phase</th>
+                <th className="py-2 px-2 text-right font-medium">Reached</th>
+                <th className="py-2 px-2 text-right font-medium">Passed</th>
+                {FAILURE_COLUMNS.map((col) => (
+                  <th
+                    key={col.key}
+                    className="py-2 px-2 text-right font-medium"
+                  >
+                    Fail ({col.label})
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {result.phaseResults.map((counts, i) => (
+                <tr key={i} className="border-b border-dark-700/50">
+                  <td className="py-1.5 px-2 font-sans text-slate-300">
+                    Phase {i + 1}
+                  </td>
+                  <td className="py-1.5 px-2 text-right text-slate-400">
+                    {pct(Object.values(counts).reduce((sum, n) => sum + n, 0))}
+                  </td>
+                  <td className="py-1.5 px-2 text-right text-emerald-400">
+                    {pct(counts.pass)}
+                  </td>
+                  {FAILURE_COLUMNS.map((col) => (
+                    <td
+                      key={col.key}
+                      className="py-1.5 px-2 text-right text-rose-400"
+                    >
+                      {pct(counts[col.key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-slate-500 mt-2">
+            * Shares of all first attempts, so each phase's row adds up to the
+            share that reached it.
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <DaysHistogram
+            title="Days to Pass"
+            days={result.passDays}
+            color="#10b981"
+          />
+          <DaysHistogram
+            title="Days to Fail"
+            days={result.failDays}
+            color="#ef4444"
+          />
+        </div>
+
+        {paths.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs text-slate-400 uppercase">
+              Sampled Attempts
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {paths.map((path, i) => (
+                <SamplePathChart key={i} path={path} />
+              ))}
+            </div>
+            <div className="text-xs text-slate-500">
+              Equity after each trade against the profit target (green), the max
+              drawdown floor (red) and the daily loss floor (amber). Each phase
+              starts again from the account size.
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default PropFirmBreakdownPanel;
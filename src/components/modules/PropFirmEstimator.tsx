@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   PieChart,
   Pie,
@@ -6,17 +6,245 @@ import {
   ResponsiveContainer,
   Tooltip,
   Legend,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
 } from "recharts";
 import { Card } from "../ui/Card";
 import { Input } from "../ui/Input";
 import { Slider } from "../ui/Slider";
 import { Button } from "../ui/Button";
-import { runPropFirmSimulation } from "../../services/mathUtils";
-import type { PropFirmConfig, PhaseConfig } from "../../types";
+import { SeedInput } from "../ui/SeedInput";
+import { OutcomeTableEditor } from "../ui/OutcomeTableEditor";
+import { SequenceModelEditor } from "../ui/SequenceModelEditor";
+import { WinRateUncertaintyEditor } from "../ui/WinRateUncertaintyEditor";
+import { ProgressBar } from "../ui/ProgressBar";
+import { DrawdownRuleSelects } from "../ui/DrawdownRuleSelects";
+import { FundedStageEditor } from "../ui/FundedStageEditor";
+import { ScenarioComparison } from "../ui/ScenarioComparison";
+import type { ScenarioParameter } from "../ui/ScenarioComparison";
+import type { TableColumn } from "../ui/SortableTable";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import type { ComputeJobResult } from "../../services/computeJobs";
+import { useScenarios } from "../../hooks/useScenarios";
+import { useWinRateUncertainty } from "../../hooks/useWinRateUncertainty";
+import { DEFAULT_WIN_RATE_UNCERTAINTY } from "../../services/uncertainty";
+import {
+  SCENARIO_COLORS,
+  describeOutcomeTable,
+  describeSequence,
+  describeUncertainty,
+} from "../../services/scenarios";
+import { randomSeed } from "../../services/random";
+import { withIndependentTrades } from "../../services/sequence";
+import { resolveOutcomes, describeOutcomes } from "../../services/outcomes";
+import { applyPresetRules } from "../../services/propFirmPresets";
+import { CALENDAR_DAYS_PER_TRADING_DAY } from "../../services/tradingDays";
+import {
+  DAILY_DRAWDOWN_RULE_LABELS,
+  PROP_FIRM_OUTCOMES,
+  TOTAL_DRAWDOWN_RULE_LABELS,
+  dailyDrawdownRuleOf,
+  totalDrawdownRuleOf,
+} from "../../services/propFirmRules";
+import { formatMoney } from "../../services/formatting";
+import type {
+  PropFirmConfig,
+  PropFirmRules,
+  PhaseConfig,
+  RetryPolicy,
+} from "../../types";
+import PropFirmPresetPanel from "./PropFirmPresetPanel";
+import PropFirmBreakdownPanel from "./PropFirmBreakdownPanel";
+import FundedStagePanel from "./FundedStagePanel";
+import ChallengeEconomicsPanel from "./ChallengeEconomicsPanel";
+
+// Increased simulation count for better accuracy
+const SIMULATION_ITERATIONS = 2000;
+
+// A single attempt at full price
+const NO_RETRIES: RetryPolicy = { maxAttempts: 1, discountPercent: 0 };
+
+type PropFirmJobResult = ComputeJobResult<"propFirm">;
+
+// Per-phase values joined in phase order, e.g. "8% / 5%". Only the phases
+// the steps reach are simulated.
+const perPhase = (c: PropFirmConfig, format: (p: PhaseConfig) => string) =>
+  c.phases.slice(0, c.steps).map(format).join(" / ");
+
+const SCENARIO_PARAMETERS: ScenarioParameter<PropFirmConfig>[] = [
+  {
+    key: "accountSize",
+    label: "Account Size",
+    value: (c) => `$${c.accountSize.toLocaleString()}`,
+  },
+  { key: "steps", label: "Steps", value: (c) => c.steps },
+  {
+    key: "profitTarget",
+    label: "Profit Target",
+    value: (c) => perPhase(c, (p) => `${p.profitTargetPercent}%`),
+  },
+  {
+    key: "maxTotalDrawdown",
+    label: "Max Total DD",
+    value: (c) => perPhase(c, (p) => `${p.maxTotalDrawdownPercent}%`),
+  },
+  {
+    key: "maxDailyDrawdown",
+    label: "Max Daily DD",
+    value: (c) => perPhase(c, (p) => `${p.maxDailyDrawdownPercent}%`),
+  },
+  {
+    key: "minTradingDays",
+    label: "Min Trading Days",
+    value: (c) => perPhase(c, (p) => `${p.minTradingDays ?? "—"}`),
+  },
+  {
+    key: "maxCalendarDays",
+    label: "Time Limit",
+    value: (c) =>
+      perPhase(c, (p) => (p.maxCalendarDays ? `${p.maxCalendarDays}d` : "—")),
+  },
+  {
+    key: "maxDayProfitSharePercent",
+    label: "Max Day Share",
+    value: (c) =>
+      perPhase(c, (p) =>
+        p.maxDayProfitSharePercent ? `${p.maxDayProfitSharePercent}%` : "—"
+      ),
+  },
+  {
+    key: "totalDrawdownRule",
+    label: "Total DD Rule",
+    value: (c) =>
+      perPhase(
+        c,
+        (p) =>
+          TOTAL_DRAWDOWN_RULE_LABELS[
+            totalDrawdownRuleOf(p, c.isTrailingDrawdown)
+          ]
+      ),
+  },
+  {
+    key: "dailyDrawdownRule",
+    label: "Daily DD Rule",
+    value: (c) =>
+      perPhase(c, (p) => DAILY_DRAWDOWN_RULE_LABELS[dailyDrawdownRuleOf(p)]),
+  },
+  {
+    key: "challengeFee",
+    label: "Challenge Fee",
+    value: (c) => (c.challengeFee ? `$${c.challengeFee}` : "—"),
+  },
+  {
+    key: "retries",
+    label: "Retries",
+    value: (c) =>
+      c.retries && c.retries.maxAttempts > 1
+        ? `${c.retries.maxAttempts - 1} at $${
+            c.retries.resetFee ?? c.challengeFee ?? 0
+          }${
+            c.retries.discountPercent ? ` −${c.retries.discountPercent}%` : ""
+          }`
+        : "—",
+  },
+  {
+    key: "funded",
+    label: "Funded Stage",
+    value: (c) =>
+      c.funded
+        ? `${c.funded.profitSplitPercent}% every ${c.funded.payoutCycleDays}d${
+            c.funded.scaling ? ", scaling" : ""
+          }`
+        : "—",
+  },
+  { key: "winRate", label: "Win Rate", value: (c) => `${c.winRatePercent}%` },
+  { key: "rewardToRisk", label: "R:R", value: (c) => c.rewardToRiskRatio },
+  {
+    key: "riskPerTrade",
+    label: "Risk Per Trade",
+    value: (c) => `${c.riskPerTradePercent}%`,
+  },
+  {
+    key: "tradesPerWeek",
+    label: "Trades / Week",
+    value: (c) => c.tradesPerWeek,
+  },
+  {
+    key: "outcomes",
+    label: "Outcomes",
+    value: (c) => describeOutcomeTable(c.outcomes),
+  },
+  {
+    key: "sequence",
+    label: "Sequence",
+    value: (c) => describeSequence(c.sequence),
+  },
+  {
+    key: "winRateUncertainty",
+    label: "Win Rate Uncertainty",
+    value: (c) =>
+      describeUncertainty(c.winRateUncertainty ?? DEFAULT_WIN_RATE_UNCERTAINTY),
+  },
+  { key: "seed", label: "Seed", value: (c) => c.seed },
+];
+
+// Optional per-phase limits: an empty or zero input means none
+const optionalLimit = (value: string) =>
+  value === "" || Number(value) <= 0 ? undefined : Number(value);
+
+const SCENARIO_OUTPUTS: TableColumn<PropFirmJobResult>[] = [
+  ...PROP_FIRM_OUTCOMES.map((row) => ({
+    key: row.key,
+    label: row.label,
+    value: (r: PropFirmJobResult) =>
+      (r.results[row.key] / SIMULATION_ITERATIONS) * 100,
+    format: (v: number) => `${v.toFixed(1)}%`,
+  })),
+  {
+    key: "avgDays",
+    label: "Avg. Time to Pass",
+    // Trading days to calendar days, as in the summary below the chart
+    value: (r) =>
+      r.results.pass > 0 ? r.avgDays * CALENDAR_DAYS_PER_TRADING_DAY : NaN,
+    format: (v) => `${Math.round(v)} days`,
+  },
+  {
+    key: "avgTotalPayout",
+    label: "Avg. Total Payout",
+    value: (r) => r.funded?.avgTotalPayout ?? NaN,
+    format: formatMoney,
+  },
+  {
+    key: "blownPercent",
+    label: "Funded Lost",
+    value: (r) => r.funded?.blownPercent ?? NaN,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "fundedWithin",
+    label: "Funded (All Attempts)",
+    value: (r) => r.economics?.fundedWithinPercent.at(-1) ?? NaN,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+  {
+    key: "avgSpend",
+    label: "Avg. Fees Paid",
+    value: (r) => r.economics?.avgSpend ?? NaN,
+    format: formatMoney,
+  },
+  {
+    key: "avgNetProfit",
+    label: "Avg. Net Result",
+    value: (r) => r.economics?.avgNetProfit ?? NaN,
+    format: formatMoney,
+  },
+];
 
 const PropFirmEstimator: React.FC = () => {
   const [steps, setSteps] = useState(1);
-  const [config, setConfig] = useState<PropFirmConfig>({
+  const [ownConfig, setConfig] = useState<PropFirmConfig>({
     accountSize: 100000,
     steps: 1,
     phases: [
@@ -31,14 +259,13 @@ const PropFirmEstimator: React.FC = () => {
     rewardToRiskRatio: 2,
     riskPerTradePercent: 1,
     tradesPerWeek: 15,
+    seed: randomSeed(),
   });
+  const { config, uncertainty, setUncertainty, loadConfig } =
+    useWinRateUncertainty(ownConfig, setConfig);
 
-  const [results, setResults] = useState<
-    { name: string; value: number; color: string }[]
-  >([]);
-  const [passRate, setPassRate] = useState(0);
-  const [avgTime, setAvgTime] = useState(0);
   const [showLogicInfo, setShowLogicInfo] = useState(false);
+  const simJob = useComputeJob("propFirm");
 
   // Sync phase array size with step count
   useEffect(() => {
@@ -61,29 +288,66 @@ const PropFirmEstimator: React.FC = () => {
     });
   }, [steps]);
 
+  // Independent-trades baseline for the clustering comparison
+  const baselineJob = useComputeJob("propFirm");
   const handleSimulate = () => {
-    // Increased simulation count for better accuracy
-    const iterations = 2000;
-    const { results: res, avgDays } = runPropFirmSimulation(config, iterations);
-
-    const data = [
-      { name: "Pass", value: res.pass, color: "#10b981" },
-      { name: "Fail (Max DD)", value: res.failMaxDD, color: "#ef4444" },
-      { name: "Fail (Daily DD)", value: res.failDailyDD, color: "#f59e0b" },
-    ].filter((d) => d.value > 0);
-
-    setResults(data);
-    setPassRate((res.pass / iterations) * 100);
-
-    // Convert Trading Days (5/week) to Calendar Days (7/week) for display
-    // Formula: TradingDays * (7/5)
-    setAvgTime(avgDays * 1.4);
+    simJob.run({ config, iterations: SIMULATION_ITERATIONS });
+    if (config.sequence) {
+      baselineJob.run({
+        config: withIndependentTrades(config),
+        iterations: SIMULATION_ITERATIONS,
+      });
+    }
+  };
+  const runError = simJob.error ?? baselineJob.error;
+
+  const { results, passRate, avgTime } = useMemo(() => {
+    if (!simJob.result) return { results: [], passRate: 0, avgTime: 0 };
+    const { results: res, avgDays } = simJob.result;
+
+    const data = PROP_FIRM_OUTCOMES.map((row) => ({
+      name: row.label,
+      value: res[row.key],
+      color: row.color,
+    })).filter((d) => d.value > 0);
+
+    return {
+      results: data,
+      passRate: (res.pass / SIMULATION_ITERATIONS) * 100,
+      // Trading days to calendar days for display
+      avgTime: avgDays * CALENDAR_DAYS_PER_TRADING_DAY,
+    };
+  }, [simJob.result]);
+
+  const scenarios = useScenarios<PropFirmConfig, PropFirmJobResult>();
+  const pinned = scenarios.scenarios;
+  const overlayData = PROP_FIRM_OUTCOMES.map((row) => {
+    const entry: Record<string, string | number> = { name: row.label };
+    pinned.forEach((sc, i) => {
+      entry[`s${i}`] =
+        (sc.result.results[row.key] / SIMULATION_ITERATIONS) * 100;
+    });
+    return entry;
+  });
+
+  const loadScenario = (scenarioConfig: PropFirmConfig) => {
+    setSteps(scenarioConfig.steps);
+    loadConfig(scenarioConfig);
   };
 
-  const updatePhase = (
+  const applyRules = (rules: PropFirmRules) => {
+    setSteps(rules.steps);
+    setConfig(applyPresetRules(config, rules));
+  };
+
+  const retries = config.retries ?? NO_RETRIES;
+  const updateRetries = (patch: Partial<RetryPolicy>) =>
+    setConfig({ ...config, retries: { ...retries, ...patch } });
+
+  const updatePhase = <K extends keyof PhaseConfig>(
     index: number,
-    field: keyof PhaseConfig,
-    value: number
+    field: K,
+    value: PhaseConfig[K]
   ) => {
     const newPhases = [...config.phases];
     newPhases[index] = { ...newPhases[index], [field]: value };
@@ -117,7 +381,7 @@ const PropFirmEstimator: React.FC = () => {
     if (passRate >= 70)
       return {
         title: "Solid Probability",
-        color: "text-blue-400",                                                      
+        color: "text-blue-400",
         desc: "You have a strong edge, but variance ('bad luck') could still cause failure. Stick to your risk parameters.",
       };
     if (passRate >= 50)
@@ -161,22 +425,6 @@ const PropFirmEstimator: React.FC = () => {
           </div>
         </div>
 
-        <div className="space-y-3">
-          <label className="flex items-center gap-2 cursor-pointer">
-            <input
-              type="checkbox"
-              className="w-4 h-4 rounded border-slate-600 bg-dark-900 text-primary focus:ring-primary"
-              checked={config.isTrailingDrawdown}
-              onChange={(e) =>
-                setConfig({ ...config, isTrailingDrawdown: e.target.checked })
-              }
-            />
-            <span className="text-sm font-medium text-slate-300">
-              Trailing Drawdown
-            </span>
-          </label>
-        </div>
-
         {config.phases.map((phase, idx) => (
           <div
             key={idx}
@@ -223,9 +471,143 @@ const PropFirmEstimator: React.FC = () => {
                 }
               />
             </div>
+            <div className="grid grid-cols-3 gap-3">
+              <Input
+                label="Min Days"
+                type="number"
+                min={0}
+                placeholder="None"
+                value={phase.minTradingDays ?? ""}
+                onChange={(e) =>
+                  updatePhase(
+                    idx,
+                    "minTradingDays",
+                    optionalLimit(e.target.value)
+                  )
+                }
+              />
+              <Input
+                label="Time Limit"
+                type="number"
+                min={0}
+                placeholder="None"
+                value={phase.maxCalendarDays ?? ""}
+                onChange={(e) =>
+                  updatePhase(
+                    idx,
+                    "maxCalendarDays",
+                    optionalLimit(e.target.value)
+                  )
+                }
+                suffix="days"
+              />
+              <Input
+                label="Max Day Share"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="None"
+                value={phase.maxDayProfitSharePercent ?? ""}
+                onChange={(e) =>
+                  updatePhase(
+                    idx,
+                    "maxDayProfitSharePercent",
+                    optionalLimit(e.target.value)
+                  )
+                }
+                suffix="%"
+              />
+            </div>
+            <DrawdownRuleSelects
+              rules={phase}
+              isTrailingDrawdown={config.isTrailingDrawdown}
+              onChange={(patch) =>
+                setConfig({
+                  ...config,
+                  phases: config.phases.map((p, i) =>
+                    i === idx ? { ...p, ...patch } : p
+                  ),
+                })
+              }
+            />
           </div>
         ))}
 
+        <div className="border-t border-dark-700 pt-4 space-y-4">
+          <h4 className="text-sm font-semibold text-slate-300">
+            Challenge Economics
+          </h4>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Account Size"
+              type="number"
+              min={1}
+              value={config.accountSize}
+              onChange={(e) =>
+                setConfig({ ...config, accountSize: Number(e.target.value) })
+              }
+              suffix="$"
+            />
+            <Input
+              label="Challenge Fee"
+              type="number"
+              min={0}
+              placeholder="None"
+              value={config.challengeFee ?? ""}
+              onChange={(e) =>
+                setConfig({
+                  ...config,
+                  challengeFee: optionalLimit(e.target.value),
+                })
+              }
+              suffix="$"
+            />
+            <Input
+              label="Max Attempts"
+              type="number"
+              min={1}
+              value={retries.maxAttempts}
+              onChange={(e) =>
+                updateRetries({ maxAttempts: Number(e.target.value) })
+              }
+            />
+            <Input
+              label="Reset Fee"
+              type="number"
+              min={0}
+              placeholder="Same as fee"
+              value={retries.resetFee ?? ""}
+              onChange={(e) =>
+                updateRetries({ resetFee: optionalLimit(e.target.value) })
+              }
+              suffix="$"
+            />
+            <Input
+              label="Retry Discount"
+              type="number"
+              min={0}
+              max={100}
+              value={retries.discountPercent}
+              onChange={(e) =>
+                updateRetries({ discountPercent: Number(e.target.value) })
+              }
+              suffix="%"
+            />
+          </div>
+          <p className="text-xs text-slate-500">
+            Each failed attempt is retried at the reset fee (or the challenge
+            fee again) less the discount, up to the max attempts.
+          </p>
+        </div>
+
+        <div className="border-t border-dark-700 pt-4 space-y-4">
+          <FundedStageEditor
+            funded={config.funded}
+            onChange={(funded) => setConfig({ ...config, funded })}
+            isTrailingDrawdown={config.isTrailingDrawdown}
+          />
+        </div>
+
         <div className="border-t border-dark-700 pt-4 space-y-4">
           <h4 className="text-sm font-semibold text-slate-300">
             Trader Performance
@@ -280,9 +662,48 @@ const PropFirmEstimator: React.FC = () => {
           </div>
         </div>
 
+        <SequenceModelEditor
+          sequence={config.sequence}
+          onChange={(sequence) => setConfig({ ...config, sequence })}
+        />
+
+        <OutcomeTableEditor
+          outcomes={config.outcomes}
+          onChange={(outcomes) => setConfig({ ...config, outcomes })}
+        />
+
+        <WinRateUncertaintyEditor
+          uncertainty={uncertainty}
+          onChange={setUncertainty}
+          winRatePercent={
+            describeOutcomes(
+              resolveOutcomes(
+                config.winRatePercent,
+                config.rewardToRiskRatio,
+                config.outcomes
+              )
+            ).winRate
+          }
+        />
+
+        <SeedInput
+          seed={config.seed}
+          onSeedChange={(seed) => setConfig({ ...config, seed })}
+        />
+
         <Button onClick={handleSimulate} fullWidth>
-          Run Simulation
+          Re-run (Same Seed)
         </Button>
+        <ProgressBar
+          progress={simJob.progress}
+          isRunning={simJob.isRunning}
+          onCancel={simJob.cancel}
+        />
+        {runError && (
+          <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+            {runError}
+          </div>
+        )}
       </Card>
 
       <Card
@@ -328,6 +749,29 @@ const PropFirmEstimator: React.FC = () => {
                   ensuring the pass rate reflects realistic market fluctuations,
                   not just a static theoretical win rate.
                 </li>
+                <li>
+                  <strong>Drawdown Rules:</strong> Each phase uses its own total
+                  and daily drawdown rule. Trades close within the day, so
+                  "equity" is the day's running high.
+                </li>
+                <li>
+                  <strong>Time & Consistency:</strong> Min days count days with
+                  at least one trade; the time limit is in calendar days (5
+                  trading days a week). Max day share fails a challenge whose
+                  best day is above that share of the profit when the target is
+                  hit.
+                </li>
+                <li>
+                  <strong>Retries:</strong> With a fee or retries set, each
+                  simulated trader buys attempts until one passes; the pie shows
+                  first attempts only.
+                </li>
+                <li>
+                  <strong>Funded Stage:</strong> Passed attempts keep trading
+                  the same edge on the funded account. Each payout date pays out
+                  the split of any profit and resets the account; breaking a
+                  drawdown limit ends it.
+                </li>
               </ul>
             </div>
           )}
@@ -420,7 +864,117 @@ const PropFirmEstimator: React.FC = () => {
             </div>
           </div>
         </div>
+
+        {config.sequence && simJob.result && baselineJob.result && (
+          <div className="mt-4 bg-dark-900 p-4 rounded-lg border border-dark-700">
+            <div className="text-xs text-slate-400 uppercase mb-2">
+              Clustered vs Independent Trades
+            </div>
+            <table className="w-full text-sm">
+              <tbody className="font-mono">
+                {PROP_FIRM_OUTCOMES.map((row) => {
+                  const key = row.key;
+                  const pct = (n: number) =>
+                    `${((n / SIMULATION_ITERATIONS) * 100).toFixed(1)}%`;
+                  return (
+                    <tr key={row.key} className="border-b border-dark-700/50">
+                      <td className="py-1.5 font-sans text-slate-400">
+                        {row.label}
+                      </td>
+                      <td className="py-1.5 text-right text-slate-100">
+                        {pct(simJob.result!.results[key])}
+                      </td>
+                      <td className="py-1.5 text-right text-slate-400">
+                        {pct(baselineJob.result!.results[key])}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <div className="text-xs text-slate-500 mt-2">
+              Left: with the sequence model. Right: independent trades at the
+              same long-run win rate and seed.
+            </div>
+          </div>
+        )}
       </Card>
+
+      {simJob.result && (
+        <PropFirmBreakdownPanel
+          className="lg:col-span-3"
+          result={simJob.result}
+          iterations={SIMULATION_ITERATIONS}
+        />
+      )}
+
+      {simJob.result?.funded && simJob.resultArgs?.config.funded && (
+        <FundedStagePanel
+          className="lg:col-span-3"
+          summary={simJob.result.funded}
+          funded={simJob.resultArgs.config.funded}
+          passRate={passRate}
+        />
+      )}
+
+      {simJob.result?.economics && (
+        <ChallengeEconomicsPanel
+          className="lg:col-span-3"
+          summary={simJob.result.economics}
+          hasFundedStage={simJob.resultArgs?.config.funded !== undefined}
+        />
+      )}
+
+      <PropFirmPresetPanel
+        className="lg:col-span-3"
+        config={config}
+        onApply={applyRules}
+      />
+
+      <ScenarioComparison
+        className="lg:col-span-3"
+        scenarios={pinned}
+        parameters={SCENARIO_PARAMETERS}
+        outputs={SCENARIO_OUTPUTS}
+        canPin={simJob.result !== null && simJob.resultArgs !== null}
+        onPin={(name) =>
+          scenarios.pin(name, simJob.resultArgs!.config, simJob.result!)
+        }
+        onRemove={scenarios.remove}
+        onLoad={loadScenario}
+      >
+        <div className="h-[250px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={overlayData}>
+              <XAxis
+                dataKey="name"
+                stroke="#94a3b8"
+                fontSize={12}
+                tickLine={false}
+              />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} unit="%" />
+              <Tooltip
+                cursor={{ fill: "#334155", opacity: 0.2 }}
+                contentStyle={{
+                  backgroundColor: "#1e293b",
+                  borderColor: "#334155",
+                  color: "#f8fafc",
+                }}
+                formatter={(val: number) => `${val.toFixed(1)}%`}
+              />
+              {pinned.map((sc, i) => (
+                <Bar
+                  key={sc.id}
+                  dataKey={`s${i}`}
+                  name={sc.name}
+                  fill={SCENARIO_COLORS[i]}
+                  radius={[4, 4, 0, 0]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </ScenarioComparison>
     </div>
   );
 };
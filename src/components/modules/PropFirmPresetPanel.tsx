@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import { Card } from "../ui/Card";
+import { Input } from "../ui/Input";
+import { Button } from "../ui/Button";
+import { usePropFirmPresets } from "../../hooks/usePropFirmPresets";
+import {
+  diffPresetRules,
+  exportPresets,
+  presetRules,
+} from "../../services/propFirmPresets";
+import type {
+  PropFirmConfig,
+  PropFirmPreset,
+  PropFirmRules,
+} from "../../types";
+
+interface PropFirmPresetPanelProps {
+  config: PropFirmConfig;
+  onApply: (rules: PropFirmRules) => void;
+  className?: string;
+}
+
+const selectClass =
+  "w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-slate-100";
+
+const downloadJson = (fileName: string, text: string) => {
+  const url = URL.createObjectURL(
+    new Blob([text], { type: "application/json" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const PresetSelect: React.FC<{
+  presets: PropFirmPreset[];
+  value: string;
+  onChange: (name: string) => void;
+}> = ({ presets, value, onChange }) => (
+  <select
+    className={selectClass}
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+  >
+    <optgroup label="Built-in">
+      {presets
+        .filter((p) => p.isBuiltIn)
+        .map((p) => (
+          <option key={p.name} value={p.name}>
+            {p.name}
+          </option>
+        ))}
+    </optgroup>
+    {presets.some((p) => !p.isBuiltIn) && (
+      <optgroup label="My Presets">
+        {presets
+          .filter((p) => !p.isBuiltIn)
+          .map((p) => (
+            <option key={p.name} value={p.name}>
+              {p.name}
+            </option>
+          ))}
+      </optgroup>
+    )}
+  </select>
+);
+
+// Named challenge rules: apply, save, import / export and compare them
+const PropFirmPresetPanel: React.FC<PropFirmPresetPanelProps> = ({
+  config,
+  onApply,
+  className = "",
+}) => {
+  const library = usePropFirmPresets();
+  const { presets } = library;
+  const [selected, setSelected] = useState(presets[0].name);
+  const [compareA, setCompareA] = useState(presets[0].name);
+  const [compareB, setCompareB] = useState(presets[1].name);
+  const [saveName, setSaveName] = useState("");
+  const [message, setMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(
+    library.loadProblems.length > 0
+      ? {
+          text: `Some saved presets were skipped. ${library.loadProblems.join(
+            " "
+          )}`,
+          isError: true,
+        }
+      : null
+  );
+
+  // Fall back to the first preset when the chosen one was deleted
+  const find = (name: string) =>
+    presets.find((p) => p.name === name) ?? presets[0];
+  const current = find(selected);
+  const diffRows = diffPresetRules(find(compareA).rules, find(compareB).rules);
+
+  const handleSave = () => {
+    try {
+      const preset = library.save(saveName, presetRules(config));
+      setSelected(preset.name);
+      setSaveName("");
+      setMessage({ text: `Saved "${preset.name}".`, isError: false });
+    } catch (err) {
+      setMessage({
+        text: err instanceof Error ? err.message : "Save failed.",
+        isError: true,
+      });
+    }
+  };
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        const imported = library.importFile(event.target?.result as string);
+        setMessage({
+          text: `Imported ${imported.length} preset${
+            imported.length === 1 ? "" : "s"
+          }.`,
+          isError: false,
+        });
+        if (imported.length > 0) setSelected(imported[0].name);
+      } catch (err) {
+        setMessage({
+          text: err instanceof Error ? err.message : "Import failed.",
+          isError: true,
+        });
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <Card title="Rule Presets" className={className}>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+              Preset
+            </label>
+            <div className="flex gap-2">
+              <PresetSelect
+                presets={presets}
+                value={current.name}
+                onChange={setSelected}
+              />
+              <Button onClick={() => onApply(current.rules)}>Apply</Button>
+              {!current.isBuiltIn && (
+                <Button
+                  variant="ghost"
+                  onClick={() => library.remove(current.name)}
+                >
+                  Delete
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-slate-500">
+              {current.description ??
+                `${
+                  current.rules.steps
+                }-step, $${current.rules.accountSize.toLocaleString()}`}
+            </p>
+          </div>
+
+          <div className="flex gap-2 items-end">
+            <div className="flex-1">
+              <Input
+                label="Save Current Rules As"
+                value={saveName}
+                placeholder="e.g. My Firm 2-Step"
+                onChange={(e) => setSaveName(e.target.value)}
+              />
+            </div>
+            <Button variant="secondary" onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+
+          <div className="flex gap-2">
+            <label className="px-4 py-2 rounded-lg font-medium bg-dark-700 hover:bg-dark-600 text-slate-200 border border-dark-600 cursor-pointer text-center flex-1">
+              Import…
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleImport}
+              />
+            </label>
+            <Button
+              variant="ghost"
+              className="flex-1"
+              disabled={library.saved.length === 0}
+              onClick={() =>
+                downloadJson(
+                  "prop-firm-presets.json",
+                  exportPresets(library.saved)
+                )
+              }
+            >
+              Export My Presets
+            </Button>
+          </div>
+          {message && (
+            <div
+              className={`p-3 rounded-lg text-sm border ${
+                message.isError
+                  ? "bg-rose-500/10 border-rose-500/20 text-rose-400"
+                  : "bg-emerald-500/10 border-emerald-500/20 text-emerald-400"
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+          <p className="text-xs text-slate-500">
+            * Presets hold the firm's rules only: account size and each phase's
+            targets and drawdown rules. Your own presets are kept in this
+            browser; the export is a{" "}
+            <span className="font-mono">kye-prop-firm-presets</span> JSON file
+            that can be edited and imported elsewhere.
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <PresetSelect
+              presets={presets}
+              value={find(compareA).name}
+              onChange={setCompareA}
+            />
+            <PresetSelect
+              presets={presets}
+              value={find(compareB).name}
+              onChange={setCompareB}
+            />
+          </div>
+          <table className="w-full text-sm">
+            <tbody className="font-mono">
+              {diffRows.map((row) => (
+                <tr
+                  key={row.label}
+                  className={`border-b border-dark-700/50 ${
+                    row.differs ? "bg-amber-500/10" : ""
+                  }`}
+                >
+                  <td
+                    className={`py-1.5 px-2 font-sans ${
+                      row.differs ? "text-amber-300" : "text-slate-400"
+                    }`}
+                  >
+                    {row.label}
+                  </td>
+                  {[row.a, row.b].map((v, i) => (
+                    <td
+                      key={i}
+                      className={`py-1.5 px-2 text-right ${
+                        row.differs ? "text-amber-200" : "text-slate-500"
+                      }`}
+                    >
+                      {v}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <div className="text-xs text-slate-500">
+            * Highlighted rows are the rules that differ.
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default PropFirmPresetPanel;
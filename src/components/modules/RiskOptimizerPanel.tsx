@@ -0,0 +1,274 @@
+import React, { useState } from "react";
+import {
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+  ResponsiveContainer,
+} from "recharts";
+import { Card } from "../ui/Card";
+import { Input } from "../ui/Input";
+import { Button } from "../ui/Button";
+import { ProgressBar } from "../ui/ProgressBar";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import type {
+  RiskConstraint,
+  RiskOptimizerConfig,
+  SimulationConfig,
+} from "../../types";
+
+interface RiskOptimizerPanelProps {
+  config: SimulationConfig;
+  onApplyRisk: (riskPercent: number) => void;
+}
+
+const CONSTRAINTS: { id: RiskConstraint["type"]; label: string }[] = [
+  { id: "MAX_DRAWDOWN", label: "95th Pct. Max DD" },
+  { id: "RUIN", label: "Risk of Ruin" },
+];
+
+// Sweeps risk per trade and finds the fastest-growing level that stays
+// inside a drawdown or ruin limit
+const RiskOptimizerPanel: React.FC<RiskOptimizerPanelProps> = ({
+  config,
+  onApplyRisk,
+}) => {
+  const [optimizer, setOptimizer] = useState<
+    Omit<RiskOptimizerConfig, "constraint">
+  >({ minRiskPercent: 0.25, maxRiskPercent: 10, steps: 20 });
+  // Limits of both constraint types, so switching keeps the user's values
+  const [limits, setLimits] = useState({ MAX_DRAWDOWN: 20, RUIN: 1 });
+  const [constraintType, setConstraintType] =
+    useState<RiskConstraint["type"]>("MAX_DRAWDOWN");
+
+  const optimizerJob = useComputeJob("riskOptimizer");
+  const result = optimizerJob.result;
+
+  const constraint: RiskConstraint =
+    constraintType === "MAX_DRAWDOWN"
+      ? { type: "MAX_DRAWDOWN", p95MaxDrawdownPercent: limits.MAX_DRAWDOWN }
+      : { type: "RUIN", maxRuinPercent: limits.RUIN };
+
+  const runOptimizer = () =>
+    optimizerJob.run({ config, optimizer: { ...optimizer, constraint } });
+
+  const handleInput = (key: keyof typeof optimizer, val: string) => {
+    setOptimizer({ ...optimizer, [key]: Number(val) });
+  };
+
+  // Growth within the limit as its own series, drawn over the full curve
+  const chartData =
+    result?.points.map((p) => ({
+      ...p,
+      feasibleGrowth: p.feasible ? p.medianGrowthPercent : null,
+    })) ?? [];
+
+  return (
+    <Card title="Risk Per Trade Optimizer">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2 bg-dark-900 p-1 rounded-lg border border-dark-700">
+            {CONSTRAINTS.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setConstraintType(c.id)}
+                className={`py-1.5 text-sm font-medium rounded-md transition-all ${
+                  constraintType === c.id
+                    ? "bg-primary text-white shadow-lg"
+                    : "text-slate-400 hover:text-white"
+                }`}
+              >
+                {c.label}
+              </button>
+            ))}
+          </div>
+          <Input
+            label={
+              constraintType === "MAX_DRAWDOWN"
+                ? "95th Pct. Max DD At Most"
+                : "Risk of Ruin At Most"
+            }
+            type="number"
+            step="0.5"
+            value={limits[constraintType]}
+            onChange={(e) =>
+              setLimits({ ...limits, [constraintType]: Number(e.target.value) })
+            }
+            suffix="%"
+          />
+          <div className="grid grid-cols-3 gap-4">
+            <Input
+              label="From"
+              type="number"
+              step="0.25"
+              value={optimizer.minRiskPercent}
+              onChange={(e) => handleInput("minRiskPercent", e.target.value)}
+              suffix="%"
+            />
+            <Input
+              label="To"
+              type="number"
+              step="0.25"
+              value={optimizer.maxRiskPercent}
+              onChange={(e) => handleInput("maxRiskPercent", e.target.value)}
+              suffix="%"
+            />
+            <Input
+              label="Steps"
+              type="number"
+              min={2}
+              value={optimizer.steps}
+              onChange={(e) => handleInput("steps", e.target.value)}
+            />
+          </div>
+          <Button onClick={runOptimizer} fullWidth>
+            Optimize Risk
+          </Button>
+          <ProgressBar
+            progress={optimizerJob.progress}
+            isRunning={optimizerJob.isRunning}
+            onCancel={optimizerJob.cancel}
+          />
+          {optimizerJob.error && (
+            <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+              {optimizerJob.error}
+            </div>
+          )}
+
+          {result && (
+            <div className="p-3 bg-dark-900 rounded-lg border border-dark-700 text-sm space-y-1">
+              {result.best ? (
+                <>
+                  <div className="text-slate-400">
+                    Optimal Risk:{" "}
+                    <span className="font-bold text-emerald-400">
+                      {result.best.riskPercent.toFixed(2)}%
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    Median growth {result.best.medianGrowthPercent.toFixed(3)}%
+                    per trade · 95th pct. DD{" "}
+                    {result.best.p95MaxDrawdownPercent.toFixed(1)}% · Ruin{" "}
+                    {result.best.ruinProbability.toFixed(1)}%
+                  </div>
+                  <button
+                    className="text-xs text-primary hover:text-blue-400"
+                    onClick={() => onApplyRisk(result.best!.riskPercent)}
+                  >
+                    Use this risk
+                  </button>
+                </>
+              ) : (
+                <div className="text-rose-400">
+                  No risk level in the range meets the limit.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-2 space-y-2">
+          <div className="h-[300px]">
+            {result && (
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+                  <XAxis
+                    dataKey="riskPercent"
+                    type="number"
+                    domain={["dataMin", "dataMax"]}
+                    stroke="#94a3b8"
+                    fontSize={12}
+                    tickLine={false}
+                    tickFormatter={(v) => `${v}%`}
+                  />
+                  <YAxis
+                    stroke="#94a3b8"
+                    fontSize={12}
+                    tickLine={false}
+                    tickFormatter={(v) => `${v.toFixed(2)}%`}
+                  />
+                  <Tooltip
+                    contentStyle={{
+                      backgroundColor: "#1e293b",
+                      borderColor: "#334155",
+                      color: "#f8fafc",
+                    }}
+                    labelFormatter={(v) => `Risk ${Number(v).toFixed(2)}%`}
+                    formatter={(value: number, name: string) => [
+                      `${value.toFixed(3)}%`,
+                      name,
+                    ]}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="medianGrowthPercent"
+                    name="Growth / Trade"
+                    stroke="#64748b"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="feasibleGrowth"
+                    name="Within Limit"
+                    stroke="#10b981"
+                    strokeWidth={3}
+                    dot={false}
+                    connectNulls={false}
+                    isAnimationActive={false}
+                  />
+                  <ReferenceLine
+                    x={result.fullKellyPercent}
+                    stroke="#ef4444"
+                    strokeDasharray="4 3"
+                    label={{
+                      value: "Full Kelly",
+                      fill: "#ef4444",
+                      fontSize: 11,
+                      position: "top",
+                    }}
+                  />
+                  <ReferenceLine
+                    x={result.halfKellyPercent}
+                    stroke="#f59e0b"
+                    strokeDasharray="4 3"
+                    label={{
+                      value: "Half Kelly",
+                      fill: "#f59e0b",
+                      fontSize: 11,
+                      position: "top",
+                    }}
+                  />
+                  {result.best && (
+                    <ReferenceLine
+                      x={result.best.riskPercent}
+                      stroke="#10b981"
+                      label={{
+                        value: "Optimal",
+                        fill: "#10b981",
+                        fontSize: 11,
+                        position: "insideBottom",
+                      }}
+                    />
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            * Fixed-fractional sizing on the current seed. Growth is the
+            per-trade geometric growth of the median run; past full Kelly it
+            falls while drawdowns keep rising.
+          </p>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export default RiskOptimizerPanel;
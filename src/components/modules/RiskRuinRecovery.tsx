@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   BarChart,
   Bar,
@@ -11,29 +11,88 @@ import {
 import { Card } from "../ui/Card";
 import { Slider } from "../ui/Slider";
 import { Input } from "../ui/Input";
+import { SeedInput } from "../ui/SeedInput";
+import { OutcomeTableEditor } from "../ui/OutcomeTableEditor";
+import { WinRateUncertaintyEditor } from "../ui/WinRateUncertaintyEditor";
+import { ProgressBar } from "../ui/ProgressBar";
+import { ScenarioComparison } from "../ui/ScenarioComparison";
+import type { ScenarioParameter } from "../ui/ScenarioComparison";
+import type { TableColumn } from "../ui/SortableTable";
+import { calculateStreakProb } from "../../services/mathUtils";
+import { randomSeed } from "../../services/random";
+import { resolveOutcomes, describeOutcomes } from "../../services/outcomes";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import { useScenarios } from "../../hooks/useScenarios";
+import { useWinRateUncertainty } from "../../hooks/useWinRateUncertainty";
+import { DEFAULT_WIN_RATE_UNCERTAINTY } from "../../services/uncertainty";
 import {
-  calculateRiskOfRuinMonteCarlo,
-  calculateStreakProb,
-} from "../../services/mathUtils";
+  SCENARIO_COLORS,
+  describeOutcomeTable,
+  describeUncertainty,
+} from "../../services/scenarios";
+import type { RiskOfRuinConfig } from "../../types";
+
+const SCENARIO_PARAMETERS: ScenarioParameter<RiskOfRuinConfig>[] = [
+  { key: "winRate", label: "Win Rate", value: (c) => `${c.winRate}%` },
+  { key: "rewardRisk", label: "Risk:Reward", value: (c) => c.rewardRisk },
+  {
+    key: "riskPerTrade",
+    label: "Risk Per Trade",
+    value: (c) => `${c.riskPerTrade}%`,
+  },
+  {
+    key: "outcomes",
+    label: "Outcomes",
+    value: (c) => describeOutcomeTable(c.outcomes),
+  },
+  {
+    key: "winRateUncertainty",
+    label: "Win Rate Uncertainty",
+    value: (c) =>
+      describeUncertainty(c.winRateUncertainty ?? DEFAULT_WIN_RATE_UNCERTAINTY),
+  },
+  { key: "seed", label: "Seed", value: (c) => c.seed },
+];
+
+const SCENARIO_OUTPUTS: TableColumn<number>[] = [
+  {
+    key: "ruin",
+    label: "Risk of Ruin",
+    value: (r) => r,
+    format: (v) => `${v.toFixed(1)}%`,
+  },
+];
 
 const RiskRuinRecovery: React.FC = () => {
-  const [ruinInputs, setRuinInputs] = useState({
+  const [ownRuinInputs, setRuinInputs] = useState<RiskOfRuinConfig>({
     winRate: 40,
     rewardRisk: 2,
     riskPerTrade: 2,
+    seed: randomSeed(),
   });
+  const {
+    config: ruinInputs,
+    uncertainty,
+    setUncertainty,
+    loadConfig,
+  } = useWinRateUncertainty(ownRuinInputs, setRuinInputs);
   const [streakInputs, setStreakInputs] = useState({
     winRate: 50,
     totalTrades: 100,
   });
   const [showTooltip, setShowTooltip] = useState(false);
 
-  // Using Monte Carlo for accuracy
-  const riskOfRuin = calculateRiskOfRuinMonteCarlo(
-    ruinInputs.winRate,
-    ruinInputs.rewardRisk,
-    ruinInputs.riskPerTrade
-  );
+  // Using Monte Carlo for accuracy, off the main thread so sliders stay smooth
+  const ruinJob = useComputeJob("ruin");
+  const { run: runRuinJob } = ruinJob;
+  useEffect(() => {
+    const t = setTimeout(() => runRuinJob(ruinInputs), 300);
+    return () => clearTimeout(t);
+  }, [ruinInputs, runRuinJob]);
+  const riskOfRuin = ruinJob.result ?? 0;
+
+  const scenarios = useScenarios<RiskOfRuinConfig, number>();
+  const pinned = scenarios.scenarios;
 
   // Recovery Data
   const recoveryData = [10, 20, 30, 40, 50, 60, 70, 80, 90].map((loss) => ({
@@ -107,7 +166,9 @@ const RiskRuinRecovery: React.FC = () => {
               >
                 <div className="text-center">
                   <div className="text-3xl font-bold text-white">
-                    {riskOfRuin.toFixed(1)}%
+                    {ruinJob.result !== null
+                      ? `${riskOfRuin.toFixed(1)}%`
+                      : "--"}
                   </div>
                   <div className="text-xs text-slate-400">Chance of Ruin</div>
                 </div>
@@ -140,6 +201,38 @@ const RiskRuinRecovery: React.FC = () => {
                   }
                 />
               </div>
+              <OutcomeTableEditor
+                outcomes={ruinInputs.outcomes}
+                onChange={(outcomes) =>
+                  setRuinInputs({ ...ruinInputs, outcomes })
+                }
+              />
+              <WinRateUncertaintyEditor
+                uncertainty={uncertainty}
+                onChange={setUncertainty}
+                winRatePercent={
+                  describeOutcomes(
+                    resolveOutcomes(
+                      ruinInputs.winRate,
+                      ruinInputs.rewardRisk,
+                      ruinInputs.outcomes
+                    )
+                  ).winRate
+                }
+              />
+              <SeedInput
+                seed={ruinInputs.seed}
+                onSeedChange={(seed) => setRuinInputs({ ...ruinInputs, seed })}
+              />
+              <ProgressBar
+                progress={ruinJob.progress}
+                isRunning={ruinJob.isRunning}
+              />
+              {ruinJob.error && (
+                <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+                  {ruinJob.error}
+                </div>
+              )}
             </div>
           </div>
         </Card>
@@ -220,6 +313,51 @@ const RiskRuinRecovery: React.FC = () => {
         </Card>
       </div>
 
+      <ScenarioComparison
+        scenarios={pinned}
+        parameters={SCENARIO_PARAMETERS}
+        outputs={SCENARIO_OUTPUTS}
+        canPin={ruinJob.result !== null && ruinJob.resultArgs !== null}
+        onPin={(name) =>
+          scenarios.pin(name, ruinJob.resultArgs!, ruinJob.result!)
+        }
+        onRemove={scenarios.remove}
+        onLoad={loadConfig}
+      >
+        <div className="h-[200px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={pinned.map((sc) => ({ name: sc.name, ruin: sc.result }))}
+            >
+              <XAxis
+                dataKey="name"
+                stroke="#94a3b8"
+                fontSize={12}
+                tickLine={false}
+              />
+              <YAxis stroke="#94a3b8" fontSize={12} tickLine={false} unit="%" />
+              <Tooltip
+                cursor={{ fill: "#334155", opacity: 0.2 }}
+                contentStyle={{
+                  backgroundColor: "#1e293b",
+                  borderColor: "#334155",
+                  color: "#f8fafc",
+                }}
+                formatter={(val: number) => [
+                  `${val.toFixed(1)}%`,
+                  "Risk of Ruin",
+                ]}
+              />
+              <Bar dataKey="ruin" radius={[4, 4, 0, 0]}>
+                {pinned.map((sc, i) => (
+                  <Cell key={sc.id} fill={SCENARIO_COLORS[i]} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </ScenarioComparison>
+
       {/* Drawdown Recovery */}
       <Card title="The Mathematics of Recovery">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 items-center">
@@ -0,0 +1,417 @@
+import React, { useState } from "react";
+import { Card } from "../ui/Card";
+import { Input } from "../ui/Input";
+import { Button } from "../ui/Button";
+import { SeedInput } from "../ui/SeedInput";
+import { ProgressBar } from "../ui/ProgressBar";
+import { WinRateUncertaintyEditor } from "../ui/WinRateUncertaintyEditor";
+import { useComputeJob } from "../../hooks/useComputeJob";
+import { useWinRateUncertainty } from "../../hooks/useWinRateUncertainty";
+import { randomSeed } from "../../services/random";
+import {
+  SENSITIVITY_METRICS,
+  SENSITIVITY_PARAMETERS,
+} from "../../services/sensitivity";
+import type {
+  SensitivityAxis,
+  SensitivityBase,
+  SensitivityMetric,
+  SensitivityParameter,
+} from "../../types";
+
+const selectClass =
+  "w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-slate-100";
+
+const defaultAxis = (parameter: SensitivityParameter): SensitivityAxis => {
+  const { min, max, steps } = SENSITIVITY_PARAMETERS[parameter];
+  return { parameter, min, max, steps };
+};
+
+const formatMetric = (metric: SensitivityMetric, value: number) =>
+  metric === "EXPECTANCY" ? `${value.toFixed(2)}R` : `${value.toFixed(1)}%`;
+
+// Red (bad) to green (good) along the range of values in the grid
+const cellColor = (t: number) => `hsl(${Math.round(t * 140)}, 60%, 32%)`;
+
+interface AxisEditorProps {
+  title: string;
+  axis: SensitivityAxis;
+  // The other axis' parameter, which can't be picked twice
+  otherParameter: SensitivityParameter;
+  onChange: (axis: SensitivityAxis) => void;
+}
+
+const AxisEditor: React.FC<AxisEditorProps> = ({
+  title,
+  axis,
+  otherParameter,
+  onChange,
+}) => (
+  <div className="space-y-2">
+    <label className="text-xs font-medium text-slate-400 uppercase">
+      {title}
+    </label>
+    <select
+      className={selectClass}
+      value={axis.parameter}
+      onChange={(e) =>
+        onChange(defaultAxis(e.target.value as SensitivityParameter))
+      }
+    >
+      {Object.entries(SENSITIVITY_PARAMETERS).map(([key, p]) => (
+        <option key={key} value={key} disabled={key === otherParameter}>
+          {p.label}
+        </option>
+      ))}
+    </select>
+    <div className="grid grid-cols-3 gap-2">
+      <Input
+        label="From"
+        type="number"
+        value={axis.min}
+        onChange={(e) => onChange({ ...axis, min: Number(e.target.value) })}
+      />
+      <Input
+        label="To"
+        type="number"
+        value={axis.max}
+        onChange={(e) => onChange({ ...axis, max: Number(e.target.value) })}
+      />
+      <Input
+        label="Steps"
+        type="number"
+        min={2}
+        value={axis.steps}
+        onChange={(e) => onChange({ ...axis, steps: Number(e.target.value) })}
+      />
+    </div>
+  </div>
+);
+
+const SensitivityExplorer: React.FC = () => {
+  const [ownBase, setBase] = useState<SensitivityBase>({
+    winRatePercent: 45,
+    rewardToRiskRatio: 2,
+    riskPerTradePercent: 1,
+    tradesPerWeek: 15,
+    accountSize: 100000,
+    horizonWeeks: 8,
+    simulationsPerCell: 200,
+    phase: {
+      profitTargetPercent: 10,
+      maxTotalDrawdownPercent: 10,
+      maxDailyDrawdownPercent: 5,
+    },
+    seed: randomSeed(),
+  });
+  const {
+    config: base,
+    uncertainty,
+    setUncertainty,
+  } = useWinRateUncertainty(ownBase, setBase);
+  const [x, setX] = useState(defaultAxis("winRatePercent"));
+  const [y, setY] = useState(defaultAxis("rewardToRiskRatio"));
+  const [metric, setMetric] = useState<SensitivityMetric>("MEDIAN_RETURN");
+
+  const gridJob = useComputeJob("sensitivity");
+  const result = gridJob.result;
+  // Axes and metric the shown result was computed for, which lag behind the
+  // settings until a new grid arrives
+  const shown = gridJob.resultArgs;
+
+  const runGrid = () => gridJob.run({ base, x, y, metric });
+
+  const handleBase = (key: keyof SensitivityBase, val: string) => {
+    setBase({ ...base, [key]: Number(val) });
+  };
+
+  const handlePhase = (key: keyof SensitivityBase["phase"], val: string) => {
+    setBase({ ...base, phase: { ...base.phase, [key]: Number(val) } });
+  };
+
+  // Cell closest to the base settings on each axis
+  const nearestIndex = (values: number[], target: number) =>
+    values.reduce(
+      (best, v, i) =>
+        Math.abs(v - target) < Math.abs(values[best] - target) ? i : best,
+      0
+    );
+
+  const renderHeatmap = () => {
+    if (!result || !shown) return null;
+    const { xValues, yValues, values, expectancies } = result;
+    const flat = values.flat();
+    const min = Math.min(...flat);
+    const max = Math.max(...flat);
+    const { higherIsBetter } = SENSITIVITY_METRICS[shown.metric];
+    const score = (v: number) => {
+      const t = max > min ? (v - min) / (max - min) : 0.5;
+      return higherIsBetter ? t : 1 - t;
+    };
+
+    const currentX = nearestIndex(xValues, base[shown.x.parameter]);
+    const currentY = nearestIndex(yValues, base[shown.y.parameter]);
+    const xMeta = SENSITIVITY_PARAMETERS[shown.x.parameter];
+    const yMeta = SENSITIVITY_PARAMETERS[shown.y.parameter];
+
+    // Highest y first so the grid reads like a chart
+    const rows = yValues.map((_, i) => yValues.length - 1 - i);
+    const frontier = "2px solid #f8fafc";
+
+    return (
+      <div className="overflow-x-auto">
+        <div
+          className="grid gap-0 text-xs font-mono"
+          style={{
+            gridTemplateColumns: `auto repeat(${xValues.length}, minmax(48px, 1fr))`,
+          }}
+        >
+          {rows.map((yi) => (
+            <React.Fragment key={yi}>
+              <div className="pr-2 py-2 text-right text-slate-400">
+                {yValues[yi]}
+                {yMeta.suffix}
+              </div>
+              {xValues.map((_, xi) => {
+                const positive = expectancies[yi][xi] > 0;
+                // Breakeven frontier: edges where expectancy changes sign
+                const flipsRight =
+                  xi < xValues.length - 1 &&
+                  positive !== expectancies[yi][xi + 1] > 0;
+                const flipsUp =
+                  yi < yValues.length - 1 &&
+                  positive !== expectancies[yi + 1][xi] > 0;
+                const isCurrent = xi === currentX && yi === currentY;
+                return (
+                  <div
+                    key={xi}
+                    className={`py-2 text-center text-slate-100 ${
+                      isCurrent ? "ring-2 ring-inset ring-white font-bold" : ""
+                    }`}
+                    style={{
+                      backgroundColor: cellColor(score(values[yi][xi])),
+                      borderRight: flipsRight ? frontier : undefined,
+                      borderTop: flipsUp ? frontier : undefined,
+                    }}
+                    title={`${xMeta.label} ${xValues[xi]}${xMeta.suffix}, ${yMeta.label} ${yValues[yi]}${yMeta.suffix}`}
+                  >
+                    {formatMetric(shown.metric, values[yi][xi])}
+                  </div>
+                );
+              })}
+            </React.Fragment>
+          ))}
+          <div />
+          {xValues.map((v) => (
+            <div key={v} className="pt-2 text-center text-slate-400">
+              {v}
+              {xMeta.suffix}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-slate-400 mt-2">
+          <span>
+            ↑ {yMeta.label} · → {xMeta.label}
+          </span>
+          <span>
+            <span className="inline-block w-3 h-0.5 bg-slate-100 align-middle mr-1" />
+            Breakeven frontier ·{" "}
+            <span className="inline-block w-3 h-3 ring-2 ring-white align-middle mr-1" />
+            Current settings
+          </span>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      <div className="lg:col-span-1 space-y-6">
+        <Card title="Grid Settings" className="h-fit">
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <label className="text-xs font-medium text-slate-400 uppercase">
+                Metric
+              </label>
+              <select
+                className={selectClass}
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as SensitivityMetric)}
+              >
+                {Object.entries(SENSITIVITY_METRICS).map(([key, m]) => (
+                  <option key={key} value={key}>
+                    {m.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <AxisEditor
+              title="Horizontal Axis"
+              axis={x}
+              otherParameter={y.parameter}
+              onChange={setX}
+            />
+            <AxisEditor
+              title="Vertical Axis"
+              axis={y}
+              otherParameter={x.parameter}
+              onChange={setY}
+            />
+
+            <div className="space-y-2 border-t border-dark-700 pt-4">
+              <label className="text-xs font-medium text-slate-400 uppercase">
+                Current Settings
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  label="Win Rate"
+                  type="number"
+                  value={base.winRatePercent}
+                  onChange={(e) => handleBase("winRatePercent", e.target.value)}
+                  suffix="%"
+                />
+                <Input
+                  label="Reward to Risk"
+                  type="number"
+                  step="0.1"
+                  value={base.rewardToRiskRatio}
+                  onChange={(e) =>
+                    handleBase("rewardToRiskRatio", e.target.value)
+                  }
+                  suffix="R"
+                />
+                <Input
+                  label="Risk Per Trade"
+                  type="number"
+                  step="0.1"
+                  value={base.riskPerTradePercent}
+                  onChange={(e) =>
+                    handleBase("riskPerTradePercent", e.target.value)
+                  }
+                  suffix="%"
+                />
+                <Input
+                  label="Trades Per Week"
+                  type="number"
+                  value={base.tradesPerWeek}
+                  onChange={(e) => handleBase("tradesPerWeek", e.target.value)}
+                />
+                <Input
+                  label="Account Size"
+                  type="number"
+                  value={base.accountSize}
+                  onChange={(e) => handleBase("accountSize", e.target.value)}
+                  suffix="$"
+                />
+                <Input
+                  label="Horizon"
+                  type="number"
+                  value={base.horizonWeeks}
+                  onChange={(e) => handleBase("horizonWeeks", e.target.value)}
+                  suffix="weeks"
+                />
+                <Input
+                  label="Simulations / Cell"
+                  type="number"
+                  min={1}
+                  value={base.simulationsPerCell}
+                  onChange={(e) =>
+                    handleBase("simulationsPerCell", e.target.value)
+                  }
+                />
+              </div>
+            </div>
+
+            {metric === "PASS_RATE" && (
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-slate-400 uppercase">
+                  Challenge Rules
+                </label>
+                <div className="grid grid-cols-3 gap-2">
+                  <Input
+                    label="Target"
+                    type="number"
+                    value={base.phase.profitTargetPercent}
+                    onChange={(e) =>
+                      handlePhase("profitTargetPercent", e.target.value)
+                    }
+                    suffix="%"
+                  />
+                  <Input
+                    label="Max DD"
+                    type="number"
+                    value={base.phase.maxTotalDrawdownPercent}
+                    onChange={(e) =>
+                      handlePhase("maxTotalDrawdownPercent", e.target.value)
+                    }
+                    suffix="%"
+                  />
+                  <Input
+                    label="Daily DD"
+                    type="number"
+                    value={base.phase.maxDailyDrawdownPercent}
+                    onChange={(e) =>
+                      handlePhase("maxDailyDrawdownPercent", e.target.value)
+                    }
+                    suffix="%"
+                  />
+                </div>
+              </div>
+            )}
+
+            <WinRateUncertaintyEditor
+              uncertainty={uncertainty}
+              onChange={setUncertainty}
+              winRatePercent={base.winRatePercent}
+            />
+
+            <SeedInput
+              seed={base.seed}
+              onSeedChange={(seed) => setBase({ ...base, seed })}
+            />
+
+            <div className="flex flex-col gap-2">
+              <Button onClick={runGrid} fullWidth>
+                Run Grid
+              </Button>
+              <ProgressBar
+                progress={gridJob.progress}
+                isRunning={gridJob.isRunning}
+                onCancel={gridJob.cancel}
+              />
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      <div className="lg:col-span-2 space-y-6">
+        <Card
+          title={`Sensitivity: ${
+            SENSITIVITY_METRICS[shown?.metric ?? metric].label
+          }`}
+        >
+          {gridJob.error ? (
+            <div className="p-3 bg-rose-500/10 border border-rose-500/20 rounded-lg text-rose-400 text-sm font-medium">
+              {gridJob.error}
+            </div>
+          ) : result ? (
+            renderHeatmap()
+          ) : (
+            <div className="text-sm text-slate-500">
+              Pick two parameters and a metric, then run the grid.
+            </div>
+          )}
+          <div className="text-xs text-slate-500 mt-4 leading-relaxed">
+            * Every cell runs the module's own engine on the same seed: market
+            simulation for return and drawdown, the ruin Monte Carlo for risk of
+            ruin and a single-phase challenge for the pass rate. The white line
+            separates positive from negative expectancy.
+          </div>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SensitivityExplorer;
@@ -0,0 +1,95 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import type { CashFlowPlan } from "../../types";
+import { DEFAULT_CASH_FLOW_PLAN } from "../../services/cashFlows";
+
+interface CashFlowEditorProps {
+  // undefined = no deposits or withdrawals
+  plan: CashFlowPlan | undefined;
+  onChange: (plan: CashFlowPlan | undefined) => void;
+  // Used to show the interval in weeks, when known
+  tradesPerWeek?: number;
+}
+
+export const CashFlowEditor: React.FC<CashFlowEditorProps> = ({
+  plan,
+  onChange,
+  tradesPerWeek,
+}) => {
+  // Remember the last values so toggling cash flows off and on keeps them
+  const [draft, setDraft] = useState<CashFlowPlan>(
+    plan ?? DEFAULT_CASH_FLOW_PLAN
+  );
+  const isEnabled = plan !== undefined;
+
+  const update = (key: keyof CashFlowPlan, val: string) => {
+    const next = { ...draft, [key]: Number(val) };
+    setDraft(next);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-4 h-4 rounded border-slate-600 bg-dark-900 text-primary focus:ring-primary"
+          checked={isEnabled}
+          onChange={(e) => onChange(e.target.checked ? draft : undefined)}
+        />
+        <span className="text-sm font-medium text-slate-300">
+          Deposits & Withdrawals
+        </span>
+      </label>
+
+      {isEnabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Every"
+              type="number"
+              min={1}
+              value={draft.everyTrades}
+              onChange={(e) => update("everyTrades", e.target.value)}
+              suffix="trades"
+            />
+            <Input
+              label="Deposit"
+              type="number"
+              min={0}
+              value={draft.depositAmount}
+              onChange={(e) => update("depositAmount", e.target.value)}
+              suffix="$"
+            />
+            <Input
+              label="Fixed Withdrawal"
+              type="number"
+              min={0}
+              value={draft.withdrawalAmount}
+              onChange={(e) => update("withdrawalAmount", e.target.value)}
+              suffix="$"
+            />
+            <Input
+              label="Profit Payout"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.withdrawProfitPercent}
+              onChange={(e) => update("withdrawProfitPercent", e.target.value)}
+              suffix="%"
+            />
+          </div>
+          <p className="text-xs text-slate-500">
+            {tradesPerWeek
+              ? `About every ${(draft.everyTrades / tradesPerWeek).toFixed(
+                  1
+                )} weeks. `
+              : ""}
+            The payout is a share of the profit made since the last cash flow;
+            withdrawals stop when the account is empty.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import type { CircuitBreakers } from "../../types";
+import { DEFAULT_CIRCUIT_BREAKERS } from "../../services/circuitBreakers";
+
+interface CircuitBreakerEditorProps {
+  // undefined = every trade is taken, no days
+  breakers: CircuitBreakers | undefined;
+  onChange: (breakers: CircuitBreakers | undefined) => void;
+}
+
+const checkboxClass =
+  "w-4 h-4 rounded border-slate-600 bg-dark-900 text-primary focus:ring-primary";
+
+export const CircuitBreakerEditor: React.FC<CircuitBreakerEditorProps> = ({
+  breakers,
+  onChange,
+}) => {
+  // Remember the last rules so toggling them off and on keeps them
+  const [draft, setDraft] = useState<CircuitBreakers>(
+    breakers ?? DEFAULT_CIRCUIT_BREAKERS
+  );
+  const isEnabled = breakers !== undefined;
+
+  const update = (next: CircuitBreakers) => {
+    setDraft(next);
+    onChange(next);
+  };
+
+  const updateNumber = (key: keyof CircuitBreakers, val: string) =>
+    update({ ...draft, [key]: Number(val) });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className={checkboxClass}
+          checked={isEnabled}
+          onChange={(e) => onChange(e.target.checked ? draft : undefined)}
+        />
+        <span className="text-sm font-medium text-slate-300">
+          Circuit Breakers
+        </span>
+      </label>
+
+      {isEnabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Trades Per Day"
+              type="number"
+              min={1}
+              value={draft.tradesPerDay}
+              onChange={(e) => updateNumber("tradesPerDay", e.target.value)}
+            />
+            <Input
+              label="Daily Loss Limit"
+              type="number"
+              step="0.5"
+              value={draft.dailyLossLimitPercent}
+              onChange={(e) =>
+                updateNumber("dailyLossLimitPercent", e.target.value)
+              }
+              suffix="%"
+            />
+            <Input
+              label="Pause After Losses"
+              type="number"
+              min={0}
+              value={draft.pauseAfterLosses}
+              onChange={(e) => updateNumber("pauseAfterLosses", e.target.value)}
+            />
+            <Input
+              label="Pause Length"
+              type="number"
+              min={1}
+              value={draft.pauseDays}
+              onChange={(e) => updateNumber("pauseDays", e.target.value)}
+              suffix="days"
+            />
+            <Input
+              label="Equity Stop"
+              type="number"
+              value={draft.equityStopPercent}
+              onChange={(e) =>
+                updateNumber("equityStopPercent", e.target.value)
+              }
+              suffix="%"
+            />
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className={checkboxClass}
+              checked={draft.randomizeTradesPerDay}
+              onChange={(e) =>
+                update({ ...draft, randomizeTradesPerDay: e.target.checked })
+              }
+            />
+            <span className="text-sm text-slate-400">
+              Randomize trades per day
+            </span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className={checkboxClass}
+              checked={draft.stopAfterFirstWin}
+              onChange={(e) =>
+                update({ ...draft, stopAfterFirstWin: e.target.checked })
+              }
+            />
+            <span className="text-sm text-slate-400">
+              Stop for the day after the first win
+            </span>
+          </label>
+          <p className="text-xs text-slate-500">
+            Trades become trade opportunities; blocked ones are skipped. Set a
+            limit to 0 to turn it off. A pause of 1 day sits out the rest of the
+            current day; the equity stop is measured from the starting capital.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import type { CostModel } from "../../types";
+import { DEFAULT_COST_MODEL, costInR } from "../../services/costs";
+
+interface CostModelEditorProps {
+  // undefined = gross results, no costs charged
+  costs: CostModel | undefined;
+  onChange: (costs: CostModel | undefined) => void;
+  // Dollar risk of the first trade, used to show the cost in R
+  startingRiskAmount: number;
+}
+
+export const CostModelEditor: React.FC<CostModelEditorProps> = ({
+  costs,
+  onChange,
+  startingRiskAmount,
+}) => {
+  // Remember the last values so toggling costs off and on keeps them
+  const [draft, setDraft] = useState<CostModel>(costs ?? DEFAULT_COST_MODEL);
+  const isEnabled = costs !== undefined;
+
+  const update = (key: keyof CostModel, val: string) => {
+    const next = { ...draft, [key]: Number(val) };
+    setDraft(next);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-4 h-4 rounded border-slate-600 bg-dark-900 text-primary focus:ring-primary"
+          checked={isEnabled}
+          onChange={(e) => onChange(e.target.checked ? draft : undefined)}
+        />
+        <span className="text-sm font-medium text-slate-300">
+          Trading Costs (Fees & Slippage)
+        </span>
+      </label>
+
+      {isEnabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-4">
+            <Input
+              label="Commission"
+              type="number"
+              step="0.5"
+              value={draft.commissionPerTrade}
+              onChange={(e) => update("commissionPerTrade", e.target.value)}
+              suffix="$"
+            />
+            <Input
+              label="Spread + Slippage"
+              type="number"
+              step="0.01"
+              value={draft.slippageR}
+              onChange={(e) => update("slippageR", e.target.value)}
+              suffix="R"
+            />
+            <Input
+              label="Other Costs"
+              type="number"
+              step="0.5"
+              value={draft.riskFractionPercent}
+              onChange={(e) => update("riskFractionPercent", e.target.value)}
+              suffix="% risk"
+            />
+          </div>
+          <div className="p-3 bg-dark-900 rounded-lg text-xs text-slate-400 border border-dark-700">
+            Cost per trade at starting risk:{" "}
+            <span className="text-rose-400">
+              {costInR(draft, startingRiskAmount).toFixed(3)}R
+            </span>{" "}
+            (charged on wins and losses alike)
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import React from "react";
+import {
+  DAILY_DRAWDOWN_RULE_LABELS,
+  TOTAL_DRAWDOWN_RULE_LABELS,
+  dailyDrawdownRuleOf,
+  totalDrawdownRuleOf,
+} from "../../services/propFirmRules";
+import type {
+  DailyDrawdownRule,
+  DrawdownRules,
+  TotalDrawdownRule,
+} from "../../types";
+
+interface DrawdownRuleSelectsProps {
+  rules: DrawdownRules;
+  isTrailingDrawdown: boolean; // Total rule shown when the rules have none
+  onChange: (patch: Partial<DrawdownRules>) => void;
+}
+
+const selectClass =
+  "w-full bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-slate-100 text-sm";
+
+export const DrawdownRuleSelects: React.FC<DrawdownRuleSelectsProps> = ({
+  rules,
+  isTrailingDrawdown,
+  onChange,
+}) => (
+  <div className="grid grid-cols-2 gap-3">
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+        Total DD Rule
+      </label>
+      <select
+        className={selectClass}
+        value={totalDrawdownRuleOf(rules, isTrailingDrawdown)}
+        onChange={(e) =>
+          onChange({ totalDrawdownRule: e.target.value as TotalDrawdownRule })
+        }
+      >
+        {Object.entries(TOTAL_DRAWDOWN_RULE_LABELS).map(([rule, label]) => (
+          <option key={rule} value={rule}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+    <div className="space-y-1">
+      <label className="text-xs font-medium text-slate-400 uppercase tracking-wider">
+        Daily Loss From
+      </label>
+      <select
+        className={selectClass}
+        value={dailyDrawdownRuleOf(rules)}
+        onChange={(e) =>
+          onChange({ dailyDrawdownRule: e.target.value as DailyDrawdownRule })
+        }
+      >
+        {Object.entries(DAILY_DRAWDOWN_RULE_LABELS).map(([rule, label]) => (
+          <option key={rule} value={rule}>
+            {label}
+          </option>
+        ))}
+      </select>
+    </div>
+  </div>
+);
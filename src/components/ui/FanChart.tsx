@@ -0,0 +1,130 @@
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import type { Percentiles } from "../../types";
+
+interface FanLine {
+  dataKey: string;
+  name: string;
+  color: string;
+}
+
+// Outlined range drawn behind the main bands, e.g. the gross (cost-free) fan
+interface FanOverlayBand {
+  lowKey: string;
+  highKey: string;
+  name: string;
+  color: string;
+}
+
+interface FanChartProps<T extends Percentiles> {
+  data: T[];
+  xKey: keyof T & string;
+  yFormatter?: (value: number) => string;
+  // Extra series drawn over the bands, e.g. the best / worst sample paths
+  lines?: FanLine[];
+  overlayBands?: FanOverlayBand[];
+}
+
+const defaultFormatter = (val: number) => `$${(val / 1000).toFixed(0)}k`;
+
+export const FanChart = <T extends Percentiles>({
+  data,
+  xKey,
+  yFormatter = defaultFormatter,
+  lines = [],
+  overlayBands = [],
+}: FanChartProps<T>) => {
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <ComposedChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+        <XAxis dataKey={xKey} stroke="#94a3b8" fontSize={12} tickLine={false} />
+        <YAxis
+          stroke="#94a3b8"
+          fontSize={12}
+          tickLine={false}
+          domain={["auto", "auto"]}
+          tickFormatter={yFormatter}
+        />
+        <Tooltip
+          contentStyle={{
+            backgroundColor: "#1e293b",
+            borderColor: "#334155",
+            color: "#f8fafc",
+          }}
+          labelStyle={{ color: "#94a3b8" }}
+          formatter={(value: number | number[], name: string) => [
+            Array.isArray(value)
+              ? `${yFormatter(value[0])} – ${yFormatter(value[1])}`
+              : yFormatter(value),
+            name,
+          ]}
+        />
+        {overlayBands.map((b) => (
+          <Area
+            key={b.name}
+            type="monotone"
+            dataKey={(d: T) => [
+              (d as Record<string, unknown>)[b.lowKey],
+              (d as Record<string, unknown>)[b.highKey],
+            ]}
+            name={b.name}
+            stroke={b.color}
+            strokeDasharray="4 3"
+            fill={b.color}
+            fillOpacity={0.05}
+            isAnimationActive={false}
+          />
+        ))}
+        <Area
+          type="monotone"
+          dataKey={(d: T) => [d.p5, d.p95]}
+          name="5th–95th pct"
+          stroke="none"
+          fill="#3b82f6"
+          fillOpacity={0.15}
+          isAnimationActive={false}
+        />
+        <Area
+          type="monotone"
+          dataKey={(d: T) => [d.p25, d.p75]}
+          name="25th–75th pct"
+          stroke="none"
+          fill="#3b82f6"
+          fillOpacity={0.3}
+          isAnimationActive={false}
+        />
+        <Line
+          type="monotone"
+          dataKey="p50"
+          name="Median"
+          stroke="#3b82f6"
+          strokeWidth={2}
+          dot={false}
+          isAnimationActive={false}
+        />
+        {lines.map((l) => (
+          <Line
+            key={l.dataKey}
+            type="monotone"
+            dataKey={l.dataKey}
+            name={l.name}
+            stroke={l.color}
+            strokeWidth={1}
+            strokeDasharray="4 3"
+            dot={false}
+            isAnimationActive={false}
+          />
+        ))}
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import { DrawdownRuleSelects } from "./DrawdownRuleSelects";
+import type { FundedConfig, ScalingPlan } from "../../types";
+import {
+  DEFAULT_FUNDED_CONFIG,
+  DEFAULT_SCALING_PLAN,
+} from "../../services/propFirmRules";
+
+interface FundedStageEditorProps {
+  // undefined = attempts stop at the pass
+  funded: FundedConfig | undefined;
+  onChange: (funded: FundedConfig | undefined) => void;
+  isTrailingDrawdown: boolean;
+}
+
+const checkboxClass =
+  "w-4 h-4 rounded border-slate-600 bg-dark-900 text-primary focus:ring-primary";
+
+export const FundedStageEditor: React.FC<FundedStageEditorProps> = ({
+  funded,
+  onChange,
+  isTrailingDrawdown,
+}) => {
+  // Remember the last rules so toggling them off and on keeps them
+  const [draft, setDraft] = useState<FundedConfig>(
+    funded ?? DEFAULT_FUNDED_CONFIG
+  );
+  const [scalingDraft, setScalingDraft] = useState<ScalingPlan>(
+    funded?.scaling ?? DEFAULT_SCALING_PLAN
+  );
+  const isEnabled = funded !== undefined;
+
+  const update = (next: FundedConfig) => {
+    setDraft(next);
+    onChange(next);
+  };
+
+  const updateNumber = (
+    key:
+      | "profitSplitPercent"
+      | "payoutCycleDays"
+      | "horizonDays"
+      | "maxTotalDrawdownPercent"
+      | "maxDailyDrawdownPercent",
+    val: string
+  ) => update({ ...draft, [key]: Number(val) });
+
+  const updateScaling = (key: keyof ScalingPlan, val: string) => {
+    const scaling = { ...scalingDraft, [key]: Number(val) };
+    setScalingDraft(scaling);
+    update({ ...draft, scaling });
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className={checkboxClass}
+          checked={isEnabled}
+          onChange={(e) => onChange(e.target.checked ? draft : undefined)}
+        />
+        <span className="text-sm font-medium text-slate-300">Funded Stage</span>
+      </label>
+
+      {isEnabled && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              label="Profit Split"
+              type="number"
+              min={0}
+              max={100}
+              value={draft.profitSplitPercent}
+              onChange={(e) =>
+                updateNumber("profitSplitPercent", e.target.value)
+              }
+              suffix="%"
+            />
+            <Input
+              label="Payout Cycle"
+              type="number"
+              min={1}
+              value={draft.payoutCycleDays}
+              onChange={(e) => updateNumber("payoutCycleDays", e.target.value)}
+              suffix="days"
+            />
+            <Input
+              label="Max Total DD %"
+              type="number"
+              value={draft.maxTotalDrawdownPercent}
+              onChange={(e) =>
+                updateNumber("maxTotalDrawdownPercent", e.target.value)
+              }
+            />
+            <Input
+              label="Max Daily DD %"
+              type="number"
+              value={draft.maxDailyDrawdownPercent}
+              onChange={(e) =>
+                updateNumber("maxDailyDrawdownPercent", e.target.value)
+              }
+            />
+          </div>
+          <DrawdownRuleSelects
+            rules={draft}
+            isTrailingDrawdown={isTrailingDrawdown}
+            onChange={(patch) => update({ ...draft, ...patch })}
+          />
+          <Input
+            label="Follow For"
+            type="number"
+            min={1}
+            value={draft.horizonDays}
+            onChange={(e) => updateNumber("horizonDays", e.target.value)}
+            suffix="days"
+          />
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className={checkboxClass}
+              checked={draft.isFeeRefunded}
+              onChange={(e) =>
+                update({ ...draft, isFeeRefunded: e.target.checked })
+              }
+            />
+            <span className="text-sm text-slate-400">
+              Challenge fee refunded with the first payout
+            </span>
+          </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              className={checkboxClass}
+              checked={draft.scaling !== undefined}
+              onChange={(e) =>
+                update({
+                  ...draft,
+                  scaling: e.target.checked ? scalingDraft : undefined,
+                })
+              }
+            />
+            <span className="text-sm text-slate-400">Scaling plan</span>
+          </label>
+          {draft.scaling && (
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Review Every"
+                type="number"
+                min={1}
+                value={scalingDraft.reviewCycles}
+                onChange={(e) => updateScaling("reviewCycles", e.target.value)}
+                suffix="cycles"
+              />
+              <Input
+                label="Profit Needed"
+                type="number"
+                min={0}
+                value={scalingDraft.profitPercent}
+                onChange={(e) => updateScaling("profitPercent", e.target.value)}
+                suffix="%"
+              />
+              <Input
+                label="Increase"
+                type="number"
+                min={0}
+                value={scalingDraft.increasePercent}
+                onChange={(e) =>
+                  updateScaling("increasePercent", e.target.value)
+                }
+                suffix="%"
+              />
+              <Input
+                label="Max Account"
+                type="number"
+                min={0}
+                value={scalingDraft.maxAccountSize}
+                onChange={(e) =>
+                  updateScaling("maxAccountSize", e.target.value)
+                }
+                suffix="$"
+              />
+            </div>
+          )}
+          <p className="text-xs text-slate-500">
+            Each payout date withdraws any profit and resets the account and its
+            limits. A scaling review grows the account by a share of its
+            starting size when the profit paid out over the review period is
+            high enough.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import type { HistogramBin } from "../../types";
+
+interface HistogramProps {
+  bins: HistogramBin[];
+  color?: string;
+  // Formats a bin edge for axis ticks and the tooltip
+  formatValue?: (value: number) => string;
+  countLabel?: string;
+  // Values flagged with a line over the bin that holds them, e.g. the median
+  markers?: { value: number; label: string; color: string }[];
+}
+
+export const Histogram: React.FC<HistogramProps> = ({
+  bins,
+  color = "#3b82f6",
+  formatValue = (v) => v.toFixed(0),
+  countLabel = "Runs",
+  markers = [],
+}) => {
+  const data = bins.map((b) => ({
+    ...b,
+    mid: (b.from + b.to) / 2,
+    range: `${formatValue(b.from)} – ${formatValue(b.to)}`,
+  }));
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <BarChart
+        data={data}
+        barCategoryGap={1}
+        margin={markers.length > 0 ? { top: 16 } : undefined}
+      >
+        <XAxis
+          dataKey="mid"
+          stroke="#94a3b8"
+          fontSize={11}
+          tickLine={false}
+          tickFormatter={formatValue}
+        />
+        <YAxis stroke="#94a3b8" fontSize={11} tickLine={false} width={40} />
+        <Tooltip
+          cursor={{ fill: "#334155", opacity: 0.2 }}
+          contentStyle={{
+            backgroundColor: "#1e293b",
+            borderColor: "#334155",
+            color: "#f8fafc",
+          }}
+          labelFormatter={(_, payload) => payload?.[0]?.payload.range ?? ""}
+          formatter={(val: number) => [val, countLabel]}
+        />
+        <Bar dataKey="count" fill={color} isAnimationActive={false} />
+        {markers.map((marker) => {
+          const bin =
+            data.find((b) => marker.value <= b.to) ?? data[data.length - 1];
+          return (
+            bin && (
+              <ReferenceLine
+                key={marker.label}
+                x={bin.mid}
+                stroke={marker.color}
+                strokeDasharray="4 3"
+                label={{
+                  value: marker.label,
+                  fill: marker.color,
+                  fontSize: 11,
+                  position: "top",
+                }}
+              />
+            )
+          );
+        })}
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
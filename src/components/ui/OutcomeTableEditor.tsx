@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import type { OutcomeBucket } from "../../types";
+import {
+  DEFAULT_OUTCOME_TABLE,
+  describeOutcomes,
+} from "../../services/outcomes";
+
+interface OutcomeTableEditorProps {
+  // undefined = classic win rate / R:R model
+  outcomes: OutcomeBucket[] | undefined;
+  onChange: (outcomes: OutcomeBucket[] | undefined) => void;
+}
+
+const cellInput =
+  "w-full bg-dark-900 border border-dark-700 rounded-md px-2 py-1 text-sm text-slate-100 focus:outline-none focus:border-primary";
+
+export const OutcomeTableEditor: React.FC<OutcomeTableEditorProps> = ({
+  outcomes,
+  onChange,
+}) => {
+  // Remember the last table so toggling custom mode off and on keeps it
+  const [draft, setDraft] = useState<OutcomeBucket[]>(
+    outcomes ?? DEFAULT_OUTCOME_TABLE
+  );
+  const isCustom = outcomes !== undefined;
+  const rows = outcomes ?? draft;
+  const implied = describeOutcomes(rows);
+
+  const update = (next: OutcomeBucket[]) => {
+    setDraft(next);
+    onChange(next);
+  };
+
+  const updateRow = (i: number, key: keyof OutcomeBucket, val: string) => {
+    update(rows.map((r, j) => (j === i ? { ...r, [key]: Number(val) } : r)));
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          className="w-4 h-4 rounded border-slate-600 bg-dark-900 text-primary focus:ring-primary"
+          checked={isCustom}
+          onChange={(e) => onChange(e.target.checked ? draft : undefined)}
+        />
+        <span className="text-sm font-medium text-slate-300">
+          Custom R-Multiple Outcomes
+        </span>
+      </label>
+
+      {isCustom && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs font-medium text-slate-400 uppercase">
+            <span>Probability %</span>
+            <span>Outcome (R)</span>
+            <span className="w-5" />
+          </div>
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <input
+                type="number"
+                className={cellInput}
+                value={row.probabilityPercent}
+                onChange={(e) =>
+                  updateRow(i, "probabilityPercent", e.target.value)
+                }
+              />
+              <input
+                type="number"
+                step="0.1"
+                className={cellInput}
+                value={row.rMultiple}
+                onChange={(e) => updateRow(i, "rMultiple", e.target.value)}
+              />
+              <button
+                className="w-5 text-slate-500 hover:text-rose-400"
+                title="Remove outcome"
+                onClick={() => update(rows.filter((_, j) => j !== i))}
+                disabled={rows.length <= 1}
+              >
+                ×
+              </button>
+            </div>
+          ))}
+          <button
+            className="text-xs text-primary hover:text-blue-400"
+            onClick={() =>
+              update([...rows, { probabilityPercent: 0, rMultiple: 0 }])
+            }
+          >
+            + Add Outcome
+          </button>
+
+          <div className="p-3 bg-dark-900 rounded-lg text-xs text-slate-400 border border-dark-700 space-y-1">
+            <div>
+              Implied Win Rate:{" "}
+              <span className="text-slate-200">
+                {implied.winRate.toFixed(1)}%
+              </span>
+            </div>
+            <div>
+              Expectancy:{" "}
+              <span
+                className={
+                  implied.expectancy > 0 ? "text-emerald-400" : "text-rose-400"
+                }
+              >
+                {implied.expectancy.toFixed(3)}R
+              </span>{" "}
+              · Variance:{" "}
+              <span className="text-slate-200">
+                {implied.variance.toFixed(3)}R²
+              </span>{" "}
+              (σ {Math.sqrt(implied.variance).toFixed(2)}R)
+            </div>
+            {Math.abs(implied.totalProbability - 100) > 0.01 && (
+              <div className="text-amber-500">
+                Probabilities sum to {implied.totalProbability.toFixed(1)}% and
+                will be normalized to 100%.
+              </div>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">
+            Overrides the win rate and R:R settings.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from "react";
+import { Input } from "./Input";
+import type { PerformanceSettings, ReturnPeriod } from "../../types";
+
+interface PerformanceSettingsEditorProps {
+  settings: PerformanceSettings;
+  onChange: (settings: PerformanceSettings) => void;
+}
+
+const PERIODS: { id: ReturnPeriod; label: string }[] = [
+  { id: "DAILY", label: "Daily Returns" },
+  { id: "MONTHLY", label: "Monthly Returns" },
+];
+
+export const PerformanceSettingsEditor: React.FC<
+  PerformanceSettingsEditorProps
+> = ({ settings, onChange }) => (
+  <div className="grid grid-cols-2 gap-4 items-end">
+    <div className="grid grid-cols-2 gap-1 bg-dark-900 p-1 rounded-lg">
+      {PERIODS.map((p) => (
+        <button
+          key={p.id}
+          onClick={() => onChange({ ...settings, returnPeriod: p.id })}
+          className={`py-1.5 text-xs rounded-md transition-colors ${
+            settings.returnPeriod === p.id
+              ? "bg-primary text-white shadow"
+              : "text-slate-400 hover:text-slate-200"
+          }`}
+        >
+          {p.label}
+        </button>
+      ))}
+    </div>
+    <Input
+      label="Risk-Free Rate"
+      type="number"
+      step="0.25"
+      value={settings.riskFreeRatePercent}
+      onChange={(e) =>
+        onChange({ ...settings, riskFreeRatePercent: Number(e.target.value) })
+      }
+      suffix="%/yr"
+    />
+  </div>
+);
@@ -0,0 +1,65 @@
+import React from "react";
+import type { PerformanceStats } from "../../types";
+
+interface PerformanceSummaryProps {
+  stats: PerformanceStats;
+}
+
+// Sortino and Calmar are null (unbounded) when there is no downside
+const ratioColor = (v: number | null) =>
+  v === null || v >= 1
+    ? "text-emerald-400"
+    : v > 0
+    ? "text-amber-400"
+    : "text-rose-400";
+
+const formatRatio = (v: number | null) => (v === null ? "∞" : v.toFixed(2));
+
+// CAGR, volatility and the three risk-adjusted ratios in one row
+export const PerformanceSummary: React.FC<PerformanceSummaryProps> = ({
+  stats,
+}) => {
+  const items = [
+    {
+      label: "CAGR",
+      value: `${stats.cagrPercent.toFixed(1)}%`,
+      color: stats.cagrPercent >= 0 ? "text-emerald-400" : "text-rose-400",
+    },
+    {
+      label: "Volatility",
+      value: `${stats.annualVolatilityPercent.toFixed(1)}%`,
+      color: "text-slate-100",
+    },
+    {
+      label: "Sharpe",
+      value: formatRatio(stats.sharpe),
+      color: ratioColor(stats.sharpe),
+    },
+    {
+      label: "Sortino",
+      value: formatRatio(stats.sortino),
+      color: ratioColor(stats.sortino),
+    },
+    {
+      label: "Calmar",
+      value: formatRatio(stats.calmar),
+      color: ratioColor(stats.calmar),
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+      {items.map((item) => (
+        <div
+          key={item.label}
+          className="bg-dark-900 p-3 rounded-lg border border-dark-700"
+        >
+          <div className="text-xs text-slate-400 uppercase">{item.label}</div>
+          <div className={`text-lg font-bold font-mono ${item.color}`}>
+            {item.value}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
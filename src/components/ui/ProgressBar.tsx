@@ -0,0 +1,37 @@
+import React from "react";
+
+interface ProgressBarProps {
+  progress: number; // 0 - 1
+  isRunning: boolean;
+  onCancel?: () => void;
+}
+
+export const ProgressBar: React.FC<ProgressBarProps> = ({
+  progress,
+  isRunning,
+  onCancel,
+}) => {
+  if (!isRunning) return null;
+
+  return (
+    <div className="flex items-center gap-3 text-xs text-slate-400">
+      <div className="flex-1 h-1.5 bg-dark-700 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-primary transition-all"
+          style={{ width: `${Math.round(progress * 100)}%` }}
+        />
+      </div>
+      <span className="font-mono w-10 text-right">
+        {Math.round(progress * 100)}%
+      </span>
+      {onCancel && (
+        <button
+          className="text-slate-500 hover:text-rose-400 transition-colors"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
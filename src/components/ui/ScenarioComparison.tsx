@@ -0,0 +1,208 @@
+import React, { useState } from "react";
+import { Card } from "./Card";
+import { Button } from "./Button";
+import type { TableColumn } from "./SortableTable";
+import type { Scenario } from "../../types";
+import { MAX_SCENARIOS } from "../../hooks/useScenarios";
+import { SCENARIO_COLORS } from "../../services/scenarios";
+
+export interface ScenarioParameter<C> {
+  key: string;
+  label: string;
+  value: (config: C) => string | number;
+}
+
+interface ScenarioComparisonProps<C, R> {
+  scenarios: Scenario<C, R>[];
+  parameters: ScenarioParameter<C>[];
+  // Key outputs; each is also shown as a change against the first scenario
+  outputs: TableColumn<R>[];
+  // False while there is no finished result for the current settings
+  canPin: boolean;
+  onPin: (name: string) => void;
+  onRemove: (id: number) => void;
+  onLoad: (config: C) => void;
+  className?: string;
+  // Overlay chart of the pinned scenarios, colored with SCENARIO_COLORS
+  children?: React.ReactNode;
+}
+
+const formatOutput = <R,>(column: TableColumn<R>, value: number) =>
+  Number.isFinite(value)
+    ? column.format
+      ? column.format(value)
+      : value.toFixed(2)
+    : "—";
+
+export const ScenarioComparison = <C, R>({
+  scenarios,
+  parameters,
+  outputs,
+  canPin,
+  onPin,
+  onRemove,
+  onLoad,
+  className = "",
+  children,
+}: ScenarioComparisonProps<C, R>) => {
+  const [name, setName] = useState("");
+  const isFull = scenarios.length >= MAX_SCENARIOS;
+  const placeholder = `Scenario ${scenarios.length + 1}`;
+
+  const handlePin = () => {
+    onPin(name || placeholder);
+    setName("");
+  };
+
+  const base = scenarios[0];
+
+  return (
+    <Card title="Scenario Comparison" className={className}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap gap-2 items-center">
+          <input
+            className="flex-1 min-w-[160px] bg-dark-900 border border-dark-700 rounded-lg px-3 py-2 text-sm text-slate-100"
+            value={name}
+            placeholder={placeholder}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Button onClick={handlePin} disabled={!canPin || isFull}>
+            Pin Current
+          </Button>
+          <span className="text-xs text-slate-500">
+            {scenarios.length}/{MAX_SCENARIOS} pinned
+          </span>
+        </div>
+
+        {scenarios.length === 0 ? (
+          <div className="text-sm text-slate-500">
+            Pin the current settings, change them, and pin again to compare up
+            to {MAX_SCENARIOS} scenarios side by side.
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-2">
+              {scenarios.map((s, i) => (
+                <div
+                  key={s.id}
+                  className="flex items-center gap-2 bg-dark-900 border border-dark-700 rounded-lg px-3 py-1.5 text-sm"
+                >
+                  <span
+                    className="w-2.5 h-2.5 rounded-full"
+                    style={{ backgroundColor: SCENARIO_COLORS[i] }}
+                  />
+                  <span className="text-slate-200">{s.name}</span>
+                  <button
+                    className="text-xs text-primary hover:text-blue-400"
+                    onClick={() => onLoad(s.config)}
+                  >
+                    Load
+                  </button>
+                  <button
+                    className="text-slate-500 hover:text-rose-400"
+                    onClick={() => onRemove(s.id)}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            {children}
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-dark-700">
+                    <th className="text-left text-xs font-medium text-slate-400 uppercase py-2 px-2" />
+                    {scenarios.map((s, i) => (
+                      <th
+                        key={s.id}
+                        className="text-right text-xs font-medium uppercase py-2 px-2"
+                        style={{ color: SCENARIO_COLORS[i] }}
+                      >
+                        {s.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {parameters.map((p) => {
+                    const values = scenarios.map((s) =>
+                      String(p.value(s.config))
+                    );
+                    // Highlight settings that aren't the same everywhere
+                    const differs = values.some((v) => v !== values[0]);
+                    return (
+                      <tr
+                        key={p.key}
+                        className={`border-b border-dark-700/50 ${
+                          differs ? "bg-amber-500/10" : ""
+                        }`}
+                      >
+                        <td
+                          className={`py-1.5 px-2 font-sans ${
+                            differs ? "text-amber-300" : "text-slate-400"
+                          }`}
+                        >
+                          {p.label}
+                        </td>
+                        {values.map((v, i) => (
+                          <td
+                            key={scenarios[i].id}
+                            className={`py-1.5 px-2 text-right ${
+                              differs ? "text-amber-200" : "text-slate-500"
+                            }`}
+                          >
+                            {v}
+                          </td>
+                        ))}
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td
+                      colSpan={scenarios.length + 1}
+                      className="pt-4 pb-1 px-2 font-sans text-xs font-medium text-slate-400 uppercase"
+                    >
+                      Outputs
+                    </td>
+                  </tr>
+                  {outputs.map((o) => (
+                    <tr key={o.key} className="border-b border-dark-700/50">
+                      <td className="py-1.5 px-2 font-sans text-slate-400">
+                        {o.label}
+                      </td>
+                      {scenarios.map((s, i) => {
+                        const value = o.value(s.result);
+                        const delta = value - o.value(base.result);
+                        return (
+                          <td
+                            key={s.id}
+                            className="py-1.5 px-2 text-right text-slate-100"
+                          >
+                            {formatOutput(o, value)}
+                            {i > 0 && Number.isFinite(delta) && (
+                              <div className="text-[11px] text-slate-500">
+                                {delta >= 0 ? "+" : "−"}
+                                {formatOutput(o, Math.abs(delta))}
+                              </div>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="text-xs text-slate-500">
+              * Highlighted rows are the settings that differ. Changes are
+              measured against the first pinned scenario.
+            </div>
+          </>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,33 @@
+import React from "react";
+import { Input } from "./Input";
+import { Button } from "./Button";
+import { randomSeed } from "../../services/random";
+
+interface SeedInputProps {
+  seed: number;
+  onSeedChange: (seed: number) => void;
+}
+
+export const SeedInput: React.FC<SeedInputProps> = ({ seed, onSeedChange }) => {
+  return (
+    <div className="flex items-end gap-2">
+      <div className="flex-1">
+        <Input
+          label="Random Seed"
+          type="number"
+          min={0}
+          step={1}
+          value={seed}
+          onChange={(e) => onSeedChange(Math.floor(Number(e.target.value)))}
+        />
+      </div>
+      <Button
+        variant="ghost"
+        title="Draw a new random seed"
+        onClick={() => onSeedChange(randomSeed())}
+      >
+        New Seed
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import type { SequenceModel } from "../../types";
+import {
+  DEFAULT_SEQUENCE_MODELS,
+  stationaryWinRate,
+} from "../../services/sequence";
+
+interface SequenceModelEditorProps {
+  // undefined = independent trades
+  sequence: SequenceModel | undefined;
+  onChange: (sequence: SequenceModel | undefined) => void;
+}
+
+const MODES = [
+  { id: "INDEPENDENT", label: "Independent" },
+  { id: "MARKOV", label: "Win/Loss Chain" },
+  { id: "REGIME", label: "Hot/Cold Regime" },
+] as const;
+
+// Average number of consecutive trades spent in a state
+const spellLength = (stayPercent: number) =>
+  stayPercent >= 100 ? Infinity : 1 / (1 - stayPercent / 100);
+
+export const SequenceModelEditor: React.FC<SequenceModelEditorProps> = ({
+  sequence,
+  onChange,
+}) => {
+  // Keep edited parameters per mode while switching between them
+  const [drafts, setDrafts] = useState(DEFAULT_SEQUENCE_MODELS);
+  const mode = sequence?.type ?? "INDEPENDENT";
+
+  const update = (key: string, val: string) => {
+    if (!sequence) return;
+    const next = { ...sequence, [key]: Number(val) } as SequenceModel;
+    setDrafts({ ...drafts, [next.type]: next });
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-medium text-slate-400 uppercase">
+        Trade Sequencing
+      </label>
+      <div className="grid grid-cols-3 gap-1 bg-dark-900 p-1 rounded-lg">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() =>
+              onChange(m.id === "INDEPENDENT" ? undefined : drafts[m.id])
+            }
+            className={`py-1.5 text-xs rounded-md transition-colors ${
+              mode === m.id
+                ? "bg-primary text-white shadow"
+                : "text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {sequence?.type === "MARKOV" && (
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Win After Win"
+            type="number"
+            value={sequence.winAfterWinPercent}
+            onChange={(e) => update("winAfterWinPercent", e.target.value)}
+            suffix="%"
+          />
+          <Input
+            label="Win After Loss"
+            type="number"
+            value={sequence.winAfterLossPercent}
+            onChange={(e) => update("winAfterLossPercent", e.target.value)}
+            suffix="%"
+          />
+        </div>
+      )}
+
+      {sequence?.type === "REGIME" && (
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Hot Win Rate"
+            type="number"
+            value={sequence.hotWinRatePercent}
+            onChange={(e) => update("hotWinRatePercent", e.target.value)}
+            suffix="%"
+          />
+          <Input
+            label="Cold Win Rate"
+            type="number"
+            value={sequence.coldWinRatePercent}
+            onChange={(e) => update("coldWinRatePercent", e.target.value)}
+            suffix="%"
+          />
+          <Input
+            label="Stay Hot"
+            type="number"
+            value={sequence.stayHotPercent}
+            onChange={(e) => update("stayHotPercent", e.target.value)}
+            suffix="%"
+          />
+          <Input
+            label="Stay Cold"
+            type="number"
+            value={sequence.stayColdPercent}
+            onChange={(e) => update("stayColdPercent", e.target.value)}
+            suffix="%"
+          />
+        </div>
+      )}
+
+      {sequence && (
+        <div className="p-3 bg-dark-900 rounded-lg text-xs text-slate-400 border border-dark-700 space-y-1">
+          <div>
+            Long-Run Win Rate:{" "}
+            <span className="text-slate-200">
+              {stationaryWinRate(sequence).toFixed(1)}%
+            </span>{" "}
+            (replaces the win rate setting)
+          </div>
+          {sequence.type === "REGIME" && (
+            <div>
+              Avg. Spell Length: hot{" "}
+              <span className="text-slate-200">
+                {spellLength(sequence.stayHotPercent).toFixed(1)}
+              </span>{" "}
+              / cold{" "}
+              <span className="text-slate-200">
+                {spellLength(sequence.stayColdPercent).toFixed(1)}
+              </span>{" "}
+              trades
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,24 @@
+import React from "react";
+import { Input } from "./Input";
+
+interface SimulationCountInputProps {
+  count: number;
+  onCountChange: (count: number) => void;
+}
+
+// A cleared or zero count snaps back to one run once the field loses focus
+export const SimulationCountInput: React.FC<SimulationCountInputProps> = ({
+  count,
+  onCountChange,
+}) => {
+  return (
+    <Input
+      label="Simulations"
+      type="number"
+      min={1}
+      value={count}
+      onChange={(e) => onCountChange(Number(e.target.value))}
+      onBlur={() => onCountChange(Math.max(1, count))}
+    />
+  );
+};
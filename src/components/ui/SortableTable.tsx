@@ -0,0 +1,92 @@
+import { useMemo, useState } from "react";
+
+export interface TableColumn<T> {
+  key: string;
+  label: string;
+  value: (row: T) => number;
+  format?: (value: number) => string;
+}
+
+interface SortableTableProps<T> {
+  rows: T[];
+  columns: TableColumn<T>[];
+  rowKey: (row: T) => string | number;
+  // Optional tag rendered next to the first cell, e.g. "Best" / "Worst"
+  rowBadge?: (row: T) => string | null;
+  className?: string;
+}
+
+export const SortableTable = <T,>({
+  rows,
+  columns,
+  rowKey,
+  rowBadge,
+  className = "",
+}: SortableTableProps<T>) => {
+  const [sortKey, setSortKey] = useState(columns[0]?.key);
+  const [ascending, setAscending] = useState(true);
+
+  const sortedRows = useMemo(() => {
+    const column = columns.find((c) => c.key === sortKey);
+    if (!column) return rows;
+    const dir = ascending ? 1 : -1;
+    return [...rows].sort((a, b) => (column.value(a) - column.value(b)) * dir);
+  }, [rows, columns, sortKey, ascending]);
+
+  const handleSort = (key: string) => {
+    if (key === sortKey) {
+      setAscending(!ascending);
+    } else {
+      setSortKey(key);
+      setAscending(false);
+    }
+  };
+
+  return (
+    <div className={`overflow-auto ${className}`}>
+      <table className="w-full text-sm">
+        <thead className="sticky top-0 bg-dark-800">
+          <tr className="border-b border-dark-700">
+            {columns.map((c) => (
+              <th
+                key={c.key}
+                onClick={() => handleSort(c.key)}
+                className="text-left text-xs font-medium text-slate-400 uppercase py-2 px-2 cursor-pointer select-none hover:text-slate-200"
+              >
+                {c.label}
+                {sortKey === c.key && (ascending ? " ▲" : " ▼")}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedRows.map((row) => {
+            const badge = rowBadge?.(row);
+            return (
+              <tr
+                key={rowKey(row)}
+                className={`border-b border-dark-700/50 ${
+                  badge ? "bg-primary/10" : ""
+                }`}
+              >
+                {columns.map((c, i) => (
+                  <td
+                    key={c.key}
+                    className="py-1.5 px-2 font-mono text-slate-200"
+                  >
+                    {c.format ? c.format(c.value(row)) : c.value(row)}
+                    {i === 0 && badge && (
+                      <span className="ml-2 text-[10px] font-sans font-bold uppercase text-primary">
+                        {badge}
+                      </span>
+                    )}
+                  </td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import { Input } from "./Input";
+import type { WinRateUncertainty } from "../../types";
+import {
+  DEFAULT_WIN_RATE_UNCERTAINTIES,
+  winRateStdDev,
+} from "../../services/uncertainty";
+
+interface WinRateUncertaintyEditorProps {
+  uncertainty: WinRateUncertainty;
+  onChange: (uncertainty: WinRateUncertainty) => void;
+  // Estimated win rate, used to show the implied range. Unset when the
+  // module trades several win rates.
+  winRatePercent?: number;
+}
+
+const MODES = [
+  { id: "NONE", label: "Exact" },
+  { id: "NORMAL", label: "Fixed σ" },
+  { id: "SAMPLE_SIZE", label: "Sample Size" },
+] as const;
+
+const RunWinRateRange: React.FC<{
+  uncertainty: WinRateUncertainty;
+  winRatePercent: number;
+}> = ({ uncertainty, winRatePercent }) => {
+  const sd = winRateStdDev(uncertainty, winRatePercent);
+  // Normal approximation of the central 90% of run win rates
+  const low = Math.max(0, winRatePercent - 1.645 * sd);
+  const high = Math.min(100, winRatePercent + 1.645 * sd);
+  return (
+    <>
+      Run win rates: σ <span className="text-slate-200">{sd.toFixed(1)}%</span>,
+      90% between{" "}
+      <span className="text-slate-200">
+        {low.toFixed(1)}% and {high.toFixed(1)}%
+      </span>
+    </>
+  );
+};
+
+export const WinRateUncertaintyEditor: React.FC<
+  WinRateUncertaintyEditorProps
+> = ({ uncertainty, onChange, winRatePercent }) => {
+  // Keep edited parameters per mode while switching between them
+  const [drafts, setDrafts] = useState(() => ({
+    ...DEFAULT_WIN_RATE_UNCERTAINTIES,
+    [uncertainty.type]: uncertainty,
+  }));
+
+  const update = (key: string, val: string) => {
+    const next = { ...uncertainty, [key]: Number(val) } as WinRateUncertainty;
+    setDrafts({ ...drafts, [next.type]: next });
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <label className="text-xs font-medium text-slate-400 uppercase">
+        Win Rate Uncertainty
+      </label>
+      <div className="grid grid-cols-3 gap-1 bg-dark-900 p-1 rounded-lg">
+        {MODES.map((m) => (
+          <button
+            key={m.id}
+            onClick={() => onChange(drafts[m.id])}
+            className={`py-1.5 text-xs rounded-md transition-colors ${
+              uncertainty.type === m.id
+                ? "bg-primary text-white shadow"
+                : "text-slate-400 hover:text-slate-200"
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {uncertainty.type === "NORMAL" && (
+        <Input
+          label="Std. Deviation"
+          type="number"
+          step="0.5"
+          min={0}
+          value={uncertainty.stdDevPercent}
+          onChange={(e) => update("stdDevPercent", e.target.value)}
+          suffix="%"
+        />
+      )}
+
+      {uncertainty.type === "SAMPLE_SIZE" && (
+        <Input
+          label="Trades Behind The Estimate"
+          type="number"
+          min={1}
+          value={uncertainty.sampleTrades}
+          onChange={(e) => update("sampleTrades", e.target.value)}
+        />
+      )}
+
+      <div className="p-3 bg-dark-900 rounded-lg text-xs text-slate-400 border border-dark-700">
+        {uncertainty.type === "NONE" ? (
+          "Every run trades at exactly the estimated win rate."
+        ) : winRatePercent === undefined ? (
+          "Every run draws its own win rate around each estimate."
+        ) : (
+          <RunWinRateRange
+            uncertainty={uncertainty}
+            winRatePercent={winRatePercent}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
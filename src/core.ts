@@ -0,0 +1,39 @@
+// Headless entry point: the simulation engines, report parsers and export
+// helpers, with no React or DOM dependency. The CLI is built on this, and
+// scripts can import it directly.
+export type * from "./types";
+
+// Engines
+export * from "./services/mathUtils";
+export * from "./services/bootstrap";
+export * from "./services/calendar";
+export * from "./services/optimizer";
+export * from "./services/portfolio";
+export * from "./services/sensitivity";
+
+// Building blocks
+export * from "./services/cashFlows";
+export * from "./services/circuitBreakers";
+export * from "./services/costs";
+export * from "./services/drawdown";
+export * from "./services/outcomes";
+export * from "./services/performance";
+export * from "./services/propFirmPresets";
+export * from "./services/propFirmRules";
+export * from "./services/random";
+export * from "./services/sequence";
+export * from "./services/sizing";
+export * from "./services/statistics";
+export * from "./services/tradingDays";
+export * from "./services/uncertainty";
+
+// Running jobs by name, parsing and export
+export { COMPUTE_JOB_KINDS, runComputeJob } from "./services/computeJobs";
+export type {
+  ComputeJobs,
+  ComputeJobKind,
+  ComputeJobArgs,
+  ComputeJobResult,
+} from "./services/computeJobs";
+export * from "./services/htmlTables";
+export * from "./services/csv";
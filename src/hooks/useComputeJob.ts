@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type {
+  ComputeJobKind,
+  ComputeJobArgs,
+  ComputeJobResult,
+  ComputeResponse,
+} from "../services/computeJobs";
+
+const createComputeWorker = () =>
+  new Worker(new URL("../services/compute.worker.ts", import.meta.url), {
+    type: "module",
+  });
+
+// Runs one kind of compute job in a dedicated worker owned by the calling
+// module. Submitting a new job while one is still running terminates the
+// worker, so stale results never arrive and the CPU is freed immediately.
+export const useComputeJob = <K extends ComputeJobKind>(kind: K) => {
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const jobIdRef = useRef(0);
+
+  const [result, setResult] = useState<ComputeJobResult<K> | null>(null);
+  // Arguments the current result was computed from, which can lag behind
+  // the module's inputs while a new job is pending
+  const [resultArgs, setResultArgs] = useState<ComputeJobArgs<K> | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancel = useCallback(() => {
+    if (busyRef.current && workerRef.current) {
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+    busyRef.current = false;
+    setIsRunning(false);
+  }, []);
+
+  const run = useCallback(
+    (args: ComputeJobArgs<K>) => {
+      cancel();
+
+      const id = ++jobIdRef.current;
+      if (!workerRef.current) workerRef.current = createComputeWorker();
+      const worker = workerRef.current;
+
+      worker.onmessage = (e: MessageEvent<ComputeResponse<K>>) => {
+        const msg = e.data;
+        if (msg.id !== id) return;
+
+        if (msg.type === "progress") {
+          setProgress(msg.progress);
+          return;
+        }
+
+        busyRef.current = false;
+        setIsRunning(false);
+        if (msg.type === "result") {
+          setResult(msg.result);
+          setResultArgs(args);
+          setError(null);
+        } else {
+          setError(msg.message);
+          // A result from older inputs would read as the answer to these
+          setResult(null);
+          setResultArgs(null);
+        }
+      };
+
+      // The worker itself failed (a script error or a failed import), or a
+      // reply couldn't be read: settle the job and start a fresh worker next
+      // time, since this one may be unusable
+      const fail = (message: string) => {
+        if (id !== jobIdRef.current) return;
+        worker.terminate();
+        if (workerRef.current === worker) workerRef.current = null;
+        busyRef.current = false;
+        setIsRunning(false);
+        setError(message);
+        setResult(null);
+        setResultArgs(null);
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        fail(e.message || "The compute worker failed.");
+      };
+      worker.onmessageerror = () =>
+        fail("The compute worker sent a result that couldn't be read.");
+
+      busyRef.current = true;
+      setIsRunning(true);
+      setProgress(0);
+      worker.postMessage({ id, kind, args });
+    },
+    [kind, cancel]
+  );
+
+  // Tear the worker down with the module
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { result, resultArgs, progress, isRunning, error, run, cancel };
+};
@@ -0,0 +1,91 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { PropFirmPreset, PropFirmRules } from "../types";
+import {
+  BUILT_IN_PROP_FIRM_PRESETS,
+  checkPreset,
+  exportPresets,
+  parsePresetFile,
+  readValidPresets,
+} from "../services/propFirmPresets";
+
+const STORAGE_KEY = "kye.propFirmPresets";
+
+// Saved presets use the export file format, so a broken entry is caught the
+// same way as a broken import. Only the broken entries are dropped.
+const loadSaved = (): { presets: PropFirmPreset[]; problems: string[] } => {
+  try {
+    const text = localStorage.getItem(STORAGE_KEY);
+    return text ? readValidPresets(text) : { presets: [], problems: [] };
+  } catch (err) {
+    return {
+      presets: [],
+      problems: [
+        `Saved presets could not be read: ${
+          err instanceof Error ? err.message : err
+        }`,
+      ],
+    };
+  }
+};
+
+// A user preset can't take a built-in's name
+const userName = (name: string) =>
+  BUILT_IN_PROP_FIRM_PRESETS.some((p) => p.name === name)
+    ? `${name} (custom)`
+    : name;
+
+// Built-in presets followed by the user's own, which persist in the browser
+export const usePropFirmPresets = () => {
+  const [loaded] = useState(loadSaved);
+  const [saved, setSaved] = useState<PropFirmPreset[]>(loaded.presets);
+  // Storage keeps what was loaded, broken entries included, until the user
+  // changes the list
+  const isChanged = useRef(false);
+
+  useEffect(() => {
+    if (!isChanged.current) return;
+    try {
+      localStorage.setItem(STORAGE_KEY, exportPresets(saved));
+    } catch {
+      // Storage full or disabled: presets last for this session only
+    }
+  }, [saved]);
+
+  // Adds presets, replacing saved ones of the same name
+  const merge = useCallback((incoming: PropFirmPreset[]) => {
+    const named = incoming.map((p) => ({ ...p, name: userName(p.name) }));
+    isChanged.current = true;
+    setSaved((prev) => [
+      ...prev.filter((p) => !named.some((n) => n.name === p.name)),
+      ...named,
+    ]);
+    return named;
+  }, []);
+
+  // Throws when a rule is out of range; see checkPreset
+  const save = useCallback(
+    (name: string, rules: PropFirmRules) =>
+      merge([checkPreset({ name: name.trim() || "My Preset", rules })])[0],
+    [merge]
+  );
+
+  const remove = useCallback((name: string) => {
+    isChanged.current = true;
+    setSaved((prev) => prev.filter((p) => p.name !== name));
+  }, []);
+
+  // Throws when the file can't be read; see parsePresetFile
+  const importFile = useCallback(
+    (text: string) => merge(parsePresetFile(text)),
+    [merge]
+  );
+
+  return {
+    presets: [...BUILT_IN_PROP_FIRM_PRESETS, ...saved],
+    saved,
+    loadProblems: loaded.problems,
+    save,
+    remove,
+    importFile,
+  };
+};
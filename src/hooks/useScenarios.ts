@@ -0,0 +1,33 @@
+import { useCallback, useRef, useState } from "react";
+import type { Scenario } from "../types";
+
+export const MAX_SCENARIOS = 4;
+
+// Pinned scenarios of one module, in the order they were pinned
+export const useScenarios = <C, R>() => {
+  const [scenarios, setScenarios] = useState<Scenario<C, R>[]>([]);
+  const nextIdRef = useRef(1);
+
+  const pin = useCallback((name: string, config: C, result: R) => {
+    const id = nextIdRef.current++;
+    setScenarios((prev) =>
+      prev.length >= MAX_SCENARIOS
+        ? prev
+        : [
+            ...prev,
+            { id, name: name.trim() || `Scenario ${id}`, config, result },
+          ]
+    );
+  }, []);
+
+  const remove = useCallback((id: number) => {
+    setScenarios((prev) => prev.filter((s) => s.id !== id));
+  }, []);
+
+  return {
+    scenarios,
+    pin,
+    remove,
+    isFull: scenarios.length >= MAX_SCENARIOS,
+  };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import type { WinRateUncertainty } from "../types";
+import { DEFAULT_WIN_RATE_UNCERTAINTY } from "../services/uncertainty";
+
+// One setting for every module, so each engine doubts the same edge by the
+// same amount
+let current = DEFAULT_WIN_RATE_UNCERTAINTY;
+const listeners = new Set<() => void>();
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setWinRateUncertainty = (next: WinRateUncertainty) => {
+  current = next;
+  listeners.forEach((listener) => listener());
+};
+
+// A module's own config with the shared uncertainty in place. Loading a
+// config, e.g. a pinned scenario, also restores the uncertainty it ran with.
+export const useWinRateUncertainty = <
+  C extends { winRateUncertainty?: WinRateUncertainty }
+>(
+  ownConfig: C,
+  setOwnConfig: (config: C) => void
+) => {
+  const uncertainty = useSyncExternalStore(subscribe, () => current);
+  const config = useMemo(
+    () => ({ ...ownConfig, winRateUncertainty: uncertainty }),
+    [ownConfig, uncertainty]
+  );
+
+  const loadConfig = useCallback(
+    (loaded: C) => {
+      setOwnConfig(loaded);
+      if (loaded.winRateUncertainty) {
+        setWinRateUncertainty(loaded.winRateUncertainty);
+      }
+    },
+    [setOwnConfig]
+  );
+
+  return {
+    config,
+    uncertainty,
+    setUncertainty: setWinRateUncertainty,
+    loadConfig,
+  };
+};
@@ -0,0 +1,109 @@
+import type {
+  BootstrapConfig,
+  BootstrapResult,
+  ParsedTrade,
+  PercentileBand,
+  ProgressCallback,
+  SimulationStats,
+} from "../types";
+import { createRng } from "./random";
+import type { Rng } from "./random";
+import { createRunTracker, summarizeSimulationStats } from "./mathUtils";
+import { summarizePercentiles } from "./statistics";
+import { createUnderwaterClock } from "./drawdown";
+import { tradesPerTradingDay } from "./tradingDays";
+
+// Draws the next chunk of P&L values. Plain (IID) bootstrap takes one trade at
+// a time; the circular block bootstrap takes runs of consecutive trades so that
+// streaks and volatility clustering in the real history survive resampling.
+const drawSample = (
+  rng: Rng,
+  pnls: number[],
+  method: BootstrapConfig["method"],
+  blockSize: number
+): number[] => {
+  const start = Math.floor(rng() * pnls.length);
+  if (method === "IID") return [pnls[start]];
+
+  const size = Math.max(1, Math.min(blockSize, pnls.length));
+  return Array.from(
+    { length: size },
+    (_, i) => pnls[(start + i) % pnls.length]
+  );
+};
+
+export const runBootstrapSimulation = (
+  trades: ParsedTrade[],
+  config: BootstrapConfig,
+  onProgress?: ProgressCallback
+): BootstrapResult => {
+  const {
+    initialCapital,
+    numberOfTrades,
+    method,
+    blockSize,
+    ruinDrawdownPercent,
+    seed,
+    tradesPerWeek,
+  } = config;
+  const simulationCount = Math.max(1, Math.round(config.simulationCount));
+
+  // Index 0 is the parsers' synthetic starting point, not a trade
+  const pnls = trades.filter((t) => t.index > 0).map((t) => t.pnl);
+  if (pnls.length === 0) {
+    throw new Error("No trades available to resample.");
+  }
+
+  const rng = createRng(seed);
+  const ruinEquity = initialCapital * (1 - ruinDrawdownPercent / 100);
+
+  const stats: SimulationStats[] = [];
+  // paths[t][s] = equity of simulation s after t trades
+  const paths: number[][] = Array.from({ length: numberOfTrades + 1 }, () =>
+    new Array(simulationCount).fill(initialCapital)
+  );
+  let ruins = 0;
+
+  for (let s = 0; s < simulationCount; s++) {
+    const tracker = createRunTracker(initialCapital);
+    const underwaterClock = createUnderwaterClock();
+    let ruined = false;
+    let t = 1;
+
+    while (t <= numberOfTrades) {
+      for (const pnl of drawSample(rng, pnls, method, blockSize)) {
+        if (t > numberOfTrades) break;
+        // A ruined account stops trading and stays flat
+        if (!ruined) {
+          tracker.record(pnl);
+          if (tracker.getEquity() <= ruinEquity) ruined = true;
+        }
+        paths[t][s] = tracker.getEquity();
+        underwaterClock.tick(tracker.getDrawdownPercent());
+        t++;
+      }
+    }
+
+    if (ruined) ruins++;
+    const runStats = tracker.finish();
+    if (tradesPerWeek !== undefined && tradesPerWeek > 0) {
+      runStats.longestDrawdownDays = underwaterClock.getLongestDays(
+        tradesPerTradingDay(tradesPerWeek)
+      );
+    }
+    stats.push(runStats);
+    onProgress?.((s + 1) / simulationCount);
+  }
+
+  const bands: PercentileBand[] = paths.map((equities, tradeNumber) => ({
+    tradeNumber,
+    ...summarizePercentiles(equities),
+  }));
+
+  return {
+    bands,
+    stats,
+    summary: summarizeSimulationStats(stats, initialCapital),
+    ruinProbability: (ruins / simulationCount) * 100,
+  };
+};
@@ -0,0 +1,137 @@
+import type {
+  CalendarConfig,
+  CalendarResult,
+  MonthBand,
+  ProgressCallback,
+  SimulationConfig,
+} from "../types";
+import { createRng } from "./random";
+import {
+  buildHistogram,
+  median,
+  percentile,
+  rankRuns,
+  sortAscending,
+  summarizePercentiles,
+} from "./statistics";
+import { createPositionSizer } from "./sizing";
+import { resolveOutcomes, describeOutcomes, kellyPercent } from "./outcomes";
+import { createTradeStream } from "./sequence";
+import { tradeCost } from "./costs";
+import { DEFAULT_WIN_RATE_UNCERTAINTY, drawRunWinRate } from "./uncertainty";
+import { createRunTracker, getDailyTradeVolume } from "./mathUtils";
+import { TRADING_DAYS_PER_MONTH } from "./tradingDays";
+
+// Compounded return of consecutive monthly returns, in %
+const compound = (returns: number[]) =>
+  (returns.reduce((acc, r) => acc * (1 + r / 100), 1) - 1) * 100;
+
+// The market simulation on a calendar: the horizon is a number of months
+// and the trade count follows from trades per week, so it varies by run.
+// Uses the config's sizing, outcomes, sequence, costs and win-rate
+// uncertainty; circuit breakers and cash flows have their own day models
+// and are left out.
+export const runCalendarSimulation = (
+  config: SimulationConfig,
+  calendar: CalendarConfig,
+  onProgress?: ProgressCallback
+): CalendarResult => {
+  const {
+    initialCapital,
+    riskPerTradePercent,
+    winRatePercent,
+    rewardToRiskRatio,
+    seed,
+    sizing = { type: "FIXED_FRACTIONAL" },
+    outcomes,
+    sequence,
+    costs,
+    winRateUncertainty = DEFAULT_WIN_RATE_UNCERTAINTY,
+  } = config;
+  const months = Math.max(1, Math.round(calendar.months));
+  const simulationCount = Math.max(1, Math.round(config.simulationCount));
+
+  const rng = createRng(seed);
+  const baseOutcomes = resolveOutcomes(
+    winRatePercent,
+    rewardToRiskRatio,
+    outcomes
+  );
+  const baseWinRate = describeOutcomes(baseOutcomes).winRate;
+  const sizeTrade = createPositionSizer(
+    sizing,
+    riskPerTradePercent,
+    kellyPercent(baseOutcomes)
+  );
+
+  const monthEndEquity: number[][] = Array.from({ length: months + 1 }, () =>
+    new Array(simulationCount).fill(initialCapital)
+  );
+  const monthlyReturns: number[][] = [];
+  const tradesPerMonth: number[] = [];
+
+  for (let s = 0; s < simulationCount; s++) {
+    const tracker = createRunTracker(initialCapital);
+    const simWinRate = Math.max(
+      1,
+      Math.min(99, drawRunWinRate(rng, winRateUncertainty, baseWinRate))
+    );
+    const drawR = createTradeStream(rng, baseOutcomes, simWinRate, sequence);
+    const returns: number[] = [];
+
+    for (let m = 1; m <= months; m++) {
+      const startEquity = tracker.getEquity();
+      let trades = 0;
+      for (let d = 0; d < TRADING_DAYS_PER_MONTH; d++) {
+        const tradesToday = getDailyTradeVolume(rng, calendar.tradesPerWeek);
+        for (let t = 0; t < tradesToday; t++) {
+          const r = drawR();
+          const riskAmount = sizeTrade(tracker.getSizingState());
+          tracker.record(
+            riskAmount * r - (costs ? tradeCost(costs, riskAmount) : 0)
+          );
+        }
+        trades += tradesToday;
+      }
+      const equity = tracker.getEquity();
+      monthEndEquity[m][s] = equity;
+      returns.push(startEquity > 0 ? (equity / startEquity - 1) * 100 : 0);
+      tradesPerMonth.push(trades);
+    }
+
+    monthlyReturns.push(returns);
+    onProgress?.((s + 1) / simulationCount);
+  }
+
+  const allMonths = monthlyReturns.flat();
+  const quarters = monthlyReturns.flatMap((returns) =>
+    Array.from({ length: Math.floor(months / 3) }, (_, q) =>
+      compound(returns.slice(q * 3, q * 3 + 3))
+    )
+  );
+  const worstMonths = sortAscending(
+    monthlyReturns.map((returns) => Math.min(...returns))
+  );
+
+  const equityBands: MonthBand[] = monthEndEquity.map((values, month) => ({
+    month,
+    ...summarizePercentiles(values),
+  }));
+
+  return {
+    equityBands,
+    monthlyReturns,
+    monthlyHistogram: buildHistogram(allMonths),
+    monthlyPercentiles: summarizePercentiles(allMonths),
+    losingMonthPercent:
+      (allMonths.filter((r) => r < 0).length / allMonths.length) * 100,
+    losingQuarterPercent:
+      quarters.length > 0
+        ? (quarters.filter((r) => r < 0).length / quarters.length) * 100
+        : 0,
+    medianWorstMonthPercent: percentile(worstMonths, 50),
+    p5WorstMonthPercent: percentile(worstMonths, 5),
+    medianTradesPerMonth: median(tradesPerMonth),
+    ...rankRuns(monthEndEquity[months]),
+  };
+};
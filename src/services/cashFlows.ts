@@ -0,0 +1,75 @@
+import type { CashFlowPlan, CashFlowStats } from "../types";
+import { median } from "./statistics";
+
+export const DEFAULT_CASH_FLOW_PLAN: CashFlowPlan = {
+  everyTrades: 20,
+  depositAmount: 0,
+  withdrawalAmount: 0,
+  withdrawProfitPercent: 50,
+};
+
+// Net amount moved at one scheduled point: the deposit arrives first, then
+// the fixed and profit-share withdrawals, capped at what the account holds
+export const scheduledCashFlow = (
+  plan: CashFlowPlan,
+  equity: number,
+  intervalProfit: number
+): number => {
+  const available = Math.max(0, equity + plan.depositAmount);
+  const withdrawal = Math.min(
+    available,
+    plan.withdrawalAmount +
+      Math.max(0, intervalProfit) * (plan.withdrawProfitPercent / 100)
+  );
+  return plan.depositAmount - withdrawal;
+};
+
+// A cash flow as the account sees it: + deposit, − withdrawal
+export interface CashFlowEvent {
+  period: number;
+  amount: number;
+}
+
+// IRR per period, found by bisection, compounded over the whole horizon.
+// Investor view: the starting capital and deposits go in, withdrawals and
+// the final balance come out. A blown account's debt isn't the investor's.
+export const moneyWeightedReturn = (
+  initialCapital: number,
+  events: CashFlowEvent[],
+  finalBalance: number,
+  periods: number
+): number => {
+  // Nothing ever came back out: the whole investment was lost
+  if (finalBalance <= 0 && events.every((e) => e.amount >= 0)) return -100;
+
+  // Value of every flow at the horizon. It has the sign of the NPV, but
+  // discounting to period 0 underflows near -100% and gives 0 / 0 = NaN.
+  const futureValue = (rate: number) =>
+    events.reduce(
+      (acc, e) => acc - e.amount * Math.pow(1 + rate, periods - e.period),
+      -initialCapital * Math.pow(1 + rate, periods)
+    ) + Math.max(0, finalBalance);
+
+  let low = -0.9999;
+  let high = 1;
+  if (futureValue(low) <= 0) return -100;
+  while (futureValue(high) > 0 && high < 1e6) high *= 2;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (futureValue(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return (Math.pow(1 + (low + high) / 2, periods) - 1) * 100;
+};
+
+// Field-wise medians across runs
+export const medianCashFlowStats = (stats: CashFlowStats[]): CashFlowStats => ({
+  deposited: median(stats.map((s) => s.deposited)),
+  withdrawn: median(stats.map((s) => s.withdrawn)),
+  timeWeightedReturnPercent: median(
+    stats.map((s) => s.timeWeightedReturnPercent)
+  ),
+  moneyWeightedReturnPercent: median(
+    stats.map((s) => s.moneyWeightedReturnPercent)
+  ),
+});
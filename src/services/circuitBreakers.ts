@@ -0,0 +1,124 @@
+import type { CircuitBreakers } from "../types";
+import type { Rng } from "./random";
+import { randomPoisson } from "./random";
+
+export const DEFAULT_CIRCUIT_BREAKERS: CircuitBreakers = {
+  tradesPerDay: 3,
+  randomizeTradesPerDay: true,
+  dailyLossLimitPercent: 2,
+  pauseAfterLosses: 3,
+  pauseDays: 1,
+  equityStopPercent: 20,
+  stopAfterFirstWin: false,
+};
+
+// A cleared or zero rate still trades once a day on average: redrawing
+// empty days at a mean of 0 would never end
+export const opportunitiesPerDay = (rules: CircuitBreakers) =>
+  rules.tradesPerDay > 0 ? rules.tradesPerDay : 1;
+
+// The schedule with every rule switched off
+const withoutRules = (rules: CircuitBreakers): CircuitBreakers => ({
+  ...rules,
+  dailyLossLimitPercent: 0,
+  pauseAfterLosses: 0,
+  equityStopPercent: 0,
+  stopAfterFirstWin: false,
+});
+
+// Rule sets for the impact comparison: no rules, each active rule on its
+// own, then all of them together
+export const circuitBreakerVariants = (
+  rules: CircuitBreakers
+): { label: string; rules: CircuitBreakers }[] => {
+  const none = withoutRules(rules);
+  const single = [
+    rules.dailyLossLimitPercent > 0 && {
+      label: "Daily Loss Limit",
+      rules: { ...none, dailyLossLimitPercent: rules.dailyLossLimitPercent },
+    },
+    rules.pauseAfterLosses > 0 && {
+      label: "Loss-Streak Pause",
+      rules: {
+        ...none,
+        pauseAfterLosses: rules.pauseAfterLosses,
+        pauseDays: rules.pauseDays,
+      },
+    },
+    rules.equityStopPercent > 0 && {
+      label: "Equity Stop",
+      rules: { ...none, equityStopPercent: rules.equityStopPercent },
+    },
+    rules.stopAfterFirstWin && {
+      label: "Stop After First Win",
+      rules: { ...none, stopAfterFirstWin: true },
+    },
+  ].filter((v): v is { label: string; rules: CircuitBreakers } => !!v);
+
+  return [
+    { label: "No Rules", rules: none },
+    ...single,
+    ...(single.length > 1 ? [{ label: "All Rules", rules }] : []),
+  ];
+};
+
+// Decides, opportunity by opportunity, whether the trader is allowed to
+// trade. The schedule draws from its own Rng so that switching a rule on or
+// off doesn't reshuffle the day boundaries.
+export const createCircuitBreaker = (
+  rules: CircuitBreakers,
+  initialCapital: number,
+  scheduleRng: Rng
+) => {
+  const equityStop =
+    rules.equityStopPercent > 0
+      ? initialCapital * (1 - rules.equityStopPercent / 100)
+      : -Infinity;
+
+  const meanPerDay = opportunitiesPerDay(rules);
+  let opportunitiesLeftToday = 0;
+  let dayStartEquity = initialCapital;
+  let doneForDay = false;
+  let pausedDays = 0;
+  let lossStreak = 0;
+  let stopped = false;
+
+  const startDay = (equity: number) => {
+    // Days without any opportunity still count towards a pause
+    do {
+      if (pausedDays > 0) pausedDays--;
+      opportunitiesLeftToday = rules.randomizeTradesPerDay
+        ? randomPoisson(scheduleRng, meanPerDay)
+        : Math.max(1, Math.round(meanPerDay));
+    } while (opportunitiesLeftToday === 0);
+    dayStartEquity = equity;
+    doneForDay = false;
+  };
+
+  // Call once per trade opportunity, before drawing the trade
+  const allowsTrade = (equity: number): boolean => {
+    if (opportunitiesLeftToday === 0) startDay(equity);
+    opportunitiesLeftToday--;
+    return !stopped && !doneForDay && pausedDays === 0;
+  };
+
+  const record = (pnl: number, equity: number) => {
+    lossStreak = pnl < 0 ? lossStreak + 1 : 0;
+
+    if (equity <= equityStop) stopped = true;
+    if (
+      rules.dailyLossLimitPercent > 0 &&
+      ((dayStartEquity - equity) / dayStartEquity) * 100 >=
+        rules.dailyLossLimitPercent
+    ) {
+      doneForDay = true;
+    }
+    if (rules.stopAfterFirstWin && pnl > 0) doneForDay = true;
+    if (rules.pauseAfterLosses > 0 && lossStreak >= rules.pauseAfterLosses) {
+      pausedDays = Math.max(1, rules.pauseDays);
+      lossStreak = 0;
+    }
+  };
+
+  return { allowsTrade, record };
+};
@@ -0,0 +1,29 @@
+import { runComputeJob } from "./computeJobs";
+import type { ComputeRequest, ComputeResponse } from "./computeJobs";
+
+// Progress messages are throttled to 1% steps so a 5,000-iteration run
+// doesn't flood the main thread with updates
+const PROGRESS_STEP = 0.01;
+
+const post = (message: ComputeResponse) => self.postMessage(message);
+
+self.onmessage = (e: MessageEvent<ComputeRequest>) => {
+  const { id, kind, args } = e.data;
+  let lastReported = 0;
+
+  try {
+    const result = runComputeJob(kind, args, (fraction) => {
+      if (fraction - lastReported >= PROGRESS_STEP || fraction >= 1) {
+        lastReported = fraction;
+        post({ id, type: "progress", progress: fraction });
+      }
+    });
+    post({ id, type: "result", result });
+  } catch (err) {
+    post({
+      id,
+      type: "error",
+      message: err instanceof Error ? err.message : "Simulation failed.",
+    });
+  }
+};
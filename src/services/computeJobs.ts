@@ -0,0 +1,142 @@
+import type {
+  SimulationConfig,
+  PropFirmConfig,
+  FeeConfig,
+  RiskOfRuinConfig,
+  ParsedTrade,
+  ProgressCallback,
+  BootstrapConfig,
+  BootstrapResult,
+  SizingModel,
+  PerformanceSettings,
+  RiskOptimizerConfig,
+  RiskOptimizerResult,
+  SensitivityConfig,
+  SensitivityResult,
+  PortfolioConfig,
+  PortfolioResult,
+  CalendarConfig,
+  CalendarResult,
+} from "../types";
+import {
+  runMarketSimulations,
+  runPropFirmSimulation,
+  calculateFeeImpact,
+  calculateRiskOfRuinMonteCarlo,
+  analyzeTrades,
+  compareSizingModels,
+  compareCircuitBreakers,
+} from "./mathUtils";
+import { runBootstrapSimulation } from "./bootstrap";
+import { optimizeRiskPerTrade } from "./optimizer";
+import { runSensitivityGrid } from "./sensitivity";
+import { runPortfolioSimulation } from "./portfolio";
+import { runCalendarSimulation } from "./calendar";
+
+// Every heavy computation the modules can hand off to the compute worker.
+// Results are exactly what the engines return, so components can consume
+// them the same way whether they ran on the main thread or in the worker.
+export interface ComputeJobs {
+  market: {
+    args: SimulationConfig;
+    result: ReturnType<typeof runMarketSimulations>;
+  };
+  sizingComparison: {
+    args: { config: SimulationConfig; models: SizingModel[] };
+    result: ReturnType<typeof compareSizingModels>;
+  };
+  circuitBreakerComparison: {
+    args: SimulationConfig;
+    result: ReturnType<typeof compareCircuitBreakers>;
+  };
+  riskOptimizer: {
+    args: { config: SimulationConfig; optimizer: RiskOptimizerConfig };
+    result: RiskOptimizerResult;
+  };
+  calendar: {
+    args: { config: SimulationConfig; calendar: CalendarConfig };
+    result: CalendarResult;
+  };
+  propFirm: {
+    args: { config: PropFirmConfig; iterations: number };
+    result: ReturnType<typeof runPropFirmSimulation>;
+  };
+  fees: {
+    args: FeeConfig;
+    result: ReturnType<typeof calculateFeeImpact>;
+  };
+  ruin: {
+    args: RiskOfRuinConfig;
+    result: number;
+  };
+  sensitivity: {
+    args: SensitivityConfig;
+    result: SensitivityResult;
+  };
+  portfolio: {
+    args: PortfolioConfig;
+    result: PortfolioResult;
+  };
+  tradeAnalysis: {
+    args: {
+      trades: ParsedTrade[];
+      startBalance: number;
+      performanceSettings: PerformanceSettings;
+    };
+    result: ReturnType<typeof analyzeTrades>;
+  };
+  bootstrap: {
+    args: { trades: ParsedTrade[]; config: BootstrapConfig };
+    result: BootstrapResult;
+  };
+}
+
+export type ComputeJobKind = keyof ComputeJobs;
+export type ComputeJobArgs<K extends ComputeJobKind> = ComputeJobs[K]["args"];
+export type ComputeJobResult<K extends ComputeJobKind> =
+  ComputeJobs[K]["result"];
+
+export type ComputeRequest = {
+  [K in ComputeJobKind]: { id: number; kind: K; args: ComputeJobArgs<K> };
+}[ComputeJobKind];
+
+export type ComputeResponse<K extends ComputeJobKind = ComputeJobKind> =
+  | { id: number; type: "progress"; progress: number }
+  | { id: number; type: "result"; result: ComputeJobResult<K> }
+  | { id: number; type: "error"; message: string };
+
+const handlers: {
+  [K in ComputeJobKind]: (
+    args: ComputeJobArgs<K>,
+    onProgress?: ProgressCallback
+  ) => ComputeJobResult<K>;
+} = {
+  market: (config, onProgress) => runMarketSimulations(config, onProgress),
+  sizingComparison: ({ config, models }, onProgress) =>
+    compareSizingModels(config, models, onProgress),
+  circuitBreakerComparison: (config, onProgress) =>
+    compareCircuitBreakers(config, onProgress),
+  riskOptimizer: ({ config, optimizer }, onProgress) =>
+    optimizeRiskPerTrade(config, optimizer, onProgress),
+  calendar: ({ config, calendar }, onProgress) =>
+    runCalendarSimulation(config, calendar, onProgress),
+  propFirm: ({ config, iterations }, onProgress) =>
+    runPropFirmSimulation(config, iterations, onProgress),
+  fees: (config) => calculateFeeImpact(config),
+  ruin: (config, onProgress) =>
+    calculateRiskOfRuinMonteCarlo(config, onProgress),
+  sensitivity: (config, onProgress) => runSensitivityGrid(config, onProgress),
+  portfolio: (config, onProgress) => runPortfolioSimulation(config, onProgress),
+  tradeAnalysis: ({ trades, startBalance, performanceSettings }) =>
+    analyzeTrades(trades, startBalance, performanceSettings),
+  bootstrap: ({ trades, config }, onProgress) =>
+    runBootstrapSimulation(trades, config, onProgress),
+};
+
+export const COMPUTE_JOB_KINDS = Object.keys(handlers) as ComputeJobKind[];
+
+export const runComputeJob = <K extends ComputeJobKind>(
+  kind: K,
+  args: ComputeJobArgs<K>,
+  onProgress?: ProgressCallback
+): ComputeJobResult<K> => handlers[kind](args, onProgress);
@@ -0,0 +1,20 @@
+import type { CostModel } from "../types";
+
+export const DEFAULT_COST_MODEL: CostModel = {
+  commissionPerTrade: 5,
+  slippageR: 0.03,
+  riskFractionPercent: 0,
+};
+
+// Dollar cost of one trade. Nothing is charged when no trade is taken
+// (zero risk, e.g. a ruined account).
+export const tradeCost = (costs: CostModel, riskAmount: number): number =>
+  riskAmount > 0
+    ? costs.commissionPerTrade +
+      riskAmount * (costs.slippageR + costs.riskFractionPercent / 100)
+    : 0;
+
+// The same cost expressed in R at a given risk amount. The commission share
+// shrinks as the position grows, so this depends on the account size.
+export const costInR = (costs: CostModel, riskAmount: number): number =>
+  riskAmount > 0 ? tradeCost(costs, riskAmount) / riskAmount : 0;
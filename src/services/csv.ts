@@ -0,0 +1,37 @@
+type CsvValue = string | number | boolean | null | undefined;
+
+// Nested objects become dotted columns, e.g. performance.cagrPercent.
+// Arrays are kept as JSON text; they don't fit in a single cell otherwise.
+export const flattenRecord = (
+  record: object,
+  prefix = ""
+): Record<string, CsvValue> =>
+  Object.entries(record).reduce<Record<string, CsvValue>>(
+    (acc, [key, value]) => {
+      const column = prefix ? `${prefix}.${key}` : key;
+      if (value !== null && typeof value === "object") {
+        if (Array.isArray(value)) acc[column] = JSON.stringify(value);
+        else Object.assign(acc, flattenRecord(value, column));
+      } else {
+        acc[column] = value;
+      }
+      return acc;
+    },
+    {}
+  );
+
+const escapeCell = (value: CsvValue) => {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 text with one column per key seen in any row, in first-seen order
+export const toCsv = (rows: object[]): string => {
+  const flat = rows.map((row) => flattenRecord(row));
+  const columns = [...new Set(flat.flatMap((row) => Object.keys(row)))];
+  return [
+    columns.map(escapeCell).join(","),
+    ...flat.map((row) => columns.map((c) => escapeCell(row[c])).join(",")),
+  ].join("\n");
+};
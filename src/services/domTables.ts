@@ -0,0 +1,17 @@
+import type { HtmlTableReader } from "./htmlTables";
+
+const cellText = (cell: Element) =>
+  (cell.textContent ?? "").replace(/\u00a0/g, " ").trim();
+
+// Browser reader backed by DOMParser; gives the same cells as readHtmlTables
+export const readDomTables: HtmlTableReader = (html) => {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  return Array.from(doc.querySelectorAll("table"), (table) =>
+    Array.from(table.rows, (row) =>
+      Array.from(row.cells, (cell) => ({
+        text: cellText(cell),
+        isHeader: cell.tagName === "TH",
+      }))
+    )
+  ).filter((table) => table.length > 0);
+};
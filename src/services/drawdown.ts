@@ -0,0 +1,112 @@
+import type { DrawdownDurationStats } from "../types";
+import { CALENDAR_DAYS_PER_TRADING_DAY } from "./tradingDays";
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// Follows an equity curve point by point and measures how deep and, above
+// all, how long it stays below its high-water mark. Timestamps are optional
+// and only needed for the day-based duration.
+export const createDrawdownTracker = (
+  startEquity: number,
+  startTime?: number
+) => {
+  let peak = startEquity;
+  let peakTime = startTime;
+  let points = 0;
+  let drawdown = 0;
+  let maxDrawdown = 0;
+  let sumSquares = 0;
+
+  // Current and completed spells under water, in trades
+  let spellTrades = 0;
+  let closedSpells = 0;
+  let closedSpellTrades = 0;
+  let longestTrades = 0;
+  let longestMs: number | null = startTime === undefined ? null : 0;
+
+  // Trades from the trough of the deepest drawdown back to a new high
+  let worstTroughPoint = 0;
+  let worstRecoveryTrades: number | null = 0;
+
+  const record = (equity: number, time?: number) => {
+    points++;
+    // Time since the last high, when both ends carry a timestamp
+    const sincePeakMs =
+      time !== undefined && peakTime !== undefined ? time - peakTime : null;
+    const extendLongestMs = () => {
+      if (sincePeakMs !== null) {
+        longestMs = Math.max(longestMs ?? 0, sincePeakMs);
+      }
+    };
+
+    if (equity >= peak) {
+      if (spellTrades > 0) {
+        closedSpells++;
+        closedSpellTrades += spellTrades;
+        if (worstRecoveryTrades === null) {
+          worstRecoveryTrades = points - worstTroughPoint;
+        }
+        extendLongestMs();
+      }
+      spellTrades = 0;
+      peak = equity;
+      peakTime = time;
+      drawdown = 0;
+    } else {
+      spellTrades++;
+      if (spellTrades > longestTrades) longestTrades = spellTrades;
+      extendLongestMs();
+
+      drawdown = ((peak - equity) / peak) * 100;
+      if (drawdown > maxDrawdown) {
+        maxDrawdown = drawdown;
+        worstTroughPoint = points;
+        worstRecoveryTrades = null; // Pending until a new high
+      }
+    }
+
+    sumSquares += drawdown * drawdown;
+  };
+
+  const finish = (): DrawdownDurationStats & {
+    maxDrawdownPercent: number;
+  } => {
+    // An open spell at the end still counts towards the average
+    const spells = closedSpells + (spellTrades > 0 ? 1 : 0);
+    return {
+      maxDrawdownPercent: maxDrawdown,
+      longestDrawdownTrades: longestTrades,
+      avgDrawdownTrades:
+        spells > 0 ? (closedSpellTrades + spellTrades) / spells : 0,
+      worstDrawdownRecoveryTrades: worstRecoveryTrades,
+      ulcerIndex: points > 0 ? Math.sqrt(sumSquares / points) : 0,
+    };
+  };
+
+  return {
+    record,
+    finish,
+    // Longest time under water; null when the points carry no timestamps
+    getLongestDrawdownDays: () =>
+      longestMs === null ? null : longestMs / MS_PER_DAY,
+    getPeak: () => peak,
+    getDrawdownPercent: () => drawdown,
+  };
+};
+
+// Longest spell under water in trade slots, for day-based durations. A slot
+// without a trade (blocked by a breaker, or after ruin) still takes time.
+export const createUnderwaterClock = () => {
+  let spell = 0;
+  let longest = 0;
+
+  return {
+    tick: (drawdownPercent: number) => {
+      spell = drawdownPercent > 0 ? spell + 1 : 0;
+      if (spell > longest) longest = spell;
+    },
+    // Calendar days at the given number of trade slots per trading day
+    getLongestDays: (tradesPerDay: number) =>
+      (longest / tradesPerDay) * CALENDAR_DAYS_PER_TRADING_DAY,
+  };
+};
@@ -0,0 +1,5 @@
+// Whole dollars with thousands separators, the sign ahead of the $
+export const formatMoney = (value: number) =>
+  `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, {
+    maximumFractionDigits: 0,
+  })}`;
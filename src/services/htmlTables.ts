@@ -0,0 +1,64 @@
+// Broker reports come as HTML tables. The parsers only need the text of each
+// cell, so they read tables through this small shape and work the same with
+// the browser's DOMParser or the string reader below (Node, workers).
+
+export interface HtmlCell {
+  text: string;
+  isHeader: boolean; // <th> rather than <td>
+}
+
+export type HtmlRow = HtmlCell[];
+export type HtmlTable = HtmlRow[];
+export type HtmlTableReader = (html: string) => HtmlTable[];
+
+const ENTITIES: Record<string, string> = {
+  nbsp: " ", // Plain space, so "1&nbsp;250.00" cleans up like "1 250.00"
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, name: string) => {
+    if (name[0] === "#") {
+      const code =
+        name[1] === "x" || name[1] === "X"
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[name.toLowerCase()] ?? match;
+  });
+
+const cellText = (html: string) =>
+  decodeEntities(html.replace(/<[^>]*>/g, "")).trim();
+
+// Tolerant string reader: no DOM needed. Handles the unclosed <td>/<tr> tags
+// report generators like to emit. Every <table> starts a new table, so rows
+// of an outer table that follow a nested one are read with the nested one.
+export const readHtmlTables: HtmlTableReader = (html) =>
+  html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, "")
+    .split(/<table\b[^>]*>/i)
+    // Rows before the first table aren't in any table; the DOM drops them too
+    .slice(1)
+    .map((body) =>
+      body
+        .split(/<tr\b[^>]*>/i)
+        .slice(1)
+        .map((row) =>
+          Array.from(
+            row.matchAll(
+              /<(td|th)\b[^>]*>([\s\S]*?)(?=<\/?(?:td|th|tr|table)\b|$)/gi
+            ),
+            (m): HtmlCell => ({
+              text: cellText(m[2]),
+              isHeader: m[1].toLowerCase() === "th",
+            })
+          )
+        )
+    )
+    .filter((table) => table.length > 0);
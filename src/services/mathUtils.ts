@@ -2,49 +2,242 @@ import type {
   SimulationConfig,
   EquityPoint,
   SimulationStats,
+  SimulationSummary,
+  PercentileBand,
   PropFirmConfig,
   FeeConfig,
+  RiskOfRuinConfig,
   ParsedTrade,
+  ProgressCallback,
+  TradeStats,
+  SizingModel,
+  PerformanceStats,
+  PerformanceSettings,
+  CashFlowStats,
+  DataFormat,
+  PropFirmResult,
+  PropFirmOutcomeCounts,
+  FundedConfig,
+  FundedResult,
+  FundedSummary,
+  ChallengeEconomicsSummary,
+  PropFirmPath,
+  PropFirmPathPoint,
+  DaysDistribution,
 } from "../types";
+import { createRng, randomPoisson } from "./random";
+import type { Rng } from "./random";
+import {
+  summarizePercentiles,
+  percentile,
+  median,
+  mean,
+  rankRuns,
+  sortAscending,
+  buildHistogram,
+} from "./statistics";
+import { createPositionSizer } from "./sizing";
+import {
+  resolveOutcomes,
+  describeOutcomes,
+  withWinRate,
+  createOutcomeSampler,
+  kellyPercent,
+} from "./outcomes";
+import { createTradeStream } from "./sequence";
+import { tradeCost } from "./costs";
+import { DEFAULT_WIN_RATE_UNCERTAINTY, drawRunWinRate } from "./uncertainty";
+import { createDrawdownTracker, createUnderwaterClock } from "./drawdown";
+import {
+  simulatedPerformance,
+  timedPerformance,
+  medianPerformance,
+} from "./performance";
+import {
+  createCircuitBreaker,
+  circuitBreakerVariants,
+  opportunitiesPerDay,
+} from "./circuitBreakers";
+import {
+  scheduledCashFlow,
+  moneyWeightedReturn,
+  medianCashFlowStats,
+} from "./cashFlows";
+import type { CashFlowEvent } from "./cashFlows";
+import { createPhaseLimits } from "./propFirmRules";
+import { readHtmlTables } from "./htmlTables";
+import {
+  CALENDAR_DAYS_PER_TRADING_DAY,
+  tradesPerTradingDay,
+} from "./tradingDays";
+import type { HtmlTableReader } from "./htmlTables";
+
+// Equity at or below this fraction of the starting balance counts as ruin
+export const RUIN_EQUITY_FRACTION = 0.1;
+
+// Poisson trade count to simulate varying trade volume per day
+export const getDailyTradeVolume = (rng: Rng, tradesPerWeek: number): number =>
+  randomPoisson(rng, tradesPerTradingDay(tradesPerWeek));
+
+// Accumulates the statistics of one equity path trade by trade. Every engine
+// that reports SimulationStats goes through here so the metrics stay comparable.
+export const createRunTracker = (initialCapital: number) => {
+  let equity = initialCapital;
+  // Deposits and withdrawals buy or redeem units at the current unit value,
+  // so drawdowns and time-weighted returns follow the strategy, not the cash
+  // moved. Without cash flows there is one unit and its value is the equity.
+  let units = 1;
+  // Set once cash moves into or out of an empty account: no unit price exists
+  // there. Units are issued at this price again once a deposit brings the
+  // account back. A blown account (price at or below 0) ends the series: no
+  // return can be measured from nothing.
+  let frozenUnitValue: number | null = null;
+  const unitValue = () => frozenUnitValue ?? equity / units;
+  const drawdown = createDrawdownTracker(initialCapital);
+  let grossProfit = 0;
+  let grossLoss = 0;
+  let currentWinStreak = 0;
+  let currentLossStreak = 0;
+  let maxWinStreak = 0;
+  let maxLossStreak = 0;
+  let lowestBalance = initialCapital;
+  let tradesTaken = 0;
+
+  const record = (pnl: number) => {
+    equity += pnl;
+    tradesTaken++;
+    if (equity < lowestBalance) lowestBalance = equity;
+
+    if (pnl > 0) {
+      grossProfit += pnl;
+      currentWinStreak++;
+      currentLossStreak = 0;
+      if (currentWinStreak > maxWinStreak) maxWinStreak = currentWinStreak;
+    } else if (pnl < 0) {
+      grossLoss -= pnl;
+      currentLossStreak++;
+      currentWinStreak = 0;
+      if (currentLossStreak > maxLossStreak) maxLossStreak = currentLossStreak;
+    } else {
+      // Scratch trade: breaks both streaks
+      currentWinStreak = 0;
+      currentLossStreak = 0;
+    }
 
-// Helper to check if a trade is a win
-const isWin = (winRate: number) => Math.random() * 100 < winRate;
+    drawdown.record(unitValue());
+  };
 
-// Box-Muller transform for Normal Distribution
-// Used to simulate "Bad Months" vs "Good Months" (Win Rate Variance)
-const randomNormal = (mean: number, stdDev: number): number => {
-  const u1 = Math.random();
-  const u2 = Math.random();
-  const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-  return z0 * stdDev + mean;
-};
+  // + deposit, − withdrawal
+  const cashFlow = (amount: number) => {
+    if (frozenUnitValue === null && amount !== 0) {
+      if (equity > 0 && equity + amount > 0) {
+        units *= (equity + amount) / equity;
+      } else {
+        frozenUnitValue = unitValue();
+      }
+    }
+    equity += amount;
+    if (equity < lowestBalance) lowestBalance = equity;
+    if (frozenUnitValue !== null && frozenUnitValue > 0 && equity > 0) {
+      units = equity / frozenUnitValue;
+      frozenUnitValue = null;
+    }
+  };
 
-// Simple Poisson-like generator to simulate varying trade volume per day
-const getDailyTradeVolume = (tradesPerWeek: number): number => {
-  const lambda = tradesPerWeek / 5; // Avg trades per day
-  const L = Math.exp(-lambda);
-  let k = 0;
-  let p = 1;
-  do {
-    k++;
-    p *= Math.random();
-  } while (p > L);
-  return k - 1;
+  const finish = (): SimulationStats => ({
+    ...drawdown.finish(),
+    finalBalance: equity,
+    returnPercent: ((equity - initialCapital) / initialCapital) * 100,
+    profitFactor: grossLoss === 0 ? grossProfit : grossProfit / grossLoss,
+    maxWinStreak,
+    maxLossStreak,
+    lowestBalance,
+    tradesTaken,
+  });
+
+  return {
+    record,
+    cashFlow,
+    finish,
+    getEquity: () => equity,
+    getUnitValue: unitValue,
+    getDrawdownPercent: drawdown.getDrawdownPercent,
+    // Snapshot for position sizing rules
+    getSizingState: () => ({
+      equity,
+      // High-water mark in today's balance terms, net of cash moved since
+      peakEquity: drawdown.getPeak() * units,
+      initialCapital,
+      winStreak: currentWinStreak,
+    }),
+  };
 };
 
 export const runMarketSimulations = (
-  config: SimulationConfig
-): { chartData: EquityPoint[]; stats: SimulationStats[] } => {
+  config: SimulationConfig,
+  onProgress?: ProgressCallback
+): {
+  chartData: EquityPoint[];
+  bands: PercentileBand[];
+  // Drawdown % from each run's high, as negative numbers
+  underwaterBands: PercentileBand[];
+  stats: SimulationStats[];
+  summary: SimulationSummary;
+  // Cost-free counterparts, only present when a cost model is set
+  grossBands?: PercentileBand[];
+  grossSummary?: SimulationSummary;
+} => {
   const {
     initialCapital,
     riskPerTradePercent,
     winRatePercent,
     rewardToRiskRatio,
     numberOfTrades,
-    simulationCount,
+    seed,
+    sizing = { type: "FIXED_FRACTIONAL" },
+    outcomes,
+    sequence,
+    costs,
+    winRateUncertainty = DEFAULT_WIN_RATE_UNCERTAINTY,
+    circuitBreakers,
+    timeModel,
+    cashFlows,
   } = config;
+  // A cleared input reads 0; every summary needs at least one run
+  const simulationCount = Math.max(1, Math.round(config.simulationCount));
+
+  const rng = createRng(seed);
+  // Day boundaries come from a separate stream derived from the same seed
+  const scheduleRng = createRng(seed ^ 0x5bd1e995);
+  // Breakers group the opportunities into their own days
+  const tradesPerDay = circuitBreakers
+    ? opportunitiesPerDay(circuitBreakers)
+    : timeModel
+    ? tradesPerTradingDay(timeModel.tradesPerWeek)
+    : 0;
+  const baseOutcomes = resolveOutcomes(
+    winRatePercent,
+    rewardToRiskRatio,
+    outcomes
+  );
+  const baseWinRate = describeOutcomes(baseOutcomes).winRate;
+  const sizeTrade = createPositionSizer(
+    sizing,
+    riskPerTradePercent,
+    kellyPercent(baseOutcomes)
+  );
 
   const allStats: SimulationStats[] = [];
+  // Gross paths replay the same R draws without costs
+  const grossStats: SimulationStats[] = [];
+  const underwater: number[][] = Array.from(
+    { length: numberOfTrades + 1 },
+    () => new Array(simulationCount).fill(0)
+  );
+  const grossEquity: number[][] = Array.from(
+    { length: costs ? numberOfTrades + 1 : 0 },
+    () => new Array(simulationCount).fill(initialCapital)
+  );
   const chartData: EquityPoint[] = Array.from(
     { length: numberOfTrades + 1 },
     (_, i) => {
@@ -57,187 +250,705 @@ export const runMarketSimulations = (
   );
 
   for (let s = 0; s < simulationCount; s++) {
-    let currentEquity = initialCapital;
-    let peakEquity = initialCapital;
-    let maxDrawdown = 0;
-    let grossProfit = 0;
-    let grossLoss = 0;
-    let currentWinStreak = 0;
-    let currentLossStreak = 0;
-    let maxWinStreak = 0;
-    let maxLossStreak = 0;
-
+    const tracker = createRunTracker(initialCapital);
+    const grossTracker = createRunTracker(initialCapital);
     chartData[0][`sim_${s}`] = initialCapital;
 
     // Apply slight variance to win rate per simulation for realism
     const simWinRate = Math.max(
       1,
-      Math.min(99, randomNormal(winRatePercent, 2))
+      Math.min(99, drawRunWinRate(rng, winRateUncertainty, baseWinRate))
     );
+    const drawR = createTradeStream(rng, baseOutcomes, simWinRate, sequence);
 
-    for (let t = 1; t <= numberOfTrades; t++) {
-      const riskAmount = currentEquity * (riskPerTradePercent / 100);
-      const win = isWin(simWinRate);
+    const breaker =
+      circuitBreakers &&
+      createCircuitBreaker(circuitBreakers, initialCapital, scheduleRng);
 
-      if (win) {
-        const profit = riskAmount * rewardToRiskRatio;
-        currentEquity += profit;
-        grossProfit += profit;
+    // Unit values per trade, which the annualized metrics use once cash moves
+    const unitValues = [initialCapital];
+    const flowEvents: CashFlowEvent[] = [];
+    const underwaterClock = createUnderwaterClock();
+    let equityAfterFlow = initialCapital;
+    let grossEquityAfterFlow = initialCapital;
 
-        currentWinStreak++;
-        currentLossStreak = 0;
-        if (currentWinStreak > maxWinStreak) maxWinStreak = currentWinStreak;
-      } else {
-        const loss = riskAmount;
-        currentEquity -= loss;
-        grossLoss += loss;
-
-        currentLossStreak++;
-        currentWinStreak = 0;
-        if (currentLossStreak > maxLossStreak)
-          maxLossStreak = currentLossStreak;
+    for (let t = 1; t <= numberOfTrades; t++) {
+      // A blocked opportunity leaves the equity flat
+      if (!breaker || breaker.allowsTrade(tracker.getEquity())) {
+        const r = drawR();
+        const riskAmount = sizeTrade(tracker.getSizingState());
+        const pnl = riskAmount * r - (costs ? tradeCost(costs, riskAmount) : 0);
+        tracker.record(pnl);
+        if (costs) {
+          grossTracker.record(sizeTrade(grossTracker.getSizingState()) * r);
+        }
+        breaker?.record(pnl, tracker.getEquity());
       }
 
-      if (currentEquity > peakEquity) {
-        peakEquity = currentEquity;
+      if (cashFlows && t % Math.max(1, cashFlows.everyTrades) === 0) {
+        const amount = scheduledCashFlow(
+          cashFlows,
+          tracker.getEquity(),
+          tracker.getEquity() - equityAfterFlow
+        );
+        tracker.cashFlow(amount);
+        flowEvents.push({ period: t, amount });
+        equityAfterFlow = tracker.getEquity();
+        if (costs) {
+          grossTracker.cashFlow(
+            scheduledCashFlow(
+              cashFlows,
+              grossTracker.getEquity(),
+              grossTracker.getEquity() - grossEquityAfterFlow
+            )
+          );
+          grossEquityAfterFlow = grossTracker.getEquity();
+        }
       }
-      const dd = ((peakEquity - currentEquity) / peakEquity) * 100;
-      if (dd > maxDrawdown) maxDrawdown = dd;
 
-      chartData[t][`sim_${s}`] = currentEquity;
+      if (costs) grossEquity[t][s] = grossTracker.getEquity();
+      if (cashFlows) unitValues.push(tracker.getUnitValue());
+      chartData[t][`sim_${s}`] = tracker.getEquity();
+      underwater[t][s] = -tracker.getDrawdownPercent();
+      underwaterClock.tick(tracker.getDrawdownPercent());
     }
 
-    allStats.push({
-      finalBalance: currentEquity,
-      returnPercent: ((currentEquity - initialCapital) / initialCapital) * 100,
-      maxDrawdownPercent: maxDrawdown,
-      profitFactor: grossLoss === 0 ? grossProfit : grossProfit / grossLoss,
-      maxWinStreak,
-      maxLossStreak,
-    });
+    const runStats = tracker.finish();
+    const performance =
+      timeModel &&
+      simulatedPerformance(
+        cashFlows ? unitValues : chartData.map((point) => point[`sim_${s}`]),
+        timeModel,
+        runStats.maxDrawdownPercent
+      );
+    if (performance) runStats.performance = performance;
+    if (tradesPerDay > 0) {
+      runStats.longestDrawdownDays =
+        underwaterClock.getLongestDays(tradesPerDay);
+    }
+    if (cashFlows) {
+      runStats.cashFlows = {
+        deposited: flowEvents.reduce(
+          (acc, e) => acc + Math.max(0, e.amount),
+          0
+        ),
+        withdrawn: flowEvents.reduce(
+          (acc, e) => acc - Math.min(0, e.amount),
+          0
+        ),
+        timeWeightedReturnPercent:
+          (tracker.getUnitValue() / initialCapital - 1) * 100,
+        moneyWeightedReturnPercent: moneyWeightedReturn(
+          initialCapital,
+          flowEvents,
+          runStats.finalBalance,
+          numberOfTrades
+        ),
+      };
+    }
+    allStats.push(runStats);
+    if (costs) grossStats.push(grossTracker.finish());
+    onProgress?.((s + 1) / simulationCount);
   }
 
-  return { chartData, stats: allStats };
+  // Percentile fan across all runs at every trade index
+  const bands: PercentileBand[] = chartData.map((point) => ({
+    tradeNumber: point.tradeNumber,
+    ...summarizePercentiles(
+      Array.from({ length: simulationCount }, (_, s) => point[`sim_${s}`])
+    ),
+  }));
+
+  return {
+    chartData,
+    bands,
+    underwaterBands: underwater.map((values, tradeNumber) => ({
+      tradeNumber,
+      ...summarizePercentiles(values),
+    })),
+    stats: allStats,
+    summary: summarizeSimulationStats(allStats, initialCapital),
+    ...(costs && {
+      grossBands: grossEquity.map((values, tradeNumber) => ({
+        tradeNumber,
+        ...summarizePercentiles(values),
+      })),
+      grossSummary: summarizeSimulationStats(grossStats, initialCapital),
+    }),
+  };
 };
 
-export const runPropFirmSimulation = (
-  config: PropFirmConfig,
-  iterations: number = 2000
-): {
-  results: {
-    pass: number;
-    failMaxDD: number;
-    failDailyDD: number;
+export const summarizeSimulationStats = (
+  stats: SimulationStats[],
+  initialCapital: number
+): SimulationSummary => {
+  const ruinEquity = initialCapital * RUIN_EQUITY_FRACTION;
+  const returns = sortAscending(stats.map((s) => s.returnPercent));
+  const drawdowns = sortAscending(stats.map((s) => s.maxDrawdownPercent));
+  const profitFactors = sortAscending(stats.map((s) => s.profitFactor));
+  const longestDrawdowns = sortAscending(
+    stats.map((s) => s.longestDrawdownTrades)
+  );
+  const longestDrawdownDays = sortAscending(
+    stats
+      .map((s) => s.longestDrawdownDays)
+      .filter((d): d is number => d !== undefined)
+  );
+  const tradesTaken = sortAscending(stats.map((s) => s.tradesTaken));
+  const performances = stats
+    .map((s) => s.performance)
+    .filter((p): p is PerformanceStats => p !== undefined);
+  const cashFlows = stats
+    .map((s) => s.cashFlows)
+    .filter((c): c is CashFlowStats => c !== undefined);
+  const recoveries = sortAscending(
+    stats
+      .map((s) => s.worstDrawdownRecoveryTrades)
+      .filter((r): r is number => r !== null)
+  );
+
+  const finalBalances = stats.map((s) => s.finalBalance);
+
+  return {
+    medianFinalBalance: median(finalBalances),
+    medianReturnPercent: percentile(returns, 50),
+    p5ReturnPercent: percentile(returns, 5),
+    medianMaxDrawdownPercent: percentile(drawdowns, 50),
+    p95MaxDrawdownPercent: percentile(drawdowns, 95),
+    medianProfitFactor: percentile(profitFactors, 50),
+    medianLongestDrawdownTrades: percentile(longestDrawdowns, 50),
+    p95LongestDrawdownTrades: percentile(longestDrawdowns, 95),
+    ...(longestDrawdownDays.length > 0 && {
+      medianLongestDrawdownDays: percentile(longestDrawdownDays, 50),
+      p95LongestDrawdownDays: percentile(longestDrawdownDays, 95),
+    }),
+    medianAvgDrawdownTrades: median(stats.map((s) => s.avgDrawdownTrades)),
+    medianRecoveryTrades:
+      recoveries.length > 0 ? percentile(recoveries, 50) : null,
+    unrecoveredPercent:
+      ((stats.length - recoveries.length) / stats.length) * 100,
+    medianUlcerIndex: median(stats.map((s) => s.ulcerIndex)),
+    medianTradesTaken: percentile(tradesTaken, 50),
+    ...(performances.length > 0 && {
+      medianPerformance: medianPerformance(performances),
+    }),
+    ...(cashFlows.length > 0 && {
+      medianCashFlows: medianCashFlowStats(cashFlows),
+    }),
+    maxWinStreak: Math.max(...stats.map((s) => s.maxWinStreak)),
+    maxLossStreak: Math.max(...stats.map((s) => s.maxLossStreak)),
+    ruinProbability:
+      (stats.filter((s) => s.lowestBalance <= ruinEquity).length /
+        stats.length) *
+      100,
+    ...rankRuns(finalBalances),
+    finalBalanceHistogram: buildHistogram(finalBalances),
+    maxDrawdownHistogram: buildHistogram(drawdowns),
   };
-  avgDays: number;
-} => {
-  let pass = 0;
-  let failMaxDD = 0;
-  let failDailyDD = 0;
-  let totalDaysForPass = 0;
+};
 
-  const MAX_SIM_DAYS = 1000; // Cap to prevent infinite loops
+// Runs the same config (and seed) once per sizing model so the rules are
+// compared on an identical random stream
+export const compareSizingModels = (
+  config: SimulationConfig,
+  models: SizingModel[],
+  onProgress?: ProgressCallback
+): { model: SizingModel; summary: SimulationSummary }[] =>
+  models.map((model, i) => {
+    const { summary } = runMarketSimulations({ ...config, sizing: model });
+    onProgress?.((i + 1) / models.length);
+    return { model, summary };
+  });
 
-  for (let i = 0; i < iterations; i++) {
-    let currentPhase = 0;
-    let totalDays = 0;
-    let failed = false;
-
-    // REALISM FACTOR:
-    const runWinRate = Math.max(
-      5,
-      Math.min(95, randomNormal(config.winRatePercent, 4.5))
+// Runs the same config under each circuit-breaker variant (no rules, each
+// rule alone, all rules) to show what every rule costs or saves
+export const compareCircuitBreakers = (
+  config: SimulationConfig,
+  onProgress?: ProgressCallback
+): { label: string; summary: SimulationSummary }[] => {
+  if (!config.circuitBreakers) return [];
+  const variants = circuitBreakerVariants(config.circuitBreakers);
+  return variants.map(({ label, rules }, i) => {
+    const { summary } = runMarketSimulations({
+      ...config,
+      circuitBreakers: rules,
+    });
+    onProgress?.((i + 1) / variants.length);
+    return { label, summary };
+  });
+};
+
+const PROP_FIRM_OUTCOME_KEYS: Record<
+  PropFirmResult["outcome"],
+  keyof PropFirmOutcomeCounts
+> = {
+  PASS: "pass",
+  FAIL_MAX_DD: "failMaxDD",
+  FAIL_DAILY_DD: "failDailyDD",
+  FAIL_TIMEOUT: "failTimeout",
+  FAIL_CONSISTENCY: "failConsistency",
+};
+
+// One attempt at the whole challenge, phase by phase. Reaching the target
+// before the minimum trading days just means trading on as before until
+// both hold; the consistency rule is checked when the target is reached.
+// Given a path, every trade's equity and limits are added to it.
+const simulateChallenge = (
+  config: PropFirmConfig,
+  rng: Rng,
+  drawR: () => number,
+  sizeTrade: ReturnType<typeof createPositionSizer>,
+  path?: PropFirmPathPoint[]
+): PropFirmResult => {
+  const MAX_SIM_DAYS = 1000; // Cap to prevent infinite loops
+  let totalDays = 0;
+  let trade = 0;
+
+  const phases = config.phases.slice(0, config.steps);
+  for (const [index, phaseRules] of phases.entries()) {
+    const phase = index + 1;
+    let equity = config.accountSize;
+    let highWaterMark = config.accountSize;
+    let winStreak = 0;
+
+    const targetEquity =
+      config.accountSize * (1 + phaseRules.profitTargetPercent / 100);
+    const limits = createPhaseLimits(
+      phaseRules,
+      config.accountSize,
+      config.isTrailingDrawdown
     );
+    const minTradingDays = phaseRules.minTradingDays ?? 0;
+    // Last trading day that falls inside the time limit
+    const lastDay = phaseRules.maxCalendarDays
+      ? Math.floor(phaseRules.maxCalendarDays / CALENDAR_DAYS_PER_TRADING_DAY)
+      : Infinity;
+    const maxDayShare = phaseRules.maxDayProfitSharePercent;
+    const record = () =>
+      path?.push({
+        trade,
+        phase,
+        equity,
+        target: targetEquity,
+        totalFloor: limits.totalFloor(),
+        dailyFloor: limits.dailyFloor(),
+      });
+    record();
+
+    let phaseDay = 0;
+    let tradingDays = 0;
+    let bestDayProfit = 0;
+    let passed = false;
+
+    while (!passed) {
+      phaseDay++;
+      totalDays++;
+      if (totalDays > MAX_SIM_DAYS || phaseDay > lastDay) {
+        return { outcome: "FAIL_TIMEOUT", daysTaken: totalDays - 1, phase };
+      }
 
-    // Loop through phases
-    while (currentPhase < config.steps && !failed) {
-      const phaseRules = config.phases[currentPhase];
-      let equity = config.accountSize;
-      let highWaterMark = config.accountSize;
-
-      const profitTarget =
-        config.accountSize * (phaseRules.profitTargetPercent / 100);
-      const maxLossVal =
-        config.accountSize * (phaseRules.maxTotalDrawdownPercent / 100);
-      const staticMinEquity = config.accountSize - maxLossVal;
-
-      let phaseDay = 0;
-      let phaseOutcome: "PASS" | "FAIL" | null = null;
-
-      while (phaseOutcome === null) {
-        phaseDay++;
-        totalDays++;
-
-        if (totalDays > MAX_SIM_DAYS) {
-          failed = true;
-          failMaxDD++;
-          phaseOutcome = "FAIL";
-          break;
+      const startOfDayEquity = equity;
+      limits.startDay(equity);
+      const tradesToday = getDailyTradeVolume(rng, config.tradesPerWeek);
+      if (tradesToday > 0) tradingDays++;
+
+      for (let t = 0; t < tradesToday; t++) {
+        const riskAmount = sizeTrade({
+          equity,
+          peakEquity: highWaterMark,
+          initialCapital: config.accountSize,
+          winStreak,
+        });
+        const pnl = riskAmount * drawR();
+        equity += pnl;
+
+        if (pnl > 0) {
+          if (equity > highWaterMark) highWaterMark = equity;
+          winStreak++;
+        } else {
+          winStreak = 0;
         }
+        limits.recordTrade(equity);
+        trade++;
+        record();
 
-        const startOfDayEquity = equity;
-        const maxDailyLossVal =
-          startOfDayEquity * (phaseRules.maxDailyDrawdownPercent / 100);
-        const minEquityForDailyDD = startOfDayEquity - maxDailyLossVal;
+        if (equity <= limits.dailyFloor()) {
+          return { outcome: "FAIL_DAILY_DD", daysTaken: totalDays, phase };
+        }
+        if (equity <= limits.totalFloor()) {
+          return { outcome: "FAIL_MAX_DD", daysTaken: totalDays, phase };
+        }
 
-        const tradesToday = getDailyTradeVolume(config.tradesPerWeek);
+        if (equity >= targetEquity && tradingDays >= minTradingDays) {
+          if (maxDayShare !== undefined) {
+            const best = Math.max(bestDayProfit, equity - startOfDayEquity);
+            const total = equity - config.accountSize;
+            if (best > total * (maxDayShare / 100)) {
+              return {
+                outcome: "FAIL_CONSISTENCY",
+                daysTaken: totalDays,
+                phase,
+              };
+            }
+          }
+          passed = true;
+          break;
+        }
+      }
 
-        for (let t = 0; t < tradesToday; t++) {
-          const riskAmount = equity * (config.riskPerTradePercent / 100);
-          const win = isWin(runWinRate);
+      bestDayProfit = Math.max(bestDayProfit, equity - startOfDayEquity);
+      limits.endDay(equity);
+    }
+  }
 
-          if (win) {
-            equity += riskAmount * config.rewardToRiskRatio;
-            if (equity > highWaterMark) highWaterMark = equity;
-          } else {
-            equity -= riskAmount;
-          }
+  return { outcome: "PASS", daysTaken: totalDays, phase: phases.length };
+};
 
-          if (equity <= minEquityForDailyDD) {
-            failed = true;
-            failDailyDD++;
-            phaseOutcome = "FAIL";
-            break;
-          }
+// Whole trading days within a span of calendar days, at least one
+const toTradingDays = (calendarDays: number) =>
+  Math.max(1, Math.floor(calendarDays / CALENDAR_DAYS_PER_TRADING_DAY));
 
-          let currentMinEquityForMaxDD = staticMinEquity;
-          if (config.isTrailingDrawdown) {
-            currentMinEquityForMaxDD = highWaterMark - maxLossVal;
-          }
+// The funded account after a pass. It trades on under its own drawdown
+// rules; each payout date withdraws any profit (the trader gets the split)
+// and resets the account and its limits, and every scaling review that
+// made enough profit grows the account.
+const simulateFundedAccount = (
+  config: PropFirmConfig,
+  funded: FundedConfig,
+  rng: Rng,
+  drawR: () => number,
+  sizeTrade: ReturnType<typeof createPositionSizer>
+): FundedResult => {
+  const horizon = toTradingDays(funded.horizonDays);
+  const cycleDays = toTradingDays(funded.payoutCycleDays);
+  const { scaling } = funded;
+
+  let accountSize = config.accountSize;
+  let equity = accountSize;
+  let highWaterMark = accountSize;
+  let winStreak = 0;
+  let limits = createPhaseLimits(
+    funded,
+    accountSize,
+    config.isTrailingDrawdown
+  );
+  let payouts = 0;
+  let totalPayout = 0;
+  let cycles = 0;
+  let reviewProfit = 0;
+
+  const result = (day: number, isBlown: boolean): FundedResult => ({
+    payouts,
+    totalPayout,
+    daysFunded: day * CALENDAR_DAYS_PER_TRADING_DAY,
+    isBlown,
+    finalAccountSize: accountSize,
+  });
 
-          if (equity <= currentMinEquityForMaxDD) {
-            failed = true;
-            failMaxDD++;
-            phaseOutcome = "FAIL";
-            break;
-          }
+  for (let day = 1; day <= horizon; day++) {
+    limits.startDay(equity);
+    const tradesToday = getDailyTradeVolume(rng, config.tradesPerWeek);
+
+    for (let t = 0; t < tradesToday; t++) {
+      const riskAmount = sizeTrade({
+        equity,
+        peakEquity: highWaterMark,
+        initialCapital: accountSize,
+        winStreak,
+      });
+      const pnl = riskAmount * drawR();
+      equity += pnl;
+
+      if (pnl > 0) {
+        if (equity > highWaterMark) highWaterMark = equity;
+        winStreak++;
+      } else {
+        winStreak = 0;
+      }
+      limits.recordTrade(equity);
 
-          if (equity >= config.accountSize + profitTarget) {
-            phaseOutcome = "PASS";
-            break;
-          }
-        }
+      if (equity <= limits.dailyFloor() || equity <= limits.totalFloor()) {
+        return result(day, true);
+      }
+    }
+    limits.endDay(equity);
+
+    if (day % cycleDays !== 0) continue;
+    cycles++;
+    let isReset = false;
 
-        if (phaseOutcome === "PASS") break;
-        if (failed) break;
+    const profit = equity - accountSize;
+    if (profit > 0) {
+      totalPayout += profit * (funded.profitSplitPercent / 100);
+      if (payouts === 0 && funded.isFeeRefunded) {
+        totalPayout += config.challengeFee ?? 0;
       }
+      payouts++;
+      reviewProfit += profit;
+      equity = accountSize;
+      isReset = true;
+    }
 
-      if (phaseOutcome === "PASS") {
-        currentPhase++;
-      } else {
-        break;
+    if (scaling && scaling.reviewCycles > 0) {
+      if (cycles % scaling.reviewCycles === 0) {
+        const target = accountSize * (scaling.profitPercent / 100);
+        if (reviewProfit >= target && accountSize < scaling.maxAccountSize) {
+          const increase = Math.min(
+            config.accountSize * (scaling.increasePercent / 100),
+            scaling.maxAccountSize - accountSize
+          );
+          accountSize += increase;
+          equity += increase;
+          isReset = true;
+        }
+        reviewProfit = 0;
       }
     }
 
-    if (!failed) {
-      pass++;
-      totalDaysForPass += totalDays;
+    if (isReset) {
+      limits = createPhaseLimits(
+        funded,
+        accountSize,
+        config.isTrailingDrawdown
+      );
+      highWaterMark = equity;
+    }
+  }
+
+  return result(horizon, false);
+};
+
+const summarizeFunded = (
+  accounts: FundedResult[],
+  funded: FundedConfig
+): FundedSummary => {
+  const count = accounts.length;
+  const payouts = accounts.map((a) => a.totalPayout);
+  const blown = accounts.filter((a) => a.isBlown);
+
+  // Share of accounts still open on each payout date
+  const cycleDays = toTradingDays(funded.payoutCycleDays);
+  const survival: FundedSummary["survival"] = [];
+  for (let d = 0; d <= toTradingDays(funded.horizonDays); d += cycleDays) {
+    const day = d * CALENDAR_DAYS_PER_TRADING_DAY;
+    const lost = blown.filter((a) => a.daysFunded <= day).length;
+    survival.push({ day, survivingPercent: ((count - lost) / count) * 100 });
+  }
+
+  return {
+    accounts: count,
+    avgPayouts: mean(accounts.map((a) => a.payouts)),
+    avgTotalPayout: mean(payouts),
+    payoutPercentiles: summarizePercentiles(payouts),
+    payoutHistogram: buildHistogram(payouts),
+    noPayoutPercent:
+      (accounts.filter((a) => a.payouts === 0).length / count) * 100,
+    blownPercent: (blown.length / count) * 100,
+    // Accounts still open count as lasting the whole horizon
+    medianDaysFunded:
+      blown.length > count / 2
+        ? median(accounts.map((a) => a.daysFunded))
+        : null,
+    survival,
+    avgFinalAccountSize: mean(accounts.map((a) => a.finalAccountSize)),
+  };
+};
+
+// Price of the given attempt (1 = the first); retries cost the reset fee,
+// or the challenge fee again, less the retry discount
+const attemptPrice = (config: PropFirmConfig, attempt: number) => {
+  const fee = config.challengeFee ?? 0;
+  if (attempt === 1 || !config.retries) return fee;
+  const { resetFee = fee, discountPercent } = config.retries;
+  return resetFee * (1 - discountPercent / 100);
+};
+
+interface Venture {
+  fundedAt: number | null; // Attempt that passed
+  spend: number;
+  payout: number;
+}
+
+const summarizeEconomics = (
+  ventures: Venture[],
+  maxAttempts: number
+): ChallengeEconomicsSummary => {
+  const count = ventures.length;
+  const net = ventures.map((v) => v.payout - v.spend);
+
+  return {
+    fundedWithinPercent: Array.from(
+      { length: maxAttempts },
+      (_, i) =>
+        (ventures.filter((v) => v.fundedAt !== null && v.fundedAt <= i + 1)
+          .length /
+          count) *
+        100
+    ),
+    avgAttempts: mean(ventures.map((v) => v.fundedAt ?? maxAttempts)),
+    avgSpend: mean(ventures.map((v) => v.spend)),
+    avgPayout: mean(ventures.map((v) => v.payout)),
+    avgNetProfit: mean(net),
+    netProfitPercentiles: summarizePercentiles(net),
+    netProfitHistogram: buildHistogram(net),
+    profitablePercent: (net.filter((n) => n > 0).length / count) * 100,
+  };
+};
+
+const emptyOutcomeCounts = (): PropFirmOutcomeCounts => ({
+  pass: 0,
+  failMaxDD: 0,
+  failDailyDD: 0,
+  failTimeout: 0,
+  failConsistency: 0,
+});
+
+const daysDistribution = (days: number[]): DaysDistribution => {
+  const sorted = sortAscending(days);
+  return {
+    histogram: buildHistogram(days),
+    median: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+  };
+};
+
+// Paths are kept from the first attempts of the first traders only, a few
+// of each outcome
+const PATH_SAMPLE_TRADERS = 500;
+const PATHS_PER_OUTCOME = 2;
+const MAX_SAMPLE_PATHS = 6;
+
+export const runPropFirmSimulation = (
+  config: PropFirmConfig,
+  iterationCount: number = 2000,
+  onProgress?: ProgressCallback
+): {
+  results: PropFirmOutcomeCounts;
+  avgDays: number; // Trading days to pass, over the attempts that passed
+  phaseResults: PropFirmOutcomeCounts[]; // Where attempts ended; pass = passed it
+  passDays?: DaysDistribution;
+  failDays?: DaysDistribution;
+  samplePaths: PropFirmPath[];
+  funded?: FundedSummary; // When config.funded is set and an attempt passed
+  economics?: ChallengeEconomicsSummary; // When there's a fee or retries
+} => {
+  // The summaries divide by the number of traders
+  const iterations = Math.max(1, Math.round(iterationCount));
+  const results = emptyOutcomeCounts();
+  const phaseResults = config.phases
+    .slice(0, config.steps)
+    .map(emptyOutcomeCounts);
+  let totalDaysForPass = 0;
+  const passDays: number[] = [];
+  const failDays: number[] = [];
+  const samplePaths: PropFirmPath[] = [];
+  const fundedAccounts: FundedResult[] = [];
+  const ventures: Venture[] = [];
+  const maxAttempts = Math.max(1, Math.round(config.retries?.maxAttempts ?? 1));
+
+  const rng = createRng(config.seed);
+  const baseOutcomes = resolveOutcomes(
+    config.winRatePercent,
+    config.rewardToRiskRatio,
+    config.outcomes
+  );
+  const baseWinRate = describeOutcomes(baseOutcomes).winRate;
+  const winRateUncertainty =
+    config.winRateUncertainty ?? DEFAULT_WIN_RATE_UNCERTAINTY;
+  const sizeTrade = createPositionSizer(
+    config.sizing ?? { type: "FIXED_FRACTIONAL" },
+    config.riskPerTradePercent,
+    kellyPercent(baseOutcomes)
+  );
+
+  // Each iteration is one trader. The outcome counts and days to pass are
+  // for the first attempt; retries only feed the economics.
+  for (let i = 0; i < iterations; i++) {
+    const venture: Venture = { fundedAt: null, spend: 0, payout: 0 };
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      venture.spend += attemptPrice(config, attempt);
+
+      // REALISM FACTOR:
+      const runWinRate = Math.max(
+        5,
+        Math.min(95, drawRunWinRate(rng, winRateUncertainty, baseWinRate))
+      );
+      const drawR = createTradeStream(
+        rng,
+        baseOutcomes,
+        runWinRate,
+        config.sequence
+      );
+
+      const isSampled =
+        attempt === 1 &&
+        i < PATH_SAMPLE_TRADERS &&
+        samplePaths.length < MAX_SAMPLE_PATHS;
+      const points: PropFirmPathPoint[] | undefined = isSampled
+        ? []
+        : undefined;
+      const result = simulateChallenge(config, rng, drawR, sizeTrade, points);
+      const { outcome, daysTaken, phase } = result;
+
+      if (attempt === 1) {
+        const key = PROP_FIRM_OUTCOME_KEYS[outcome];
+        results[key]++;
+        phaseResults[phase - 1][key]++;
+        // Passing a later phase means every earlier one was passed too
+        for (let p = 0; p < phase - 1; p++) phaseResults[p].pass++;
+
+        if (outcome === "PASS") {
+          totalDaysForPass += daysTaken;
+          passDays.push(daysTaken);
+        } else {
+          failDays.push(daysTaken);
+        }
+
+        if (
+          points &&
+          samplePaths.filter((path) => path.outcome === outcome).length <
+            PATHS_PER_OUTCOME
+        ) {
+          samplePaths.push({ ...result, points });
+        }
+      }
+      if (outcome !== "PASS") continue;
+
+      venture.fundedAt = attempt;
+      // The same trader, on the same trade stream, goes on to the funded stage
+      if (config.funded) {
+        const account = simulateFundedAccount(
+          config,
+          config.funded,
+          rng,
+          drawR,
+          sizeTrade
+        );
+        fundedAccounts.push(account);
+        venture.payout = account.totalPayout;
+      }
+      break;
     }
+
+    ventures.push(venture);
+    onProgress?.((i + 1) / iterations);
   }
 
   return {
-    results: { pass, failMaxDD, failDailyDD },
-    avgDays: pass > 0 ? totalDaysForPass / pass : 0,
+    results,
+    avgDays: results.pass > 0 ? totalDaysForPass / results.pass : 0,
+    phaseResults,
+    ...(passDays.length > 0 && { passDays: daysDistribution(passDays) }),
+    ...(failDays.length > 0 && { failDays: daysDistribution(failDays) }),
+    samplePaths,
+    ...(config.funded &&
+      fundedAccounts.length > 0 && {
+        funded: summarizeFunded(fundedAccounts, config.funded),
+      }),
+    ...((config.challengeFee || config.retries) && {
+      economics: summarizeEconomics(ventures, maxAttempts),
+    }),
   };
 };
 
@@ -280,28 +991,40 @@ export const calculateFeeImpact = (config: FeeConfig) => {
 };
 
 export const calculateRiskOfRuinMonteCarlo = (
-  winRate: number,
-  rewardRisk: number,
-  riskPerTrade: number
+  config: RiskOfRuinConfig,
+  onProgress?: ProgressCallback
 ): number => {
+  const {
+    winRate,
+    rewardRisk,
+    riskPerTrade,
+    seed,
+    outcomes,
+    winRateUncertainty = DEFAULT_WIN_RATE_UNCERTAINTY,
+  } = config;
   // Monte Carlo approximation
   const SIMS = 5000;
   const TRADES = 1000;
   let ruins = 0;
   const startCapital = 10000;
-  const ruinThreshold = startCapital * 0.1;
+  const ruinThreshold = startCapital * RUIN_EQUITY_FRACTION;
+  const rng = createRng(seed);
+  const baseOutcomes = resolveOutcomes(winRate, rewardRisk, outcomes);
+  const baseWinRate = describeOutcomes(baseOutcomes).winRate;
 
   for (let i = 0; i < SIMS; i++) {
     let equity = startCapital;
     let ruined = false;
     // Apply variation here too
-    const simWinRate = Math.max(1, Math.min(99, randomNormal(winRate, 3)));
+    const simWinRate = Math.max(
+      1,
+      Math.min(99, drawRunWinRate(rng, winRateUncertainty, baseWinRate))
+    );
+    const drawR = createOutcomeSampler(withWinRate(baseOutcomes, simWinRate));
 
     for (let t = 0; t < TRADES; t++) {
       const riskAmt = equity * (riskPerTrade / 100);
-      const isWin = Math.random() * 100 < simWinRate;
-      if (isWin) equity += riskAmt * rewardRisk;
-      else equity -= riskAmt;
+      equity += riskAmt * drawR(rng);
 
       if (equity <= ruinThreshold) {
         ruined = true;
@@ -309,6 +1032,7 @@ export const calculateRiskOfRuinMonteCarlo = (
       }
     }
     if (ruined) ruins++;
+    onProgress?.((i + 1) / SIMS);
   }
 
   return (ruins / SIMS) * 100;
@@ -330,6 +1054,97 @@ export const calculateStreakProb = (
   return Math.min(chance * 100, 99.99);
 };
 
+// Rebuilds the equity curve of imported trades from a starting balance and
+// derives the headline performance statistics
+export const analyzeTrades = (
+  rawTrades: ParsedTrade[],
+  startBalance: number,
+  performanceSettings: PerformanceSettings = {
+    returnPeriod: "DAILY",
+    riskFreeRatePercent: 0,
+  }
+): {
+  chartData: ParsedTrade[];
+  underwater: { index: number; drawdownPercent: number }[];
+  stats: TradeStats;
+} => {
+  let runningEquity = startBalance;
+  // Remap the raw trades to calculate the new equity curve
+  const chartData = rawTrades.map((t, i) => {
+    if (i === 0) return { ...t, equity: startBalance };
+    runningEquity += t.pnl;
+    return { ...t, equity: runningEquity };
+  });
+
+  let wins = 0;
+  let losses = 0;
+  let totalWinAmt = 0;
+  let totalLossAmt = 0;
+  const drawdown = createDrawdownTracker(startBalance, chartData[0]?.timestamp);
+  // Drawdown % after every trade (as a negative number) for the underwater chart
+  const underwater = [{ index: 0, drawdownPercent: 0 }];
+  const timestamps: number[] = [];
+
+  chartData.forEach((t) => {
+    if (t.index === 0) return; // skip start point
+    if (t.timestamp) timestamps.push(t.timestamp);
+
+    if (t.pnl > 0) {
+      wins++;
+      totalWinAmt += t.pnl;
+    } else {
+      losses++;
+      totalLossAmt += Math.abs(t.pnl);
+    }
+
+    drawdown.record(t.equity, t.timestamp);
+    underwater.push({
+      index: t.index,
+      drawdownPercent: -drawdown.getDrawdownPercent(),
+    });
+  });
+
+  const tradeCount = chartData.length - 1;
+  const winRate = tradeCount > 0 ? (wins / tradeCount) * 100 : 0;
+  const avgWin = wins > 0 ? totalWinAmt / wins : 0;
+  const avgLoss = losses > 0 ? totalLossAmt / losses : 0;
+  const rr = avgLoss > 0 ? avgWin / avgLoss : 0;
+  const netProfit = chartData[chartData.length - 1].equity - startBalance;
+
+  // Calculate Trades Per Week
+  let tradesPerWeek = 0;
+  if (timestamps.length > 1) {
+    const minTime = Math.min(...timestamps);
+    const maxTime = Math.max(...timestamps);
+    const durationMs = maxTime - minTime;
+    const weeks = Math.max(durationMs / (1000 * 60 * 60 * 24 * 7), 1 / 7); // Min duration 1 day
+    tradesPerWeek = tradeCount / weeks;
+  }
+
+  const { maxDrawdownPercent, ...durations } = drawdown.finish();
+
+  return {
+    chartData,
+    underwater,
+    stats: {
+      ...durations,
+      totalTrades: tradeCount,
+      winRate,
+      avgRR: rr,
+      maxDrawdown: maxDrawdownPercent,
+      netProfit,
+      tradesPerWeek,
+      longestDrawdownDays: drawdown.getLongestDrawdownDays(),
+      performance: timedPerformance(
+        chartData.slice(1),
+        startBalance,
+        performanceSettings,
+        maxDrawdownPercent
+      ),
+    },
+  };
+};
+
 // --- DATA PARSERS ---
 
 // Helper to parse DD/MM/YYYY or YYYY.MM.DD
@@ -453,15 +1268,16 @@ export const parseGenericCSV = (
   return trades;
 };
 
+// HTML reports are read through `readTables`: the string reader by default,
+// so they parse outside the browser too
 export const parseMT4Report = (
   html: string,
-  startBalance: number
+  startBalance: number,
+  readTables: HtmlTableReader = readHtmlTables
 ): ParsedTrade[] | null => {
   try {
-    const parser = new DOMParser();
-    const doc = parser.parseFromString(html, "text/html");
     // MT4/MT5 usually have tables. We look for rows.
-    const rows = Array.from(doc.querySelectorAll("tr"));
+    const rows = readTables(html).flat();
 
     const trades: ParsedTrade[] = [];
     let runningEquity = startBalance;
@@ -470,10 +1286,13 @@ export const parseMT4Report = (
 
     // Standard MT4 HTML Report structure
     for (const row of rows) {
-      const cells = Array.from(row.querySelectorAll("td"));
+      const cells = row.filter((c) => !c.isHeader);
       if (cells.length < 5) continue;
 
-      const textContent = row.textContent?.toLowerCase() || "";
+      const textContent = row
+        .map((c) => c.text)
+        .join(" ")
+        .toLowerCase();
       const isTrade =
         textContent.includes("buy") || textContent.includes("sell");
       if (
@@ -483,15 +1302,14 @@ export const parseMT4Report = (
       )
         continue;
 
-      const profitText =
-        cells[cells.length - 1].textContent?.trim().replace(/ /g, "") || "";
+      const profitText = cells[cells.length - 1].text.replace(/ /g, "");
       const profit = parseFloat(profitText);
 
       // Try to extract time.
       let closeTime: number | undefined = undefined;
       // Iterate cells backwards from profit to find a date
       for (let i = cells.length - 2; i >= 0; i--) {
-        const txt = cells[i].textContent?.trim() || "";
+        const txt = cells[i].text;
         if (txt.match(/\d{4}\.\d{2}\.\d{2}/)) {
           closeTime = parseDateString(txt);
           break;
@@ -519,27 +1337,20 @@ export const parseMT4Report = (
 
 export const parseCTrader = (
   text: string,
-  startBalance: number
+  startBalance: number,
+  readTables: HtmlTableReader = readHtmlTables
 ): ParsedTrade[] | null => {
   // 1. Try HTML Parsing
   if (text.includes("<html") || text.includes("<table")) {
     try {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(text, "text/html");
-      const tables = Array.from(doc.querySelectorAll("table"));
-
-      for (const table of tables) {
-        const rows = Array.from(table.querySelectorAll("tr"));
-
+      for (const rows of readTables(text)) {
         let headerRowIndex = -1;
         let pnlColIndex = -1;
         let timeColIndex = -1;
 
         // Scan all rows to find the header row
         for (let i = 0; i < rows.length; i++) {
-          const cells = Array.from(rows[i].querySelectorAll("td, th")).map(
-            (c) => c.textContent?.trim().toLowerCase() || ""
-          );
+          const cells = rows[i].map((c) => c.text.toLowerCase());
 
           // Look for PnL column (Net $, Net USD, Net Profit, etc.)
           const pIdx = cells.findIndex(
@@ -568,13 +1379,12 @@ export const parseCTrader = (
 
           // Iterate rows AFTER header row
           for (let i = headerRowIndex + 1; i < rows.length; i++) {
-            const row = rows[i];
-            const cells = row.querySelectorAll("td");
+            const cells = rows[i].filter((c) => !c.isHeader);
 
             // Check if it's a valid data row (skipping malformed rows)
             if (cells.length <= pnlColIndex) continue;
 
-            const cellText = cells[pnlColIndex].textContent?.trim() || "";
+            const cellText = cells[pnlColIndex].text;
 
             // Clean value (handles spaces like "9 755.09" or commas)
             const cleanVal = cellText.replace(/[^0-9.-]/g, "");
@@ -586,7 +1396,7 @@ export const parseCTrader = (
             let timestamp: number | undefined = undefined;
             // Extract timestamp if column exists
             if (timeColIndex !== -1 && cells.length > timeColIndex) {
-              const timeStr = cells[timeColIndex].textContent?.trim() || "";
+              const timeStr = cells[timeColIndex].text;
               if (timeStr) {
                 timestamp = parseDateString(timeStr);
               }
@@ -669,3 +1479,39 @@ export const parseCTrader = (
 
   return count > 0 ? trades : null;
 };
+
+// Parses a trade file in the given format, throwing a readable error when
+// nothing usable is found
+export const parseTradeReport = (
+  text: string,
+  format: DataFormat,
+  startBalance: number,
+  readTables: HtmlTableReader = readHtmlTables
+): ParsedTrade[] => {
+  let parsedTrades: ParsedTrade[] | null = null;
+
+  if (format === "GENERIC_CSV") {
+    parsedTrades = parseGenericCSV(text, startBalance);
+    if (!parsedTrades)
+      throw new Error(
+        "Could not find a 'PnL', 'Profit' or 'Net Profit' column."
+      );
+  } else if (format === "MT4_MT5") {
+    parsedTrades = parseMT4Report(text, startBalance, readTables);
+    if (!parsedTrades)
+      throw new Error(
+        "Could not parse MT4/5 Report. Ensure it is the standard HTML Export."
+      );
+  } else if (format === "CTRADER") {
+    parsedTrades = parseCTrader(text, startBalance, readTables);
+    if (!parsedTrades)
+      throw new Error(
+        "Could not parse cTrader file. Ensure it contains a 'Net', 'Net $' or 'Net [Currency]' column."
+      );
+  }
+
+  if (!parsedTrades || parsedTrades.length === 0) {
+    throw new Error("No trades found in the file.");
+  }
+  return parsedTrades;
+};
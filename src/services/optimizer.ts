@@ -0,0 +1,99 @@
+import type {
+  ProgressCallback,
+  RiskConstraint,
+  RiskOptimizerConfig,
+  RiskOptimizerResult,
+  RiskSweepPoint,
+  SimulationConfig,
+  SimulationSummary,
+} from "../types";
+import { runMarketSimulations } from "./mathUtils";
+import { kellyPercent, resolveOutcomes } from "./outcomes";
+import { withIndependentTrades } from "./sequence";
+
+const meetsConstraint = (
+  summary: SimulationSummary,
+  constraint: RiskConstraint
+): boolean =>
+  constraint.type === "MAX_DRAWDOWN"
+    ? summary.p95MaxDrawdownPercent <= constraint.p95MaxDrawdownPercent
+    : summary.ruinProbability <= constraint.maxRuinPercent;
+
+// Evenly spaced risk levels plus full and half Kelly, so both reference
+// points sit exactly on the curve
+const sweepLevels = (
+  { minRiskPercent, maxRiskPercent, steps }: RiskOptimizerConfig,
+  kellyLevels: number[]
+): number[] => {
+  const count = Math.max(2, Math.round(steps));
+  const low = Math.max(0.01, Math.min(minRiskPercent, maxRiskPercent));
+  const high = Math.max(low, maxRiskPercent);
+  const grid = Array.from(
+    { length: count },
+    (_, i) => low + ((high - low) * i) / (count - 1)
+  );
+  const levels = [...grid, ...kellyLevels.filter((k) => k > 0)].map(
+    (r) => Math.round(r * 100) / 100
+  );
+  return [...new Set(levels)].sort((a, b) => a - b);
+};
+
+// Runs the market simulation at every risk level (fixed-fractional sizing,
+// same seed) and picks the level with the highest median geometric growth
+// that still meets the constraint
+export const optimizeRiskPerTrade = (
+  config: SimulationConfig,
+  optimizer: RiskOptimizerConfig,
+  onProgress?: ProgressCallback
+): RiskOptimizerResult => {
+  // Kelly for the long-run edge (a sequence model shifts the win rate)
+  const longRun = withIndependentTrades(config);
+  const fullKellyPercent = Math.min(
+    100,
+    kellyPercent(
+      resolveOutcomes(
+        longRun.winRatePercent,
+        longRun.rewardToRiskRatio,
+        longRun.outcomes
+      )
+    )
+  );
+  const halfKellyPercent = fullKellyPercent / 2;
+
+  const levels = sweepLevels(optimizer, [fullKellyPercent, halfKellyPercent]);
+  const points: RiskSweepPoint[] = levels.map((riskPercent, i) => {
+    const { summary } = runMarketSimulations({
+      ...config,
+      riskPerTradePercent: riskPercent,
+      sizing: { type: "FIXED_FRACTIONAL" },
+    });
+    onProgress?.((i + 1) / levels.length);
+
+    const growthFactor = Math.max(
+      0,
+      summary.medianFinalBalance / config.initialCapital
+    );
+    return {
+      riskPercent,
+      medianGrowthPercent:
+        (Math.pow(growthFactor, 1 / Math.max(1, config.numberOfTrades)) - 1) *
+        100,
+      medianReturnPercent: summary.medianReturnPercent,
+      p95MaxDrawdownPercent: summary.p95MaxDrawdownPercent,
+      ruinProbability: summary.ruinProbability,
+      feasible: meetsConstraint(summary, optimizer.constraint),
+    };
+  });
+
+  const best = points
+    .filter((p) => p.feasible)
+    .reduce<RiskSweepPoint | null>(
+      (acc, p) =>
+        acc === null || p.medianGrowthPercent > acc.medianGrowthPercent
+          ? p
+          : acc,
+      null
+    );
+
+  return { points, best, fullKellyPercent, halfKellyPercent };
+};
@@ -0,0 +1,129 @@
+import type { OutcomeBucket } from "../types";
+import type { Rng } from "./random";
+
+// Example table: partial winners, scratches and the occasional slipped stop
+export const DEFAULT_OUTCOME_TABLE: OutcomeBucket[] = [
+  { probabilityPercent: 35, rMultiple: 2 },
+  { probabilityPercent: 10, rMultiple: 0.5 },
+  { probabilityPercent: 15, rMultiple: 0 },
+  { probabilityPercent: 38, rMultiple: -1 },
+  { probabilityPercent: 2, rMultiple: -1.8 },
+];
+
+// The classic two-point model: win +rewardRisk R or lose 1R
+export const binaryOutcomes = (
+  winRatePercent: number,
+  rewardRisk: number
+): OutcomeBucket[] => [
+  { probabilityPercent: winRatePercent, rMultiple: rewardRisk },
+  { probabilityPercent: 100 - winRatePercent, rMultiple: -1 },
+];
+
+// An explicit table wins over the win rate / R:R pair when one is given
+export const resolveOutcomes = (
+  winRatePercent: number,
+  rewardRisk: number,
+  outcomes?: OutcomeBucket[]
+): OutcomeBucket[] =>
+  outcomes && outcomes.length > 0
+    ? outcomes
+    : binaryOutcomes(winRatePercent, rewardRisk);
+
+const totalProbability = (buckets: OutcomeBucket[]) =>
+  buckets.reduce((acc, b) => acc + Math.max(0, b.probabilityPercent), 0);
+
+// Win rate, expectancy and variance (in R) implied by a table. Probabilities
+// are normalized, so a table that doesn't sum to exactly 100% still works.
+export const describeOutcomes = (buckets: OutcomeBucket[]) => {
+  const total = totalProbability(buckets);
+  if (total === 0) {
+    return { totalProbability: 0, winRate: 0, expectancy: 0, variance: 0 };
+  }
+
+  let winRate = 0;
+  let expectancy = 0;
+  buckets.forEach((b) => {
+    const p = Math.max(0, b.probabilityPercent) / total;
+    if (b.rMultiple > 0) winRate += p;
+    expectancy += p * b.rMultiple;
+  });
+  const variance = buckets.reduce((acc, b) => {
+    const p = Math.max(0, b.probabilityPercent) / total;
+    return acc + p * Math.pow(b.rMultiple - expectancy, 2);
+  }, 0);
+
+  return {
+    totalProbability: total,
+    winRate: winRate * 100,
+    expectancy,
+    variance,
+  };
+};
+
+// Re-weights a table to a different win rate, keeping the shape of the
+// winning and non-winning sides. Used for the per-run win-rate variance.
+export const withWinRate = (
+  buckets: OutcomeBucket[],
+  winRatePercent: number
+): OutcomeBucket[] => {
+  const { totalProbability: total, winRate } = describeOutcomes(buckets);
+  if (total === 0 || winRate <= 0 || winRate >= 100) return buckets;
+
+  const winScale = winRatePercent / winRate;
+  const otherScale = (100 - winRatePercent) / (100 - winRate);
+  return buckets.map((b) => ({
+    ...b,
+    probabilityPercent:
+      (Math.max(0, b.probabilityPercent) / total) *
+      100 *
+      (b.rMultiple > 0 ? winScale : otherScale),
+  }));
+};
+
+// Returns a function drawing one R-multiple per call
+export const createOutcomeSampler = (buckets: OutcomeBucket[]) => {
+  const total = totalProbability(buckets);
+  const cumulative: number[] = [];
+  let running = 0;
+  buckets.forEach((b) => {
+    running += Math.max(0, b.probabilityPercent);
+    cumulative.push(running);
+  });
+
+  return (rng: Rng): number => {
+    const u = rng() * total;
+    for (let i = 0; i < cumulative.length; i++) {
+      if (u < cumulative[i]) return buckets[i].rMultiple;
+    }
+    return buckets[buckets.length - 1].rMultiple;
+  };
+};
+
+// Full-Kelly risk (% of equity): the fraction f maximizing E[log(1 + f * R)].
+// Solved by bisection on the derivative; matches p - q / b for binary tables.
+export const kellyPercent = (buckets: OutcomeBucket[]): number => {
+  const total = totalProbability(buckets);
+  if (total === 0 || describeOutcomes(buckets).expectancy <= 0) return 0;
+
+  const worstLoss = Math.min(...buckets.map((b) => b.rMultiple));
+  // No losing outcome: growth is unbounded, cap at risking everything
+  if (worstLoss >= 0) return 100;
+
+  const slope = (f: number) =>
+    buckets.reduce(
+      (acc, b) =>
+        acc +
+        ((Math.max(0, b.probabilityPercent) / total) * b.rMultiple) /
+          (1 + f * b.rMultiple),
+      0
+    );
+
+  let lo = 0;
+  let hi = Math.min(1, -1 / worstLoss) * 0.999999;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (slope(mid) > 0) lo = mid;
+    else hi = mid;
+  }
+  return lo * 100;
+};
@@ -0,0 +1,159 @@
+import type {
+  PerformanceSettings,
+  PerformanceStats,
+  ReturnPeriod,
+  TimeModel,
+} from "../types";
+import { mean, median, sortAscending } from "./statistics";
+
+// Calendar days, so weekend-trading markets and imported histories compare
+// on the same footing
+const DAYS_PER_YEAR = 365;
+const PERIODS_PER_YEAR: Record<ReturnPeriod, number> = {
+  DAILY: DAYS_PER_YEAR,
+  MONTHLY: 12,
+};
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+// CAGR, volatility and the Sharpe / Sortino / Calmar ratios from the equity
+// at the end of each period (index 0 = starting equity)
+export const computePerformance = (
+  periodEquity: number[],
+  periodsPerYear: number,
+  riskFreeRatePercent: number,
+  maxDrawdownPercent: number
+): PerformanceStats => {
+  const returns = periodEquity
+    .slice(1)
+    .map((e, i) => (periodEquity[i] > 0 ? e / periodEquity[i] - 1 : 0));
+  const years = Math.max(returns.length, 1) / periodsPerYear;
+  const growth =
+    Math.max(0, periodEquity[periodEquity.length - 1]) / periodEquity[0];
+  const cagr = Math.pow(growth, 1 / years) - 1;
+
+  const riskFree = riskFreeRatePercent / 100 / periodsPerYear;
+  const avg = mean(returns);
+  const sd = Math.sqrt(mean(returns.map((r) => (r - avg) ** 2)));
+  const downside = Math.sqrt(
+    mean(returns.map((r) => Math.min(0, r - riskFree) ** 2))
+  );
+  const annualize = Math.sqrt(periodsPerYear);
+
+  return {
+    cagrPercent: cagr * 100,
+    annualVolatilityPercent: sd * annualize * 100,
+    sharpe: sd > 0 ? ((avg - riskFree) / sd) * annualize : 0,
+    // No period below the risk-free rate: unbounded (null) rather than 0.
+    // Infinity would turn the medians across runs into NaN.
+    sortino:
+      downside > 0
+        ? ((avg - riskFree) / downside) * annualize
+        : avg > riskFree
+        ? null
+        : 0,
+    calmar:
+      maxDrawdownPercent > 0
+        ? (cagr * 100) / maxDrawdownPercent
+        : cagr > 0
+        ? null
+        : 0,
+  };
+};
+
+// Simulated path sampled once per trade (index 0 = start). Trades are spread
+// evenly over the calendar at the model's weekly rate. Returns null without
+// a positive rate: the trades have no place on the calendar.
+export const simulatedPerformance = (
+  equities: number[],
+  timeModel: TimeModel,
+  maxDrawdownPercent: number
+): PerformanceStats | null => {
+  if (!(timeModel.tradesPerWeek > 0)) return null;
+  const periodsPerYear = PERIODS_PER_YEAR[timeModel.returnPeriod];
+  const tradesPerPeriod =
+    (timeModel.tradesPerWeek * (DAYS_PER_YEAR / 7)) / periodsPerYear;
+  const trades = equities.length - 1;
+  const periods = Math.max(1, Math.ceil(trades / tradesPerPeriod));
+
+  const periodEquity = [equities[0]];
+  for (let p = 1; p <= periods; p++) {
+    periodEquity.push(
+      equities[Math.min(trades, Math.floor(p * tradesPerPeriod))]
+    );
+  }
+  return computePerformance(
+    periodEquity,
+    periodsPerYear,
+    timeModel.riskFreeRatePercent,
+    maxDrawdownPercent
+  );
+};
+
+// Period index of a timestamp: calendar day or calendar month (UTC)
+const periodOf = (time: number, period: ReturnPeriod) => {
+  if (period === "DAILY") return Math.floor(time / MS_PER_DAY);
+  const d = new Date(time);
+  return d.getUTCFullYear() * 12 + d.getUTCMonth();
+};
+
+// Imported trades with timestamps. Periods without trades carry the equity
+// forward, so quiet days count as flat days. Returns null without timestamps.
+export const timedPerformance = (
+  points: { equity: number; timestamp?: number }[],
+  startEquity: number,
+  settings: PerformanceSettings,
+  maxDrawdownPercent: number
+): PerformanceStats | null => {
+  const timed = points.filter(
+    (p): p is { equity: number; timestamp: number } => p.timestamp !== undefined
+  );
+  if (timed.length < 2) return null;
+
+  const sorted = [...timed].sort((a, b) => a.timestamp - b.timestamp);
+  const first = periodOf(sorted[0].timestamp, settings.returnPeriod);
+  const last = periodOf(
+    sorted[sorted.length - 1].timestamp,
+    settings.returnPeriod
+  );
+
+  // Closing equity of every period from the first trade's period onwards
+  const closing = new Array<number>(last - first + 1).fill(NaN);
+  sorted.forEach((p) => {
+    closing[periodOf(p.timestamp, settings.returnPeriod) - first] = p.equity;
+  });
+  const periodEquity = [startEquity];
+  closing.forEach((e) =>
+    periodEquity.push(
+      Number.isNaN(e) ? periodEquity[periodEquity.length - 1] : e
+    )
+  );
+
+  return computePerformance(
+    periodEquity,
+    PERIODS_PER_YEAR[settings.returnPeriod],
+    settings.riskFreeRatePercent,
+    maxDrawdownPercent
+  );
+};
+
+// Median of a ratio that may be unbounded. Unbounded runs rank above every
+// finite one, so the median is unbounded when it reaches them.
+const medianRatio = (values: (number | null)[]): number | null => {
+  const sorted = sortAscending(values.filter((v): v is number => v !== null));
+  const rank = (values.length - 1) / 2;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  if (upper >= sorted.length) return null;
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+// Field-wise medians across runs
+export const medianPerformance = (
+  stats: PerformanceStats[]
+): PerformanceStats => ({
+  cagrPercent: median(stats.map((s) => s.cagrPercent)),
+  annualVolatilityPercent: median(stats.map((s) => s.annualVolatilityPercent)),
+  sharpe: median(stats.map((s) => s.sharpe)),
+  sortino: medianRatio(stats.map((s) => s.sortino)),
+  calmar: medianRatio(stats.map((s) => s.calmar)),
+});
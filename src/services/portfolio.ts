@@ -0,0 +1,342 @@
+import type {
+  DayBand,
+  LegDependence,
+  OutcomeBucket,
+  PortfolioConfig,
+  PortfolioResult,
+  ProgressCallback,
+  SimulationStats,
+} from "../types";
+import { createRng, randomNormal } from "./random";
+import type { Rng } from "./random";
+import { median, normalCdf, summarizePercentiles } from "./statistics";
+import { DEFAULT_WIN_RATE_UNCERTAINTY, drawRunWinRate } from "./uncertainty";
+import {
+  createRunTracker,
+  getDailyTradeVolume,
+  summarizeSimulationStats,
+} from "./mathUtils";
+import {
+  createOutcomeSampler,
+  describeOutcomes,
+  resolveOutcomes,
+  withWinRate,
+} from "./outcomes";
+import { TRADING_DAYS_PER_WEEK } from "./tradingDays";
+
+export const DEFAULT_LEG_DEPENDENCIES: Record<
+  LegDependence["type"],
+  LegDependence
+> = {
+  INDEPENDENT: { type: "INDEPENDENT" },
+  CORRELATION: { type: "CORRELATION", matrix: [] },
+  BAD_DAY: { type: "BAD_DAY", badDayPercent: 10, winRateDropPercent: 20 },
+};
+
+// Grows or shrinks a correlation matrix to n legs; new pairs start at 0
+export const resizeCorrelationMatrix = (
+  matrix: number[][],
+  n: number
+): number[][] =>
+  Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => (i === j ? 1 : matrix[i]?.[j] ?? 0))
+  );
+
+// Lower-triangular L with L·Lᵀ = matrix, or null if the matrix isn't a valid
+// (positive definite) correlation matrix
+export const choleskyDecompose = (matrix: number[][]): number[][] | null => {
+  const n = matrix.length;
+  const L = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+};
+
+// R-multiple of a uniform draw, best outcome first: a low draw is a win, so
+// legs whose draws are correlated win and lose together
+const createQuantile = (buckets: OutcomeBucket[]) => {
+  const draw = createOutcomeSampler(
+    [...buckets].sort((a, b) => b.rMultiple - a.rMultiple)
+  );
+  return (u: number) => draw(() => u);
+};
+
+// Per-day R-multiple source for every leg, from its outcome table. `slot` is
+// the leg's trade number within the day; legs trading in the same slot share
+// one correlated draw.
+const createOutcomeSource = (
+  rng: Rng,
+  tables: OutcomeBucket[][],
+  dependence: LegDependence
+) => {
+  const quantiles = tables.map(createQuantile);
+
+  if (dependence.type === "CORRELATION") {
+    const L = choleskyDecompose(
+      resizeCorrelationMatrix(dependence.matrix, tables.length)
+    );
+    if (!L) {
+      throw new Error(
+        "The correlation matrix is not valid: some pairs contradict each other."
+      );
+    }
+    let slotDraws: number[][] = [];
+    return {
+      startDay: () => {
+        slotDraws = [];
+      },
+      drawR: (leg: number, slot: number) => {
+        while (slotDraws.length <= slot) {
+          const z = tables.map(() => randomNormal(rng, 0, 1));
+          slotDraws.push(
+            L.map((row) => normalCdf(row.reduce((a, l, k) => a + l * z[k], 0)))
+          );
+        }
+        return quantiles[leg](slotDraws[slot][leg]);
+      },
+    };
+  }
+
+  if (dependence.type === "BAD_DAY") {
+    const q = dependence.badDayPercent / 100;
+    const drop = dependence.winRateDropPercent;
+    const clamp = (p: number) => Math.max(0, Math.min(100, p));
+    const winRates = tables.map((t) => describeOutcomes(t).winRate);
+    // Normal days win a bit more often so every leg keeps its long-run win rate
+    const badRates = winRates.map((p) => clamp(p - drop));
+    const normalRates = winRates.map((p, i) =>
+      q < 1 ? clamp((p - q * badRates[i]) / (1 - q)) : badRates[i]
+    );
+    const badQuantiles = tables.map((t, i) =>
+      createQuantile(withWinRate(t, badRates[i]))
+    );
+    const normalQuantiles = tables.map((t, i) =>
+      createQuantile(withWinRate(t, normalRates[i]))
+    );
+    let isBadDay = false;
+    return {
+      startDay: () => {
+        isBadDay = rng() < q;
+      },
+      drawR: (leg: number) =>
+        (isBadDay ? badQuantiles : normalQuantiles)[leg](rng()),
+    };
+  }
+
+  return {
+    startDay: () => {},
+    drawR: (leg: number) => quantiles[leg](rng()),
+  };
+};
+
+const simulatePortfolio = (
+  config: PortfolioConfig,
+  onProgress?: ProgressCallback
+) => {
+  const {
+    initialCapital,
+    legs,
+    dependence,
+    weeks,
+    seed,
+    winRateUncertainty = DEFAULT_WIN_RATE_UNCERTAINTY,
+  } = config;
+  const simulationCount = Math.max(1, Math.round(config.simulationCount));
+  const days = Math.max(1, Math.round(weeks * TRADING_DAYS_PER_WEEK));
+  const rng = createRng(seed);
+  const tables = legs.map((leg) =>
+    resolveOutcomes(leg.winRatePercent, leg.rewardToRiskRatio, leg.outcomes)
+  );
+
+  const stats: SimulationStats[] = [];
+  const equityByDay: number[][] = Array.from({ length: days + 1 }, () =>
+    new Array(simulationCount).fill(initialCapital)
+  );
+  const legTotals: number[][] = legs.map(() => []);
+  const drawdownShares: number[][] = legs.map(() => []);
+  // Daily returns, pooled over every run, for the volatility comparison
+  const legReturns: number[][] = legs.map(() => []);
+  const portfolioReturns: number[] = [];
+
+  for (let s = 0; s < simulationCount; s++) {
+    // Every leg's true win rate varies from run to run, as in the other engines
+    const runTables = tables.map((table) =>
+      withWinRate(
+        table,
+        Math.max(
+          1,
+          Math.min(
+            99,
+            drawRunWinRate(
+              rng,
+              winRateUncertainty,
+              describeOutcomes(table).winRate
+            )
+          )
+        )
+      )
+    );
+    const outcomes = createOutcomeSource(rng, runTables, dependence);
+    const tracker = createRunTracker(initialCapital);
+    // Cumulative P&L of every leg at the end of each day
+    const legCumulative = legs.map(() => [0]);
+    let peakEquity = initialCapital;
+    let peakDay = 0;
+    let worstDrawdown = 0;
+    let worstWindow: [number, number] | null = null;
+
+    for (let d = 1; d <= days; d++) {
+      outcomes.startDay();
+      const startEquity = tracker.getEquity();
+      const tradesToday = legs.map((leg) =>
+        getDailyTradeVolume(rng, leg.tradesPerWeek)
+      );
+      const dayPnl = legs.map(() => 0);
+
+      // Interleave the legs' trades so each sizes off the latest equity
+      const slots = Math.max(0, ...tradesToday);
+      for (let slot = 0; slot < slots; slot++) {
+        legs.forEach((leg, i) => {
+          if (slot >= tradesToday[i]) return;
+          const riskAmount =
+            Math.max(0, tracker.getEquity()) * (leg.riskPerTradePercent / 100);
+          const pnl = riskAmount * outcomes.drawR(i, slot);
+          tracker.record(pnl);
+          dayPnl[i] += pnl;
+        });
+      }
+
+      const equity = tracker.getEquity();
+      equityByDay[d][s] = equity;
+      legs.forEach((_, i) => {
+        const cumulative = legCumulative[i];
+        cumulative.push(cumulative[d - 1] + dayPnl[i]);
+        if (startEquity > 0) legReturns[i].push(dayPnl[i] / startEquity);
+      });
+      if (startEquity > 0) portfolioReturns.push(equity / startEquity - 1);
+
+      if (equity > peakEquity) {
+        peakEquity = equity;
+        peakDay = d;
+      } else if (peakEquity > 0) {
+        const drawdown = (peakEquity - equity) / peakEquity;
+        if (drawdown > worstDrawdown) {
+          worstDrawdown = drawdown;
+          worstWindow = [peakDay, d];
+        }
+      }
+    }
+
+    stats.push(tracker.finish());
+    legs.forEach((_, i) => {
+      legTotals[i].push(legCumulative[i][days]);
+    });
+    if (worstWindow) {
+      const [from, to] = worstWindow;
+      const losses = legCumulative.map((c) => c[from] - c[to]);
+      const total = losses.reduce((a, v) => a + v, 0);
+      if (total > 0) {
+        losses.forEach((loss, i) =>
+          drawdownShares[i].push((loss / total) * 100)
+        );
+      }
+    }
+    onProgress?.((s + 1) / simulationCount);
+  }
+
+  const bands: DayBand[] = equityByDay.map((values, day) => ({
+    day,
+    ...summarizePercentiles(values),
+  }));
+
+  return {
+    bands,
+    stats,
+    legTotals,
+    drawdownShares,
+    legReturns,
+    portfolioReturns,
+  };
+};
+
+const stdDev = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const avg = values.reduce((a, v) => a + v, 0) / values.length;
+  return Math.sqrt(
+    values.reduce((a, v) => a + (v - avg) ** 2, 0) / values.length
+  );
+};
+
+// Several strategies on one account: the combined equity distribution, how
+// much the legs offset each other and which legs drive the drawdowns
+export const runPortfolioSimulation = (
+  config: PortfolioConfig,
+  onProgress?: ProgressCallback
+): PortfolioResult => {
+  const { initialCapital, legs } = config;
+  if (legs.length === 0) throw new Error("Add at least one strategy.");
+
+  // Main run, each leg alone, and the independent baseline
+  const hasDependence = config.dependence.type !== "INDEPENDENT";
+  const parts = 1 + legs.length + (hasDependence ? 1 : 0);
+  let part = 0;
+  const partProgress = (fraction: number) =>
+    onProgress?.((part + fraction) / parts);
+
+  const main = simulatePortfolio(config, partProgress);
+  part++;
+
+  const standalone = legs.map((leg) => {
+    const run = simulatePortfolio(
+      { ...config, legs: [leg], dependence: { type: "INDEPENDENT" } },
+      partProgress
+    );
+    part++;
+    return summarizeSimulationStats(run.stats, initialCapital);
+  });
+
+  const summary = summarizeSimulationStats(main.stats, initialCapital);
+  let independentSummary = summary;
+  if (hasDependence) {
+    const run = simulatePortfolio(
+      { ...config, dependence: { type: "INDEPENDENT" } },
+      partProgress
+    );
+    independentSummary = summarizeSimulationStats(run.stats, initialCapital);
+  }
+
+  const portfolioVol = stdDev(main.portfolioReturns);
+  const legVolSum = main.legReturns.reduce((a, r) => a + stdDev(r), 0);
+
+  return {
+    bands: main.bands,
+    stats: main.stats,
+    summary,
+    legs: legs.map((_, i) => ({
+      medianPnl: median(main.legTotals[i]),
+      drawdownSharePercent:
+        main.drawdownShares[i].length > 0
+          ? main.drawdownShares[i].reduce((a, v) => a + v, 0) /
+            main.drawdownShares[i].length
+          : 0,
+      standaloneMedianReturnPercent: standalone[i].medianReturnPercent,
+      standaloneP95MaxDrawdownPercent: standalone[i].p95MaxDrawdownPercent,
+    })),
+    diversificationRatio: portfolioVol > 0 ? legVolSum / portfolioVol : 1,
+    standaloneP95MaxDrawdownSum: standalone.reduce(
+      (a, s) => a + s.p95MaxDrawdownPercent,
+      0
+    ),
+    independentSummary,
+  };
+};
@@ -0,0 +1,420 @@
+import type {
+  DailyDrawdownRule,
+  PhaseConfig,
+  PropFirmConfig,
+  PropFirmPreset,
+  PropFirmRules,
+  TotalDrawdownRule,
+} from "../types";
+import {
+  DAILY_DRAWDOWN_RULE_LABELS,
+  TOTAL_DRAWDOWN_RULE_LABELS,
+  dailyDrawdownRuleOf,
+  totalDrawdownRuleOf,
+} from "./propFirmRules";
+
+// Preset files are JSON in this shape; steps follow from the phase count.
+// A phase may also set "totalDrawdownRule" (see TotalDrawdownRule; the
+// trailingDrawdown flag applies otherwise), "dailyDrawdownRule",
+// "minTradingDays", "maxCalendarDays" and "maxDayProfitSharePercent".
+//
+//   {
+//     "format": "kye-prop-firm-presets",
+//     "version": 1,
+//     "presets": [
+//       {
+//         "name": "Example 2-Step",
+//         "description": "Optional note",
+//         "accountSize": 100000,
+//         "trailingDrawdown": false,
+//         "phases": [
+//           { "profitTargetPercent": 8, "maxTotalDrawdownPercent": 10,
+//             "maxDailyDrawdownPercent": 5 },
+//           { "profitTargetPercent": 5, "maxTotalDrawdownPercent": 10,
+//             "maxDailyDrawdownPercent": 5 }
+//         ]
+//       }
+//     ]
+//   }
+export const PRESET_FILE_FORMAT = "kye-prop-firm-presets";
+export const PRESET_FILE_VERSION = 1;
+export const MAX_PRESET_PHASES = 3;
+
+const phase = (
+  profitTargetPercent: number,
+  maxTotalDrawdownPercent: number,
+  maxDailyDrawdownPercent: number,
+  rules: Omit<
+    PhaseConfig,
+    | "profitTargetPercent"
+    | "maxTotalDrawdownPercent"
+    | "maxDailyDrawdownPercent"
+  > = {}
+): PhaseConfig => ({
+  profitTargetPercent,
+  maxTotalDrawdownPercent,
+  maxDailyDrawdownPercent,
+  ...rules,
+});
+
+// Typical rules of each challenge type, not any particular firm
+export const BUILT_IN_PROP_FIRM_PRESETS: PropFirmPreset[] = [
+  {
+    name: "1-Step Challenge",
+    description: "One phase with a tighter, trailing drawdown.",
+    rules: {
+      accountSize: 100000,
+      steps: 1,
+      phases: [phase(10, 6, 4)],
+      isTrailingDrawdown: true,
+    },
+  },
+  {
+    name: "2-Step Challenge",
+    description: "The classic evaluation plus verification.",
+    rules: {
+      accountSize: 100000,
+      steps: 2,
+      phases: [
+        phase(8, 10, 5, { minTradingDays: 4 }),
+        phase(5, 10, 5, { minTradingDays: 4 }),
+      ],
+      isTrailingDrawdown: false,
+    },
+  },
+  {
+    name: "3-Step Challenge",
+    description: "Three small targets under tight limits.",
+    rules: {
+      accountSize: 100000,
+      steps: 3,
+      phases: [phase(6, 6, 3), phase(6, 6, 3), phase(6, 6, 3)],
+      isTrailingDrawdown: false,
+    },
+  },
+  {
+    name: "Instant Funding",
+    description:
+      "No evaluation; passing means reaching the first payout threshold.",
+    rules: {
+      accountSize: 100000,
+      steps: 1,
+      phases: [
+        phase(5, 6, 3, {
+          totalDrawdownRule: "TRAILING_LOCK",
+          maxDayProfitSharePercent: 40,
+        }),
+      ],
+      isTrailingDrawdown: true,
+    },
+  },
+].map((preset) => ({ ...preset, isBuiltIn: true }));
+
+export const presetRules = (config: PropFirmConfig): PropFirmRules => ({
+  accountSize: config.accountSize,
+  steps: config.steps,
+  phases: config.phases.map((p) => ({ ...p })),
+  isTrailingDrawdown: config.isTrailingDrawdown,
+});
+
+// The trader's side of the config stays as it is
+export const applyPresetRules = (
+  config: PropFirmConfig,
+  rules: PropFirmRules
+): PropFirmConfig => ({
+  ...config,
+  ...rules,
+  phases: rules.phases.map((p) => ({ ...p })),
+});
+
+// One entry of the file's presets list
+const toFileEntry = ({ name, description, rules }: PropFirmPreset) => ({
+  name,
+  ...(description && { description }),
+  accountSize: rules.accountSize,
+  trailingDrawdown: rules.isTrailingDrawdown,
+  phases: rules.phases,
+});
+
+export const exportPresets = (presets: PropFirmPreset[]): string =>
+  JSON.stringify(
+    {
+      format: PRESET_FILE_FORMAT,
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(toFileEntry),
+    },
+    null,
+    2
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readPercent = (
+  source: Record<string, unknown>,
+  key:
+    | "profitTargetPercent"
+    | "maxTotalDrawdownPercent"
+    | "maxDailyDrawdownPercent",
+  where: string
+) => {
+  const value = source[key];
+  if (typeof value !== "number" || !(value > 0) || value > 100) {
+    throw new Error(`${where}: ${key} must be a number above 0 and up to 100.`);
+  }
+  return value;
+};
+
+// An optional positive limit, e.g. a minimum number of trading days
+const readLimit = (
+  source: Record<string, unknown>,
+  key: "minTradingDays" | "maxCalendarDays" | "maxDayProfitSharePercent",
+  where: string,
+  max = Infinity
+): number | undefined => {
+  const value = source[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !(value > 0) || value > max) {
+    throw new Error(`${where}: ${key} must be a positive number.`);
+  }
+  return value;
+};
+
+// An optional rule name, checked against the known rules
+const readRule = <T extends string>(
+  source: Record<string, unknown>,
+  key: "totalDrawdownRule" | "dailyDrawdownRule",
+  labels: Record<T, string>,
+  where: string
+): T | undefined => {
+  const value = source[key];
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !(value in labels)) {
+    throw new Error(
+      `${where}: ${key} must be one of ${Object.keys(labels).join(", ")}.`
+    );
+  }
+  return value as T;
+};
+
+const readPreset = (entry: unknown, index: number): PropFirmPreset => {
+  const where = `Preset ${index + 1}`;
+  if (!isRecord(entry)) throw new Error(`${where} is not an object.`);
+
+  const { name, description, accountSize, trailingDrawdown, phases } = entry;
+  if (typeof name !== "string" || !name.trim()) {
+    throw new Error(`${where} needs a name.`);
+  }
+  const label = `Preset "${name.trim()}"`;
+  if (typeof accountSize !== "number" || !(accountSize > 0)) {
+    throw new Error(`${label}: accountSize must be a positive number.`);
+  }
+  if (typeof trailingDrawdown !== "boolean") {
+    throw new Error(`${label}: trailingDrawdown must be true or false.`);
+  }
+  if (
+    !Array.isArray(phases) ||
+    phases.length < 1 ||
+    phases.length > MAX_PRESET_PHASES
+  ) {
+    throw new Error(
+      `${label}: phases must list 1 to ${MAX_PRESET_PHASES} phases.`
+    );
+  }
+
+  return {
+    name: name.trim(),
+    ...(typeof description === "string" &&
+      description.trim() && { description: description.trim() }),
+    rules: {
+      accountSize,
+      steps: phases.length,
+      phases: phases.map((p: unknown, i) => {
+        const at = `${label}, phase ${i + 1}`;
+        if (!isRecord(p)) throw new Error(`${at} is not an object.`);
+        const totalDrawdownRule = readRule<TotalDrawdownRule>(
+          p,
+          "totalDrawdownRule",
+          TOTAL_DRAWDOWN_RULE_LABELS,
+          at
+        );
+        const dailyDrawdownRule = readRule<DailyDrawdownRule>(
+          p,
+          "dailyDrawdownRule",
+          DAILY_DRAWDOWN_RULE_LABELS,
+          at
+        );
+        // Only the limits the file sets
+        const limits = Object.fromEntries(
+          (
+            [
+              ["minTradingDays", readLimit(p, "minTradingDays", at)],
+              ["maxCalendarDays", readLimit(p, "maxCalendarDays", at)],
+              [
+                "maxDayProfitSharePercent",
+                readLimit(p, "maxDayProfitSharePercent", at, 100),
+              ],
+            ] as const
+          ).filter(([, v]) => v !== undefined)
+        );
+        return phase(
+          readPercent(p, "profitTargetPercent", at),
+          readPercent(p, "maxTotalDrawdownPercent", at),
+          readPercent(p, "maxDailyDrawdownPercent", at),
+          {
+            ...(totalDrawdownRule && { totalDrawdownRule }),
+            ...(dailyDrawdownRule && { dailyDrawdownRule }),
+            ...limits,
+          }
+        );
+      }),
+      isTrailingDrawdown: trailingDrawdown,
+    },
+  };
+};
+
+// The preset as it would be read back from a file: throws, like an import,
+// when a rule is out of range, so nothing is saved that can't be loaded
+export const checkPreset = (preset: PropFirmPreset): PropFirmPreset =>
+  readPreset(toFileEntry(preset), 0);
+
+// The presets list of a file, throwing an Error that says what is wrong
+const readPresetList = (text: string): unknown[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  if (!isRecord(data) || data.format !== PRESET_FILE_FORMAT) {
+    throw new Error(`This is not a ${PRESET_FILE_FORMAT} file.`);
+  }
+  if (data.version !== PRESET_FILE_VERSION) {
+    throw new Error(
+      `Unsupported preset file version ${String(
+        data.version
+      )} (expected ${PRESET_FILE_VERSION}).`
+    );
+  }
+  if (!Array.isArray(data.presets)) {
+    throw new Error("The file has no presets list.");
+  }
+  return data.presets;
+};
+
+// Reads a preset file, throwing an Error that says what is wrong and where
+export const parsePresetFile = (text: string): PropFirmPreset[] =>
+  readPresetList(text).map(readPreset);
+
+// Reads what it can of a preset file: broken presets are skipped and
+// described rather than failing the rest. Throws only when the file itself
+// can't be read.
+export const readValidPresets = (
+  text: string
+): { presets: PropFirmPreset[]; problems: string[] } => {
+  const presets: PropFirmPreset[] = [];
+  const problems: string[] = [];
+  readPresetList(text).forEach((entry, i) => {
+    try {
+      presets.push(readPreset(entry, i));
+    } catch (err) {
+      problems.push(err instanceof Error ? err.message : String(err));
+    }
+  });
+  return { presets, problems };
+};
+
+export interface RuleDiffRow {
+  label: string;
+  a: string;
+  b: string;
+  differs: boolean;
+}
+
+// Side-by-side rules; phases one preset doesn't have show as "—"
+export const diffPresetRules = (
+  a: PropFirmRules,
+  b: PropFirmRules
+): RuleDiffRow[] => {
+  const row = (label: string, va: string, vb: string): RuleDiffRow => ({
+    label,
+    a: va,
+    b: vb,
+    differs: va !== vb,
+  });
+  const pct = (
+    rules: PropFirmRules,
+    i: number,
+    key:
+      | "profitTargetPercent"
+      | "maxTotalDrawdownPercent"
+      | "maxDailyDrawdownPercent"
+  ) => (rules.phases[i] ? `${rules.phases[i][key]}%` : "—");
+  const totalRule = (rules: PropFirmRules, i: number) =>
+    rules.phases[i]
+      ? TOTAL_DRAWDOWN_RULE_LABELS[
+          totalDrawdownRuleOf(rules.phases[i], rules.isTrailingDrawdown)
+        ]
+      : "—";
+  // Unset limits read "None"; missing phases "—"
+  const limit = (
+    rules: PropFirmRules,
+    i: number,
+    key: "minTradingDays" | "maxCalendarDays" | "maxDayProfitSharePercent",
+    unit = ""
+  ) => {
+    const p = rules.phases[i];
+    if (!p) return "—";
+    return p[key] !== undefined ? `${p[key]}${unit}` : "None";
+  };
+  const dailyRule = (rules: PropFirmRules, i: number) =>
+    rules.phases[i]
+      ? DAILY_DRAWDOWN_RULE_LABELS[dailyDrawdownRuleOf(rules.phases[i])]
+      : "—";
+
+  const rows = [
+    row(
+      "Account Size",
+      `$${a.accountSize.toLocaleString()}`,
+      `$${b.accountSize.toLocaleString()}`
+    ),
+    row("Steps", String(a.steps), String(b.steps)),
+  ];
+  for (let i = 0; i < Math.max(a.steps, b.steps); i++) {
+    rows.push(
+      row(
+        `Phase ${i + 1} Target`,
+        pct(a, i, "profitTargetPercent"),
+        pct(b, i, "profitTargetPercent")
+      ),
+      row(
+        `Phase ${i + 1} Max Total DD`,
+        pct(a, i, "maxTotalDrawdownPercent"),
+        pct(b, i, "maxTotalDrawdownPercent")
+      ),
+      row(`Phase ${i + 1} Total DD Rule`, totalRule(a, i), totalRule(b, i)),
+      row(
+        `Phase ${i + 1} Max Daily DD`,
+        pct(a, i, "maxDailyDrawdownPercent"),
+        pct(b, i, "maxDailyDrawdownPercent")
+      ),
+      row(`Phase ${i + 1} Daily Loss From`, dailyRule(a, i), dailyRule(b, i)),
+      row(
+        `Phase ${i + 1} Min Trading Days`,
+        limit(a, i, "minTradingDays"),
+        limit(b, i, "minTradingDays")
+      ),
+      row(
+        `Phase ${i + 1} Time Limit`,
+        limit(a, i, "maxCalendarDays", " days"),
+        limit(b, i, "maxCalendarDays", " days")
+      ),
+      row(
+        `Phase ${i + 1} Max Day Share`,
+        limit(a, i, "maxDayProfitSharePercent", "%"),
+        limit(b, i, "maxDayProfitSharePercent", "%")
+      )
+    );
+  }
+  return rows;
+};
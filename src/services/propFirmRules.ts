@@ -0,0 +1,136 @@
+import type {
+  DailyDrawdownRule,
+  DrawdownRules,
+  FundedConfig,
+  PropFirmOutcomeCounts,
+  PropFirmResult,
+  ScalingPlan,
+  TotalDrawdownRule,
+} from "../types";
+
+// How each attempt outcome is labelled and coloured, in table order
+export const PROP_FIRM_OUTCOMES: {
+  outcome: PropFirmResult["outcome"];
+  key: keyof PropFirmOutcomeCounts;
+  label: string;
+  color: string;
+}[] = [
+  { outcome: "PASS", key: "pass", label: "Pass", color: "#10b981" },
+  {
+    outcome: "FAIL_MAX_DD",
+    key: "failMaxDD",
+    label: "Fail (Max DD)",
+    color: "#ef4444",
+  },
+  {
+    outcome: "FAIL_DAILY_DD",
+    key: "failDailyDD",
+    label: "Fail (Daily DD)",
+    color: "#f59e0b",
+  },
+  {
+    outcome: "FAIL_TIMEOUT",
+    key: "failTimeout",
+    label: "Fail (Time Limit)",
+    color: "#8b5cf6",
+  },
+  {
+    outcome: "FAIL_CONSISTENCY",
+    key: "failConsistency",
+    label: "Fail (Consistency)",
+    color: "#06b6d4",
+  },
+];
+
+export const TOTAL_DRAWDOWN_RULE_LABELS: Record<TotalDrawdownRule, string> = {
+  STATIC: "Static",
+  TRAILING: "Trailing (Intraday)",
+  TRAILING_EOD: "Trailing (End of Day)",
+  TRAILING_LOCK: "Trailing, Locks at Start",
+};
+
+export const DAILY_DRAWDOWN_RULE_LABELS: Record<DailyDrawdownRule, string> = {
+  START_OF_DAY: "Day's Start Balance",
+  HIGH_OF_DAY: "Higher of Start Balance & Equity",
+  INITIAL_BALANCE: "Initial Balance",
+};
+
+// Payouts every two weeks at an 80% split, followed for a year
+export const DEFAULT_FUNDED_CONFIG: FundedConfig = {
+  maxTotalDrawdownPercent: 10,
+  maxDailyDrawdownPercent: 5,
+  horizonDays: 365,
+  payoutCycleDays: 14,
+  profitSplitPercent: 80,
+  isFeeRefunded: true,
+};
+
+// +25% of the starting size every 8 payout cycles that made 10%
+export const DEFAULT_SCALING_PLAN: ScalingPlan = {
+  reviewCycles: 8,
+  profitPercent: 10,
+  increasePercent: 25,
+  maxAccountSize: 2000000,
+};
+
+export const totalDrawdownRuleOf = (
+  phase: DrawdownRules,
+  isTrailingDrawdown: boolean
+): TotalDrawdownRule =>
+  phase.totalDrawdownRule ?? (isTrailingDrawdown ? "TRAILING" : "STATIC");
+
+export const dailyDrawdownRuleOf = (phase: DrawdownRules): DailyDrawdownRule =>
+  phase.dailyDrawdownRule ?? "START_OF_DAY";
+
+// The two equity floors of one phase (or the funded account) as the days
+// play out. Trades close within the day, so balance and equity agree at
+// every day's start.
+export const createPhaseLimits = (
+  phase: DrawdownRules,
+  accountSize: number,
+  isTrailingDrawdown: boolean
+) => {
+  const totalRule = totalDrawdownRuleOf(phase, isTrailingDrawdown);
+  const dailyRule = dailyDrawdownRuleOf(phase);
+  const maxLoss = accountSize * (phase.maxTotalDrawdownPercent / 100);
+  const dailyPercent = phase.maxDailyDrawdownPercent / 100;
+
+  let highWaterMark = accountSize;
+  let highestClose = accountSize;
+  let dayStart = accountSize;
+
+  return {
+    startDay: (equity: number) => {
+      dayStart = equity;
+    },
+    recordTrade: (equity: number) => {
+      highWaterMark = Math.max(highWaterMark, equity);
+    },
+    endDay: (equity: number) => {
+      highestClose = Math.max(highestClose, equity);
+    },
+    // Equity at or below this breaks the daily loss limit
+    dailyFloor: () => {
+      if (dailyRule === "INITIAL_BALANCE") {
+        return dayStart - accountSize * dailyPercent;
+      }
+      // START_OF_DAY and HIGH_OF_DAY: the higher of the day's starting
+      // balance and equity is the day's start here. Intraday gains don't
+      // raise the floor.
+      return dayStart - dayStart * dailyPercent;
+    },
+    // Equity at or below this breaks the max drawdown
+    totalFloor: () => {
+      switch (totalRule) {
+        case "TRAILING":
+          return highWaterMark - maxLoss;
+        case "TRAILING_EOD":
+          return highestClose - maxLoss;
+        case "TRAILING_LOCK":
+          return Math.min(highWaterMark - maxLoss, accountSize);
+        default:
+          return accountSize - maxLoss;
+      }
+    },
+  };
+};
@@ -0,0 +1,65 @@
+// Pluggable random source for the simulation engines.
+// Engines never call Math.random() directly; they draw from an Rng so that a
+// run can be regenerated exactly from its seed.
+
+export type Rng = () => number;
+
+// Mulberry32: tiny 32-bit generator, fast and well distributed for Monte Carlo use
+export const createRng = (seed: number): Rng => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Box-Muller transform for Normal Distribution
+export const randomNormal = (
+  rng: Rng,
+  mean: number,
+  stdDev: number
+): number => {
+  const u1 = 1 - rng(); // (0, 1] keeps log() finite
+  const u2 = rng();
+  const z0 = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
+  return z0 * stdDev + mean;
+};
+
+// Knuth's multiplication method; fine for the small means used here
+export const randomPoisson = (rng: Rng, mean: number): number => {
+  const L = Math.exp(-mean);
+  let k = 0;
+  let p = 1;
+  do {
+    k++;
+    p *= rng();
+  } while (p > L);
+  return k - 1;
+};
+
+// Marsaglia-Tsang gamma sampler (scale 1). Shapes below 1 use the boost trick.
+const randomGamma = (rng: Rng, shape: number): number => {
+  if (shape < 1) {
+    return randomGamma(rng, shape + 1) * Math.pow(1 - rng(), 1 / shape);
+  }
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    const x = randomNormal(rng, 0, 1);
+    const v = Math.pow(1 + c * x, 3);
+    if (v <= 0) continue;
+    const u = 1 - rng();
+    if (Math.log(u) < 0.5 * x * x + d - d * v + d * Math.log(v)) return d * v;
+  }
+};
+
+export const randomBeta = (rng: Rng, alpha: number, beta: number): number => {
+  const x = randomGamma(rng, alpha);
+  return x / (x + randomGamma(rng, beta));
+};
+
+// Short seeds are easier to read out and paste in review discussions
+export const randomSeed = (): number => Math.floor(Math.random() * 1000000);
@@ -0,0 +1,42 @@
+import type {
+  OutcomeBucket,
+  SequenceModel,
+  WinRateUncertainty,
+} from "../types";
+
+// One color per pinned scenario, shared by every overlay chart
+export const SCENARIO_COLORS = ["#3b82f6", "#f59e0b", "#10b981", "#a855f7"];
+
+// Short labels for settings that aren't a single number, so the diff table
+// can show (and highlight) them like any other parameter
+export const describeSequence = (sequence: SequenceModel | undefined) => {
+  if (!sequence) return "Independent";
+  if (sequence.type === "MARKOV")
+    return `Markov ${sequence.winAfterWinPercent}% / ${sequence.winAfterLossPercent}%`;
+  return `Regime ${sequence.hotWinRatePercent}% / ${sequence.coldWinRatePercent}%`;
+};
+
+export const describeUncertainty = (uncertainty: WinRateUncertainty) => {
+  if (uncertainty.type === "NONE") return "Exact";
+  if (uncertainty.type === "NORMAL") return `σ ${uncertainty.stdDevPercent}%`;
+  return `${uncertainty.sampleTrades} trades`;
+};
+
+export const describeOutcomeTable = (outcomes: OutcomeBucket[] | undefined) =>
+  outcomes
+    ? outcomes.map((o) => `${o.probabilityPercent}%@${o.rMultiple}R`).join(", ")
+    : "Win / Loss";
+
+// Rows for an overlay chart: one row per index, one `s<i>` column per
+// scenario. Shorter series simply end early.
+export const overlaySeries = (series: number[][]) =>
+  Array.from(
+    { length: Math.max(0, ...series.map((s) => s.length)) },
+    (_, t) => {
+      const row: Record<string, number> = { index: t };
+      series.forEach((values, i) => {
+        if (t < values.length) row[`s${i}`] = values[t];
+      });
+      return row;
+    }
+  );
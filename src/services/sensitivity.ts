@@ -0,0 +1,158 @@
+import type {
+  ProgressCallback,
+  SensitivityAxis,
+  SensitivityBase,
+  SensitivityConfig,
+  SensitivityMetric,
+  SensitivityParameter,
+  SensitivityResult,
+} from "../types";
+import {
+  runMarketSimulations,
+  runPropFirmSimulation,
+  calculateRiskOfRuinMonteCarlo,
+} from "./mathUtils";
+import { binaryOutcomes, describeOutcomes } from "./outcomes";
+
+export const SENSITIVITY_PARAMETERS: Record<
+  SensitivityParameter,
+  { label: string; suffix: string; min: number; max: number; steps: number }
+> = {
+  winRatePercent: {
+    label: "Win Rate",
+    suffix: "%",
+    min: 30,
+    max: 70,
+    steps: 9,
+  },
+  rewardToRiskRatio: {
+    label: "Reward to Risk",
+    suffix: "R",
+    min: 0.5,
+    max: 3,
+    steps: 6,
+  },
+  riskPerTradePercent: {
+    label: "Risk Per Trade",
+    suffix: "%",
+    min: 0.5,
+    max: 5,
+    steps: 10,
+  },
+  tradesPerWeek: {
+    label: "Trades Per Week",
+    suffix: "",
+    min: 5,
+    max: 50,
+    steps: 10,
+  },
+};
+
+export const SENSITIVITY_METRICS: Record<
+  SensitivityMetric,
+  { label: string; higherIsBetter: boolean }
+> = {
+  EXPECTANCY: { label: "Expectancy", higherIsBetter: true },
+  MEDIAN_RETURN: { label: "Median Return", higherIsBetter: true },
+  P95_DRAWDOWN: { label: "95th Pct. Max DD", higherIsBetter: false },
+  RUIN: { label: "Risk of Ruin", higherIsBetter: false },
+  PASS_RATE: { label: "Prop Pass Rate", higherIsBetter: true },
+};
+
+export const axisValues = ({ min, max, steps }: SensitivityAxis): number[] => {
+  const count = Math.max(2, Math.round(steps));
+  return Array.from(
+    { length: count },
+    (_, i) => Math.round((min + ((max - min) * i) / (count - 1)) * 100) / 100
+  );
+};
+
+// One cell, computed with the same engine the matching module uses
+const evaluateCell = (
+  point: SensitivityBase,
+  metric: SensitivityMetric
+): number => {
+  switch (metric) {
+    case "EXPECTANCY":
+      return describeOutcomes(
+        binaryOutcomes(point.winRatePercent, point.rewardToRiskRatio)
+      ).expectancy;
+    case "MEDIAN_RETURN":
+    case "P95_DRAWDOWN": {
+      const { summary } = runMarketSimulations({
+        initialCapital: point.accountSize,
+        riskPerTradePercent: point.riskPerTradePercent,
+        winRatePercent: point.winRatePercent,
+        rewardToRiskRatio: point.rewardToRiskRatio,
+        numberOfTrades: Math.max(
+          1,
+          Math.round(point.tradesPerWeek * point.horizonWeeks)
+        ),
+        simulationCount: point.simulationsPerCell,
+        seed: point.seed,
+        winRateUncertainty: point.winRateUncertainty,
+      });
+      return metric === "MEDIAN_RETURN"
+        ? summary.medianReturnPercent
+        : summary.p95MaxDrawdownPercent;
+    }
+    case "RUIN":
+      return calculateRiskOfRuinMonteCarlo({
+        winRate: point.winRatePercent,
+        rewardRisk: point.rewardToRiskRatio,
+        riskPerTrade: point.riskPerTradePercent,
+        seed: point.seed,
+        winRateUncertainty: point.winRateUncertainty,
+      });
+    case "PASS_RATE": {
+      // The pass rate divides by the number of traders
+      const iterations = Math.max(1, Math.round(point.simulationsPerCell));
+      const { results } = runPropFirmSimulation(
+        {
+          accountSize: point.accountSize,
+          steps: 1,
+          phases: [point.phase],
+          isTrailingDrawdown: false,
+          winRatePercent: point.winRatePercent,
+          rewardToRiskRatio: point.rewardToRiskRatio,
+          riskPerTradePercent: point.riskPerTradePercent,
+          tradesPerWeek: point.tradesPerWeek,
+          seed: point.seed,
+          winRateUncertainty: point.winRateUncertainty,
+        },
+        iterations
+      );
+      return (results.pass / iterations) * 100;
+    }
+  }
+};
+
+// Sweeps two parameters over a grid. Every cell shares the base seed, so
+// neighbouring cells differ only by their parameters.
+export const runSensitivityGrid = (
+  config: SensitivityConfig,
+  onProgress?: ProgressCallback
+): SensitivityResult => {
+  const { base, x, y, metric } = config;
+  const xValues = axisValues(x);
+  const yValues = axisValues(y);
+  const total = xValues.length * yValues.length;
+  let done = 0;
+
+  const values: number[][] = [];
+  const expectancies: number[][] = [];
+  yValues.forEach((yValue) => {
+    const row: number[] = [];
+    const expectancyRow: number[] = [];
+    xValues.forEach((xValue) => {
+      const point = { ...base, [y.parameter]: yValue, [x.parameter]: xValue };
+      row.push(evaluateCell(point, metric));
+      expectancyRow.push(evaluateCell(point, "EXPECTANCY"));
+      onProgress?.(++done / total);
+    });
+    values.push(row);
+    expectancies.push(expectancyRow);
+  });
+
+  return { xValues, yValues, values, expectancies };
+};
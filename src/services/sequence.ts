@@ -0,0 +1,116 @@
+import type { OutcomeBucket, SequenceModel } from "../types";
+import type { Rng } from "./random";
+import {
+  createOutcomeSampler,
+  describeOutcomes,
+  resolveOutcomes,
+  withWinRate,
+} from "./outcomes";
+
+const clampWinRate = (rate: number) => Math.max(1, Math.min(99, rate));
+
+// Share of trades in the hot regime over the long run
+export const stationaryHotShare = (stayHot: number, stayCold: number) => {
+  const leaveHot = 1 - stayHot / 100;
+  const leaveCold = 1 - stayCold / 100;
+  if (leaveHot + leaveCold === 0) return 0.5;
+  return leaveCold / (leaveHot + leaveCold);
+};
+
+// Long-run win rate a sequence model converges to. The independent-trades
+// comparison uses this so both runs share the same average edge.
+export const stationaryWinRate = (model: SequenceModel): number => {
+  if (model.type === "MARKOV") {
+    const ww = model.winAfterWinPercent / 100;
+    const wl = model.winAfterLossPercent / 100;
+    if (1 - ww + wl === 0) return 50;
+    return (wl / (1 - ww + wl)) * 100;
+  }
+  const hot = stationaryHotShare(model.stayHotPercent, model.stayColdPercent);
+  return hot * model.hotWinRatePercent + (1 - hot) * model.coldWinRatePercent;
+};
+
+// Builds the R-multiple stream for one run. Without a sequence model every
+// trade is independent; with one, the win rate of the next trade depends on
+// the previous result (MARKOV) or on a hidden hot / cold state (REGIME).
+// runWinRate carries the per-run "good month / bad month" shift.
+export const createTradeStream = (
+  rng: Rng,
+  baseOutcomes: OutcomeBucket[],
+  runWinRate: number,
+  sequence?: SequenceModel
+): (() => number) => {
+  if (!sequence) {
+    const draw = createOutcomeSampler(withWinRate(baseOutcomes, runWinRate));
+    return () => draw(rng);
+  }
+
+  const offset = runWinRate - describeOutcomes(baseOutcomes).winRate;
+  const samplerFor = (winRate: number) =>
+    createOutcomeSampler(
+      withWinRate(baseOutcomes, clampWinRate(winRate + offset))
+    );
+
+  if (sequence.type === "MARKOV") {
+    const afterWin = samplerFor(sequence.winAfterWinPercent);
+    const afterLoss = samplerFor(sequence.winAfterLossPercent);
+    // First trade starts from the long-run rate
+    let draw = samplerFor(stationaryWinRate(sequence));
+    return () => {
+      const r = draw(rng);
+      draw = r > 0 ? afterWin : afterLoss;
+      return r;
+    };
+  }
+
+  const hot = samplerFor(sequence.hotWinRatePercent);
+  const cold = samplerFor(sequence.coldWinRatePercent);
+  let isHot =
+    rng() <
+    stationaryHotShare(sequence.stayHotPercent, sequence.stayColdPercent);
+  return () => {
+    const r = (isHot ? hot : cold)(rng);
+    const stay = isHot ? sequence.stayHotPercent : sequence.stayColdPercent;
+    if (rng() * 100 >= stay) isHot = !isHot;
+    return r;
+  };
+};
+
+export const DEFAULT_SEQUENCE_MODELS: Record<
+  SequenceModel["type"],
+  SequenceModel
+> = {
+  MARKOV: { type: "MARKOV", winAfterWinPercent: 55, winAfterLossPercent: 40 },
+  REGIME: {
+    type: "REGIME",
+    hotWinRatePercent: 60,
+    coldWinRatePercent: 35,
+    stayHotPercent: 90,
+    stayColdPercent: 90,
+  },
+};
+
+// The same config with independent trades at the sequence model's long-run
+// win rate: the baseline that isolates the effect of clustering
+export const withIndependentTrades = <
+  T extends {
+    winRatePercent: number;
+    rewardToRiskRatio: number;
+    outcomes?: OutcomeBucket[];
+    sequence?: SequenceModel;
+  }
+>(
+  config: T
+): T => {
+  if (!config.sequence) return config;
+  const base = resolveOutcomes(
+    config.winRatePercent,
+    config.rewardToRiskRatio,
+    config.outcomes
+  );
+  return {
+    ...config,
+    sequence: undefined,
+    outcomes: withWinRate(base, stationaryWinRate(config.sequence)),
+  };
+};
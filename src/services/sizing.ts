@@ -0,0 +1,89 @@
+import type { SizingModel, SizingModelType } from "../types";
+
+// Everything a sizing rule may look at before a trade
+export interface SizingState {
+  equity: number;
+  peakEquity: number;
+  initialCapital: number;
+  winStreak: number;
+}
+
+export const SIZING_MODEL_LABELS: Record<SizingModelType, string> = {
+  FIXED_FRACTIONAL: "Fixed Fractional",
+  FIXED_DOLLAR: "Fixed Dollar",
+  KELLY: "Kelly",
+  ANTI_MARTINGALE: "Anti-Martingale",
+  DRAWDOWN_SCALED: "Drawdown Scaled",
+  EQUITY_MILESTONE: "Equity Milestones",
+};
+
+export const DEFAULT_SIZING_MODELS: Record<SizingModelType, SizingModel> = {
+  FIXED_FRACTIONAL: { type: "FIXED_FRACTIONAL" },
+  FIXED_DOLLAR: { type: "FIXED_DOLLAR", riskAmount: 1000 },
+  KELLY: { type: "KELLY", kellyFraction: 0.5 },
+  ANTI_MARTINGALE: { type: "ANTI_MARTINGALE", stepUpPercent: 25, maxSteps: 3 },
+  DRAWDOWN_SCALED: {
+    type: "DRAWDOWN_SCALED",
+    cutPercent: 25,
+    perDrawdownPercent: 5,
+  },
+  EQUITY_MILESTONE: {
+    type: "EQUITY_MILESTONE",
+    milestonePercent: 10,
+    stepUpPercent: 20,
+    maxRiskPercent: 5,
+  },
+};
+
+// Returns the dollar amount to risk on the next trade. The result is clamped
+// to [0, equity] so no rule can risk money the account doesn't have.
+export const createPositionSizer = (
+  model: SizingModel,
+  baseRiskPercent: number,
+  fullKellyPercent: number
+) => {
+  const riskPercent = (state: SizingState): number => {
+    switch (model.type) {
+      case "FIXED_FRACTIONAL":
+        return baseRiskPercent;
+      case "KELLY":
+        return fullKellyPercent * model.kellyFraction;
+      case "ANTI_MARTINGALE": {
+        const steps = Math.min(state.winStreak, model.maxSteps);
+        return baseRiskPercent * Math.pow(1 + model.stepUpPercent / 100, steps);
+      }
+      case "DRAWDOWN_SCALED": {
+        const dd = ((state.peakEquity - state.equity) / state.peakEquity) * 100;
+        const cuts =
+          model.perDrawdownPercent > 0
+            ? Math.floor(dd / model.perDrawdownPercent)
+            : 0;
+        return baseRiskPercent * Math.pow(1 - model.cutPercent / 100, cuts);
+      }
+      case "EQUITY_MILESTONE": {
+        // Step-ups are keyed to the high-water mark so they are never undone
+        const gain =
+          ((state.peakEquity - state.initialCapital) / state.initialCapital) *
+          100;
+        const steps =
+          model.milestonePercent > 0
+            ? Math.max(0, Math.floor(gain / model.milestonePercent))
+            : 0;
+        return Math.min(
+          model.maxRiskPercent,
+          baseRiskPercent * Math.pow(1 + model.stepUpPercent / 100, steps)
+        );
+      }
+      case "FIXED_DOLLAR":
+        return 0; // Handled below in dollars
+    }
+  };
+
+  return (state: SizingState): number => {
+    const amount =
+      model.type === "FIXED_DOLLAR"
+        ? model.riskAmount
+        : state.equity * (riskPercent(state) / 100);
+    return Math.max(0, Math.min(amount, state.equity));
+  };
+};
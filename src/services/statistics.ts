@@ -0,0 +1,83 @@
+import type { Percentiles, HistogramBin } from "../types";
+
+export const sortAscending = (values: number[]): number[] =>
+  [...values].sort((a, b) => a - b);
+
+// Linear-interpolated percentile (p in 0-100) of an ascending-sorted array
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+};
+
+export const median = (values: number[]): number =>
+  percentile(sortAscending(values), 50);
+
+// Arithmetic mean; 0 for no values
+export const mean = (values: number[]): number =>
+  values.reduce((acc, v) => acc + v, 0) / Math.max(1, values.length);
+
+// Runs ranked by their final value, to pick out representative paths
+export const rankRuns = (finalValues: number[]) => {
+  const ranked = finalValues
+    .map((value, run) => ({ run, value }))
+    .sort((a, b) => a.value - b.value);
+  return {
+    bestRun: ranked[ranked.length - 1].run,
+    medianRun: ranked[Math.floor((ranked.length - 1) / 2)].run,
+    worstRun: ranked[0].run,
+  };
+};
+
+// Standard normal CDF (Abramowitz-Stegun 7.1.26, error below 1.5e-7)
+export const normalCdf = (x: number): number => {
+  const t = 1 / (1 + (0.3275911 * Math.abs(x)) / Math.SQRT2);
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t *
+          (-0.284496736 +
+            t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp((-x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// The 5/25/50/75/95 bands used by every fan chart and outcome summary
+export const summarizePercentiles = (values: number[]): Percentiles => {
+  const sorted = sortAscending(values);
+  return {
+    p5: percentile(sorted, 5),
+    p25: percentile(sorted, 25),
+    p50: percentile(sorted, 50),
+    p75: percentile(sorted, 75),
+    p95: percentile(sorted, 95),
+  };
+};
+
+// Equal-width bins spanning the observed range (non-finite values are skipped)
+export const buildHistogram = (
+  allValues: number[],
+  binCount: number = 20
+): HistogramBin[] => {
+  const values = allValues.filter(Number.isFinite);
+  if (values.length === 0) return [];
+  const min = values.reduce((a, v) => Math.min(a, v), Infinity);
+  const max = values.reduce((a, v) => Math.max(a, v), -Infinity);
+  // Degenerate case: every value identical
+  if (max === min) return [{ from: min, to: max, count: values.length }];
+
+  const width = (max - min) / binCount;
+  const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  values.forEach((v) => {
+    const i = Math.min(binCount - 1, Math.floor((v - min) / width));
+    bins[i].count++;
+  });
+  return bins;
+};
@@ -0,0 +1,13 @@
+// The trading calendar every engine shares: trades are placed on trading
+// days, and durations are shown in calendar days.
+export const TRADING_DAYS_PER_WEEK = 5;
+
+// 252 trading days a year
+export const TRADING_DAYS_PER_MONTH = 21;
+
+// Trading days to calendar days
+export const CALENDAR_DAYS_PER_TRADING_DAY = 7 / TRADING_DAYS_PER_WEEK;
+
+// Average trades per trading day at a weekly pace
+export const tradesPerTradingDay = (tradesPerWeek: number) =>
+  tradesPerWeek / TRADING_DAYS_PER_WEEK;
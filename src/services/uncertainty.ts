@@ -0,0 +1,69 @@
+import type { WinRateUncertainty } from "../types";
+import type { Rng } from "./random";
+import { randomBeta, randomNormal } from "./random";
+
+// Beta(wins + 1, losses + 1): the posterior of a uniform prior after
+// observing the given win rate over sampleTrades trades
+const betaPosterior = (winRatePercent: number, sampleTrades: number) => {
+  const n = Math.max(0, sampleTrades);
+  const wins = (Math.min(100, Math.max(0, winRatePercent)) / 100) * n;
+  return { alpha: wins + 1, beta: n - wins + 1 };
+};
+
+// Draws the true win rate (%) of one simulated run around the estimate.
+// Callers clamp the result to the range their engine accepts.
+export const drawRunWinRate = (
+  rng: Rng,
+  uncertainty: WinRateUncertainty,
+  winRatePercent: number
+): number => {
+  switch (uncertainty.type) {
+    case "NONE":
+      return winRatePercent;
+    case "NORMAL":
+      return randomNormal(rng, winRatePercent, uncertainty.stdDevPercent);
+    case "SAMPLE_SIZE": {
+      const { alpha, beta } = betaPosterior(
+        winRatePercent,
+        uncertainty.sampleTrades
+      );
+      return randomBeta(rng, alpha, beta) * 100;
+    }
+  }
+};
+
+// Spread of the run win rates in percentage points, for display
+export const winRateStdDev = (
+  uncertainty: WinRateUncertainty,
+  winRatePercent: number
+): number => {
+  switch (uncertainty.type) {
+    case "NONE":
+      return 0;
+    case "NORMAL":
+      return uncertainty.stdDevPercent;
+    case "SAMPLE_SIZE": {
+      const { alpha, beta } = betaPosterior(
+        winRatePercent,
+        uncertainty.sampleTrades
+      );
+      const total = alpha + beta;
+      return Math.sqrt((alpha * beta) / (total * total * (total + 1))) * 100;
+    }
+  }
+};
+
+// Used by every engine when a config leaves the uncertainty unset
+export const DEFAULT_WIN_RATE_UNCERTAINTY: WinRateUncertainty = {
+  type: "NORMAL",
+  stdDevPercent: 2,
+};
+
+export const DEFAULT_WIN_RATE_UNCERTAINTIES: Record<
+  WinRateUncertainty["type"],
+  WinRateUncertainty
+> = {
+  NONE: { type: "NONE" },
+  NORMAL: DEFAULT_WIN_RATE_UNCERTAINTY,
+  SAMPLE_SIZE: { type: "SAMPLE_SIZE", sampleTrades: 100 },
+};
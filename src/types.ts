@@ -1,3 +1,41 @@
+// How much to risk on each trade. Percent-based models scale from the
+// config's riskPerTradePercent.
+export type SizingModel =
+  | { type: "FIXED_FRACTIONAL" } // riskPerTradePercent of current equity
+  | { type: "FIXED_DOLLAR"; riskAmount: number }
+  | { type: "KELLY"; kellyFraction: number } // 1 = full Kelly, 0.5 = half
+  | { type: "ANTI_MARTINGALE"; stepUpPercent: number; maxSteps: number } // Compounds per consecutive win
+  | { type: "DRAWDOWN_SCALED"; cutPercent: number; perDrawdownPercent: number } // Cut X% per Y% of drawdown
+  | {
+      type: "EQUITY_MILESTONE"; // Raise X% per Y% of new highs, up to a ceiling
+      milestonePercent: number;
+      stepUpPercent: number;
+      maxRiskPercent: number;
+    };
+
+export type SizingModelType = SizingModel["type"];
+
+// One row of a trade outcome table, e.g. "35% of trades close at +2R"
+export interface OutcomeBucket {
+  probabilityPercent: number;
+  rMultiple: number;
+}
+
+// Optional dependence between consecutive trades
+export type SequenceModel =
+  | {
+      type: "MARKOV"; // Win rate depends on the previous trade's result
+      winAfterWinPercent: number;
+      winAfterLossPercent: number;
+    }
+  | {
+      type: "REGIME"; // Hidden hot / cold state, each with its own win rate
+      hotWinRatePercent: number;
+      coldWinRatePercent: number;
+      stayHotPercent: number; // Chance the next trade is still hot
+      stayColdPercent: number;
+    };
+
 export interface SimulationConfig {
   initialCapital: number;
   riskPerTradePercent: number;
@@ -5,6 +43,84 @@ export interface SimulationConfig {
   rewardToRiskRatio: number;
   numberOfTrades: number;
   simulationCount: number;
+  seed: number; // Same seed + same config = identical run
+  sizing?: SizingModel; // Defaults to FIXED_FRACTIONAL
+  outcomes?: OutcomeBucket[]; // Replaces the win rate / R:R pair when set
+  sequence?: SequenceModel; // Independent trades when unset
+  costs?: CostModel; // Gross (cost-free) results when unset
+  winRateUncertainty?: WinRateUncertainty; // DEFAULT_WIN_RATE_UNCERTAINTY when unset
+  circuitBreakers?: CircuitBreakers; // Every trade is taken when unset
+  timeModel?: TimeModel; // No annualized metrics when unset
+  cashFlows?: CashFlowPlan; // No deposits or withdrawals when unset
+}
+
+// Money moved in or out of the account every `everyTrades` trade
+// opportunities. Withdrawals never exceed the balance; amounts at 0 are off.
+export interface CashFlowPlan {
+  everyTrades: number;
+  depositAmount: number; // $ added at each interval
+  withdrawalAmount: number; // Fixed $ taken out at each interval
+  withdrawProfitPercent: number; // Share of the interval's trading profit paid out
+}
+
+export interface CashFlowStats {
+  deposited: number;
+  withdrawn: number;
+  // Growth of the strategy itself, unaffected by when money moved
+  timeWeightedReturnPercent: number;
+  // The investor's return over the horizon (IRR), which the timing of
+  // deposits and withdrawals does affect
+  moneyWeightedReturnPercent: number;
+}
+
+export type ReturnPeriod = "DAILY" | "MONTHLY";
+
+// How returns are bucketed and benchmarked for the annualized ratios
+export interface PerformanceSettings {
+  returnPeriod: ReturnPeriod;
+  riskFreeRatePercent: number; // Annual
+}
+
+// Places simulated trades on a calendar
+export interface TimeModel extends PerformanceSettings {
+  tradesPerWeek: number;
+}
+
+// Annualized performance of one equity path
+export interface PerformanceStats {
+  cagrPercent: number;
+  annualVolatilityPercent: number;
+  sharpe: number;
+  sortino: number | null; // null when unbounded: no period below the risk-free rate
+  calmar: number | null; // null when unbounded: growth without a drawdown
+}
+
+// Personal stop rules. numberOfTrades becomes the number of trade
+// opportunities, grouped into days; a blocked opportunity is skipped.
+// Numeric rules are off at 0.
+export interface CircuitBreakers {
+  tradesPerDay: number; // Opportunities per day (the average when randomized)
+  randomizeTradesPerDay: boolean; // Poisson day volume, like the prop firm sim
+  dailyLossLimitPercent: number; // Stop for the day once down this % on the day
+  pauseAfterLosses: number; // Consecutive losses that trigger a pause
+  pauseDays: number; // Length of the pause; 1 = rest of the day
+  equityStopPercent: number; // Stop for good this % below the starting capital
+  stopAfterFirstWin: boolean; // Done for the day after a winning trade
+}
+
+// How much each run's true win rate may differ from the estimate.
+// SAMPLE_SIZE draws it from the Beta posterior of a sample of that many
+// trades, so small samples get honestly wider outcome ranges.
+export type WinRateUncertainty =
+  | { type: "NONE" }
+  | { type: "NORMAL"; stdDevPercent: number }
+  | { type: "SAMPLE_SIZE"; sampleTrades: number };
+
+// Trading costs charged on every trade, whatever its outcome
+export interface CostModel {
+  commissionPerTrade: number; // $ per round turn
+  slippageR: number; // Spread + slippage in R (0.05 = 5% of the amount risked)
+  riskFractionPercent: number; // Any other cost quoted as % of risk
 }
 
 export interface EquityPoint {
@@ -13,35 +129,247 @@ export interface EquityPoint {
   [key: string]: number; // For multiple simulation lines
 }
 
-export interface SimulationStats {
+export interface Percentiles {
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+// Cross-simulation equity distribution at one trade index (fan chart row)
+export interface PercentileBand extends Percentiles {
+  tradeNumber: number;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// How long equity stays below its high-water mark, not just how deep
+export interface DrawdownDurationStats {
+  longestDrawdownTrades: number; // Longest spell under water
+  avgDrawdownTrades: number;
+  worstDrawdownRecoveryTrades: number | null; // Trough to new high; null = never
+  ulcerIndex: number; // RMS of the drawdown % over every trade
+}
+
+export interface SimulationStats extends DrawdownDurationStats {
   finalBalance: number;
   returnPercent: number;
   maxDrawdownPercent: number;
   profitFactor: number;
   maxWinStreak: number;
   maxLossStreak: number;
+  lowestBalance: number;
+  tradesTaken: number;
+  performance?: PerformanceStats; // Only with a time model
+  cashFlows?: CashFlowStats; // Only with a cash-flow plan
+  longestDrawdownDays?: number; // Only with a known trading pace
 }
 
+export interface RiskOfRuinConfig {
+  winRate: number;
+  rewardRisk: number;
+  riskPerTrade: number;
+  seed: number;
+  outcomes?: OutcomeBucket[]; // Replaces the win rate / R:R pair when set
+  winRateUncertainty?: WinRateUncertainty; // DEFAULT_WIN_RATE_UNCERTAINTY when unset
+}
+
+// Distribution-aware roll-up of SimulationStats[] (medians and tails, not means)
+export interface SimulationSummary {
+  medianFinalBalance: number;
+  medianReturnPercent: number;
+  p5ReturnPercent: number;
+  medianMaxDrawdownPercent: number;
+  p95MaxDrawdownPercent: number;
+  medianProfitFactor: number;
+  medianLongestDrawdownTrades: number;
+  p95LongestDrawdownTrades: number;
+  medianLongestDrawdownDays?: number; // Only with a known trading pace
+  p95LongestDrawdownDays?: number;
+  medianAvgDrawdownTrades: number;
+  medianRecoveryTrades: number | null; // Over runs that recovered; null if none did
+  unrecoveredPercent: number; // % of runs still below their worst peak at the end
+  medianUlcerIndex: number;
+  medianTradesTaken: number;
+  medianPerformance?: PerformanceStats; // Field-wise medians, with a time model
+  medianCashFlows?: CashFlowStats; // Field-wise medians, with a cash-flow plan
+  maxWinStreak: number;
+  maxLossStreak: number;
+  ruinProbability: number; // % of runs that touched the ruin threshold
+  bestRun: number; // Index into SimulationStats[]
+  worstRun: number;
+  medianRun: number;
+  finalBalanceHistogram: HistogramBin[];
+  maxDrawdownHistogram: HistogramBin[];
+}
+
+// Where the max total drawdown floor sits
+export type TotalDrawdownRule =
+  | "STATIC" // Starting balance minus the limit
+  | "TRAILING" // Trails the highest equity, trade by trade
+  | "TRAILING_EOD" // Trails the highest end-of-day balance
+  | "TRAILING_LOCK"; // Trails until it reaches the starting balance, then stays
+
+// What the max daily loss is measured from
+export type DailyDrawdownRule =
+  | "START_OF_DAY" // % of the day's starting balance
+  | "HIGH_OF_DAY" // % of the higher of that and the day's starting equity
+  | "INITIAL_BALANCE"; // % of the initial balance, below the day's start
+
 export interface PhaseConfig {
   profitTargetPercent: number;
   maxTotalDrawdownPercent: number;
   maxDailyDrawdownPercent: number;
+  totalDrawdownRule?: TotalDrawdownRule; // From isTrailingDrawdown when unset
+  dailyDrawdownRule?: DailyDrawdownRule; // START_OF_DAY when unset
+  minTradingDays?: number; // Days with at least one trade before passing
+  maxCalendarDays?: number; // Time limit; none when unset
+  maxDayProfitSharePercent?: number; // Consistency: best day vs total profit
+}
+
+// The drawdown side of a phase, shared with the funded account
+export type DrawdownRules = Pick<
+  PhaseConfig,
+  | "maxTotalDrawdownPercent"
+  | "maxDailyDrawdownPercent"
+  | "totalDrawdownRule"
+  | "dailyDrawdownRule"
+>;
+
+// Grows the funded account when a review period ends far enough in profit
+export interface ScalingPlan {
+  reviewCycles: number; // Payout cycles per review
+  profitPercent: number; // Profit over the review needed, % of the account
+  increasePercent: number; // Added per scale-up, % of the starting size
+  maxAccountSize: number;
+}
+
+// The funded stage that follows a passed challenge
+export interface FundedConfig extends DrawdownRules {
+  horizonDays: number; // Calendar days the funded account is followed
+  payoutCycleDays: number; // Calendar days between payout requests
+  profitSplitPercent: number; // Trader's share of the profit paid out
+  isFeeRefunded: boolean; // Challenge fee paid back with the first payout
+  scaling?: ScalingPlan; // No scaling when unset
+}
+
+// Buying another attempt after a failed one
+export interface RetryPolicy {
+  maxAttempts: number; // Including the first
+  resetFee?: number; // Price of a retry; the challenge fee when unset
+  discountPercent: number; // Off each retry's price
 }
 
 export interface PropFirmConfig {
   accountSize: number;
   steps: number; // 1, 2, or 3
   phases: PhaseConfig[];
-  isTrailingDrawdown: boolean;
+  isTrailingDrawdown: boolean; // Total drawdown rule of phases without one
   winRatePercent: number;
   rewardToRiskRatio: number;
   riskPerTradePercent: number;
   tradesPerWeek: number; // Changed from tradesPerDay
+  seed: number;
+  sizing?: SizingModel; // Defaults to FIXED_FRACTIONAL
+  outcomes?: OutcomeBucket[]; // Replaces the win rate / R:R pair when set
+  sequence?: SequenceModel; // Independent trades when unset
+  winRateUncertainty?: WinRateUncertainty; // DEFAULT_WIN_RATE_UNCERTAINTY when unset
+  challengeFee?: number; // Price of one attempt, in $
+  retries?: RetryPolicy; // A single attempt when unset
+  funded?: FundedConfig; // Attempts stop at the pass when unset
+}
+
+// The firm's side of a PropFirmConfig: what a rule preset stores
+export type PropFirmRules = Pick<
+  PropFirmConfig,
+  "accountSize" | "steps" | "phases" | "isTrailingDrawdown"
+>;
+
+export interface PropFirmPreset {
+  name: string; // Unique within the library
+  description?: string;
+  rules: PropFirmRules;
+  isBuiltIn?: boolean; // Shipped with the app; can't be edited or deleted
 }
 
 export interface PropFirmResult {
-  outcome: "PASS" | "FAIL_MAX_DD" | "FAIL_DAILY_DD";
-  daysTaken: number;
+  outcome:
+    | "PASS"
+    | "FAIL_MAX_DD"
+    | "FAIL_DAILY_DD"
+    | "FAIL_TIMEOUT"
+    | "FAIL_CONSISTENCY";
+  daysTaken: number; // Trading days, over all phases attempted
+  phase: number; // Phase the attempt ended in, from 1
+}
+
+// Equity after each trade of an attempt, with the lines it was held to
+export interface PropFirmPathPoint {
+  trade: number; // Across all phases
+  phase: number;
+  equity: number;
+  target: number;
+  totalFloor: number;
+  dailyFloor: number;
+}
+
+export interface PropFirmPath extends PropFirmResult {
+  points: PropFirmPathPoint[];
+}
+
+export interface DaysDistribution {
+  histogram: HistogramBin[]; // Trading days
+  median: number;
+  p90: number;
+}
+
+// How many attempts ended in each PropFirmResult outcome
+export interface PropFirmOutcomeCounts {
+  pass: number;
+  failMaxDD: number;
+  failDailyDD: number;
+  failTimeout: number;
+  failConsistency: number;
+}
+
+// One funded account, from the pass until it's lost or the horizon ends
+export interface FundedResult {
+  payouts: number;
+  totalPayout: number; // Trader's share, fee refund included
+  daysFunded: number; // Calendar days
+  isBlown: boolean; // Broke a drawdown limit before the horizon
+  finalAccountSize: number; // After any scale-ups
+}
+
+export interface FundedSummary {
+  accounts: number; // Passed attempts that went on to be funded
+  avgPayouts: number;
+  avgTotalPayout: number;
+  payoutPercentiles: Percentiles; // Total payout per funded account
+  payoutHistogram: HistogramBin[];
+  noPayoutPercent: number; // Lost or never in profit on a payout date
+  blownPercent: number;
+  medianDaysFunded: number | null; // Calendar days; null when most survive
+  survival: { day: number; survivingPercent: number }[]; // At each payout date
+  avgFinalAccountSize: number;
+}
+
+// The whole venture per trader: attempts bought until one passes or they
+// run out, then the funded stage
+export interface ChallengeEconomicsSummary {
+  fundedWithinPercent: number[]; // [i]: funded within i + 1 attempts
+  avgAttempts: number;
+  avgSpend: number; // Challenge and retry fees
+  avgPayout: number; // Funded-stage payouts; 0 without a funded stage
+  avgNetProfit: number; // Payouts minus fees
+  netProfitPercentiles: Percentiles;
+  netProfitHistogram: HistogramBin[];
+  profitablePercent: number; // Traders whose payouts beat their fees
 }
 
 export interface FeeConfig {
@@ -64,6 +392,8 @@ export const TabId = {
   FEE_ANALYZER: "fees",
   RISK_RUIN: "risk-ruin",
   ANALYZE_DATA: "analyze-data",
+  SENSITIVITY: "sensitivity",
+  PORTFOLIO: "portfolio",
 } as const;
 
 export type TabId = (typeof TabId)[keyof typeof TabId];
@@ -76,3 +406,213 @@ export interface ParsedTrade {
   equity: number;
   timestamp?: number; // Unix timestamp in ms
 }
+
+export interface TradeStats extends DrawdownDurationStats {
+  totalTrades: number;
+  winRate: number;
+  avgRR: number;
+  maxDrawdown: number;
+  netProfit: number;
+  tradesPerWeek: number;
+  longestDrawdownDays: number | null; // null when trades have no timestamps
+  performance: PerformanceStats | null; // null when trades have no timestamps
+}
+
+// Engines report completed work as a fraction between 0 and 1
+export type ProgressCallback = (fraction: number) => void;
+
+export type BootstrapMethod = "IID" | "BLOCK";
+
+// Forward simulation that resamples the P&L of imported trades
+export interface BootstrapConfig {
+  initialCapital: number;
+  numberOfTrades: number;
+  simulationCount: number;
+  method: BootstrapMethod;
+  blockSize: number; // Consecutive trades drawn together (BLOCK only)
+  ruinDrawdownPercent: number; // Loss from initial capital that counts as ruin
+  seed: number;
+  tradesPerWeek?: number; // Pace of the history; no durations in days when unset
+}
+
+export interface BootstrapResult {
+  bands: PercentileBand[];
+  stats: SimulationStats[];
+  summary: SimulationSummary;
+  ruinProbability: number; // % (at the configured ruin threshold)
+}
+
+// Limit a risk level must respect to be eligible in the optimizer
+export type RiskConstraint =
+  | { type: "MAX_DRAWDOWN"; p95MaxDrawdownPercent: number }
+  | { type: "RUIN"; maxRuinPercent: number };
+
+// Sweep of fixed-fractional risk levels over a market simulation config
+export interface RiskOptimizerConfig {
+  minRiskPercent: number;
+  maxRiskPercent: number;
+  steps: number;
+  constraint: RiskConstraint;
+}
+
+export interface RiskSweepPoint {
+  riskPercent: number;
+  medianGrowthPercent: number; // Geometric growth per trade of the median run
+  medianReturnPercent: number;
+  p95MaxDrawdownPercent: number;
+  ruinProbability: number;
+  feasible: boolean; // Meets the constraint
+}
+
+export interface RiskOptimizerResult {
+  points: RiskSweepPoint[]; // Sorted by risk, Kelly levels included
+  best: RiskSweepPoint | null; // null when no level meets the constraint
+  fullKellyPercent: number;
+  halfKellyPercent: number;
+}
+
+// Inputs shared by every cell of the sensitivity grid; the two swept
+// parameters override their base values per cell
+export interface SensitivityBase {
+  winRatePercent: number;
+  rewardToRiskRatio: number;
+  riskPerTradePercent: number;
+  tradesPerWeek: number;
+  accountSize: number;
+  horizonWeeks: number; // Market metrics simulate tradesPerWeek × horizonWeeks trades
+  simulationsPerCell: number;
+  phase: PhaseConfig; // Challenge rules behind the pass rate
+  seed: number;
+  winRateUncertainty?: WinRateUncertainty; // DEFAULT_WIN_RATE_UNCERTAINTY when unset
+}
+
+export type SensitivityParameter =
+  | "winRatePercent"
+  | "rewardToRiskRatio"
+  | "riskPerTradePercent"
+  | "tradesPerWeek";
+
+export type SensitivityMetric =
+  | "EXPECTANCY"
+  | "MEDIAN_RETURN"
+  | "P95_DRAWDOWN"
+  | "RUIN"
+  | "PASS_RATE";
+
+export interface SensitivityAxis {
+  parameter: SensitivityParameter;
+  min: number;
+  max: number;
+  steps: number;
+}
+
+export interface SensitivityConfig {
+  base: SensitivityBase;
+  x: SensitivityAxis;
+  y: SensitivityAxis;
+  metric: SensitivityMetric;
+}
+
+export interface SensitivityResult {
+  xValues: number[];
+  yValues: number[];
+  values: number[][]; // values[yIndex][xIndex]
+  expectancies: number[][]; // R per trade, for the breakeven frontier
+}
+
+// Calendar mode of the market simulation: a fixed number of months of
+// trading days, each with a Poisson number of trades
+export interface CalendarConfig {
+  months: number;
+  tradesPerWeek: number;
+}
+
+export interface MonthBand extends Percentiles {
+  month: number;
+}
+
+export interface CalendarResult {
+  equityBands: MonthBand[]; // Month-end equity, index 0 = start
+  monthlyReturns: number[][]; // [run][month], % return of each month
+  monthlyHistogram: HistogramBin[]; // Every month of every run
+  monthlyPercentiles: Percentiles;
+  losingMonthPercent: number; // Share of all months below zero
+  losingQuarterPercent: number; // Share of all full calendar quarters below zero
+  // Worst month of each run: its median is the worst month to expect
+  medianWorstMonthPercent: number;
+  p5WorstMonthPercent: number;
+  medianTradesPerMonth: number;
+  bestRun: number;
+  medianRun: number;
+  worstRun: number;
+}
+
+// One strategy traded on the shared portfolio account
+export interface StrategyLeg {
+  name: string;
+  winRatePercent: number;
+  rewardToRiskRatio: number;
+  riskPerTradePercent: number; // Of current account equity
+  tradesPerWeek: number;
+  outcomes?: OutcomeBucket[]; // Replaces the win rate / R:R pair when set
+}
+
+// How the outcomes of different legs are linked
+export type LegDependence =
+  | { type: "INDEPENDENT" }
+  | {
+      type: "CORRELATION"; // Same-day trade outcomes through a Gaussian copula
+      matrix: number[][]; // Symmetric, 1 on the diagonal
+    }
+  | {
+      type: "BAD_DAY"; // Shared factor: on bad days every leg wins less often
+      badDayPercent: number; // Chance a trading day is a bad day
+      winRateDropPercent: number; // Win-rate points lost on a bad day
+    };
+
+export interface PortfolioConfig {
+  initialCapital: number;
+  legs: StrategyLeg[];
+  dependence: LegDependence;
+  weeks: number;
+  simulationCount: number;
+  seed: number;
+  winRateUncertainty?: WinRateUncertainty; // DEFAULT_WIN_RATE_UNCERTAINTY when unset
+}
+
+export interface DayBand extends Percentiles {
+  day: number; // Trading day, 5 per week
+}
+
+export interface LegContribution {
+  medianPnl: number;
+  // Mean share of the portfolio's max-drawdown loss caused by this leg, on
+  // end-of-day equity; negative when the leg gained during the drawdown
+  drawdownSharePercent: number;
+  standaloneMedianReturnPercent: number; // The leg alone on the same account
+  standaloneP95MaxDrawdownPercent: number;
+}
+
+export interface PortfolioResult {
+  bands: DayBand[];
+  stats: SimulationStats[];
+  summary: SimulationSummary;
+  legs: LegContribution[];
+  // Sum of the legs' daily return volatility over the portfolio's; above 1
+  // means the legs partly offset each other
+  diversificationRatio: number;
+  // Sum of the legs' standalone 95th pct. max drawdowns: roughly what the
+  // portfolio would see if every leg drew down at the same time
+  standaloneP95MaxDrawdownSum: number;
+  // The same legs traded independently, to isolate the cost of dependence
+  independentSummary: SimulationSummary;
+}
+
+// Named snapshot of a module's settings and the outputs they produced, kept
+// for side-by-side comparison
+export interface Scenario<C, R> {
+  id: number;
+  name: string;
+  config: C;
+  result: R;
+}
@@ -2,6 +2,10 @@ import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
-})
+  build: {
+    // The CLI bundle (`npm run build:cli`) doesn't serve any static assets
+    copyPublicDir: !isSsrBuild,
+  },
+}))